@@ -25,8 +25,9 @@ async function runBasicSearch() {
   const scraper = new SearchResultScraper(config);
   
   try {
-    // Run the scraper
-    const results = await scraper.run();
+    // Open a session so the results page stays available for follow-up calls
+    await scraper.open();
+    const results = await scraper.search();
     
     console.log('\nSearch Results Summary:');
     console.log(`- Organic Results: ${results.organicResults?.length || 0}`);
@@ -43,22 +44,37 @@ async function runBasicSearch() {
       console.log(`- URL: ${firstResult.url}`);
       console.log(`- Snippet: ${firstResult.snippet}`);
       
-      // Perform a follow-up search on the first result
+      // Visit the first result in a separate page
       console.log('\nPerforming follow-up search on the first result...');
-      const followUpResults = await scraper.performFollowUpSearch(0);
+      const followUpResults = await scraper.followUp(0);
       
       if (followUpResults) {
         console.log('Follow-up search completed successfully!');
         console.log(`- Title: ${followUpResults.title}`);
-        console.log(`- Content Preview: ${followUpResults.content?.substring(0, 100)}...`);
+        console.log(`- Status: ${followUpResults.statusCode}`);
+        console.log(`- Content Preview: ${followUpResults.text.substring(0, 100)}...`);
       } else {
         console.log('Follow-up search failed or returned no results.');
       }
     }
     
-    console.log(`\nResults saved to ${config.outputDir}`);
+    // Expand the first "People Also Ask" question on the same results page
+    if (results.peopleAlsoAsk && results.peopleAlsoAsk.length > 0) {
+      const answer = await scraper.expandQuestion(0);
+      console.log(`\n${results.peopleAlsoAsk[0]}\n${answer || 'No answer found.'}`);
+    }
+    
+    // Follow the first related search
+    if (results.relatedSearches && results.relatedSearches.length > 0) {
+      const relatedResults = await scraper.relatedSearch(0);
+      console.log(`\nRelated search "${relatedResults?.query}": ${relatedResults?.organicResults?.length || 0} organic results`);
+    }
+    
+    console.log(`\nResults saved to ${config.outputDir}/${scraper.getLastRun()?.runId ?? ''}`);
   } catch (error) {
     console.error('An error occurred:', error);
+  } finally {
+    await scraper.close();
   }
 }
 
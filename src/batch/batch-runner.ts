@@ -0,0 +1,169 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { BatchManifest, BatchQuery, BatchQueryResult, ScraperConfig, SearchEngineType, SearchResults } from '../config/types';
+import { BrowserPool } from '../scraper/browser-manager';
+import { SearchResultScraper } from '../scraper/search-result-scraper';
+import { countResults } from '../utils/result-counts';
+
+/**
+ * Name of the summary manifest written into the batch output directory
+ */
+export const BATCH_MANIFEST_FILE = 'batch-manifest.json';
+
+/**
+ * Runs many queries with one shared browser pool, one page per running query
+ */
+export class BatchRunner {
+  private config: ScraperConfig;
+  private concurrency: number;
+  private onResults?: (results: SearchResults, engine: SearchEngineType) => void;
+
+  /**
+   * Create a new BatchRunner
+   * 
+   * @param config Configuration applied to every query; outputDir is the batch root directory
+   * @param concurrency Number of queries to run at the same time
+   * @param options.onResults Called with the results of every successful query
+   */
+  constructor(
+    config: ScraperConfig,
+    concurrency: number = 1,
+    options: { onResults?: (results: SearchResults, engine: SearchEngineType) => void } = {}
+  ) {
+    this.config = config;
+    this.concurrency = Math.max(1, Math.floor(concurrency));
+    this.onResults = options.onResults;
+  }
+
+  /**
+   * Run all queries and write the summary manifest
+   * 
+   * @param queries Queries to run
+   * @param queryFile Query file the queries were read from, recorded in the manifest
+   * @returns The summary manifest
+   */
+  async run(queries: BatchQuery[], queryFile?: string): Promise<BatchManifest> {
+    const startedAt = new Date();
+    const startTime = performance.now();
+    const results: BatchQueryResult[] = new Array(queries.length);
+    
+    console.log(`Running ${queries.length} queries with concurrency ${this.concurrency}`);
+    
+    const pool = new BrowserPool({
+      headless: this.config.headless,
+      slowMo: this.config.slowMo,
+      maxPages: this.concurrency
+    });
+    
+    try {
+      // Launch up front so a browser that can't start fails the batch instead of every query
+      await pool.getBrowser();
+      let nextIndex = 0;
+      
+      // Each worker takes the next query until none are left
+      const worker = async () => {
+        while (nextIndex < queries.length) {
+          const index = nextIndex++;
+          results[index] = await this.runQuery(pool, queries[index], index);
+        }
+      };
+      
+      const workerCount = Math.min(this.concurrency, queries.length);
+      await Promise.all(Array.from({ length: workerCount }, () => worker()));
+    } finally {
+      await pool.close();
+    }
+    
+    const succeeded = results.filter(result => result.status === 'success').length;
+    const manifest: BatchManifest = {
+      queryFile,
+      startedAt: startedAt.toISOString(),
+      finishedAt: new Date().toISOString(),
+      durationMs: performance.now() - startTime,
+      concurrency: this.concurrency,
+      total: results.length,
+      succeeded,
+      failed: results.length - succeeded,
+      queries: results
+    };
+    
+    fs.mkdirSync(this.config.outputDir, { recursive: true });
+    const manifestPath = path.join(this.config.outputDir, BATCH_MANIFEST_FILE);
+    fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2));
+    console.log(`Batch manifest saved to ${manifestPath}`);
+    
+    return manifest;
+  }
+
+  /**
+   * Run a single query in its own page and output subdirectory
+   * 
+   * @param pool Shared browser pool
+   * @param batchQuery Query to run
+   * @param index Position of the query in the batch
+   */
+  private async runQuery(
+    pool: BrowserPool,
+    batchQuery: BatchQuery,
+    index: number
+  ): Promise<BatchQueryResult> {
+    const engine = batchQuery.engine || this.config.engine || SearchEngineType.BING;
+    const outputDir = path.join(this.config.outputDir, this.getQueryDirectoryName(batchQuery.query, index));
+    const startTime = performance.now();
+    
+    console.log(`[BATCH] (${index + 1}) Searching for "${batchQuery.query}"`);
+    
+    try {
+      const scraper = new SearchResultScraper({
+        ...this.config,
+        searchQuery: batchQuery.query,
+        engine,
+        outputDir
+      }, { pool });
+      
+      const { timingData, ...results } = await scraper.run();
+      const run = scraper.getLastRun();
+      this.onResults?.(results, engine);
+      
+      return {
+        index,
+        query: batchQuery.query,
+        engine,
+        status: 'success',
+        outputDir: run ? path.join(outputDir, run.runId) : outputDir,
+        runId: run?.runId,
+        counts: countResults(results),
+        durationMs: performance.now() - startTime,
+        timingData
+      };
+    } catch (error) {
+      console.error(`[BATCH] (${index + 1}) Query "${batchQuery.query}" failed: ${error}`);
+      
+      return {
+        index,
+        query: batchQuery.query,
+        engine,
+        status: 'failed',
+        outputDir,
+        durationMs: performance.now() - startTime,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+
+  /**
+   * Build a unique, file system safe directory name for a query
+   * 
+   * @param query Search query
+   * @param index Position of the query in the batch
+   */
+  private getQueryDirectoryName(query: string, index: number): string {
+    const slug = query
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .substring(0, 60);
+    
+    return `${String(index + 1).padStart(3, '0')}-${slug || 'query'}`;
+  }
+}
@@ -0,0 +1,177 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { BatchQuery, SearchEngineType } from '../config/types';
+
+/**
+ * Read the queries of a batch from a file.
+ * 
+ * Supported formats, chosen by file extension:
+ * - .txt (or anything else): one query per line, "#" starts a comment line
+ * - .csv: a header row with a "query" column and an optional "engine" column
+ * - .jsonl: one JSON string or { "query": ..., "engine": ... } object per line
+ * 
+ * @param filePath Path to the query file
+ */
+export function readQueryFile(filePath: string): BatchQuery[] {
+  const content = fs.readFileSync(filePath, 'utf-8');
+  
+  switch (path.extname(filePath).toLowerCase()) {
+    case '.csv':
+      return parseCsvQueries(content);
+    case '.jsonl':
+    case '.ndjson':
+      return parseJsonlQueries(content);
+    default:
+      return parseTextQueries(content);
+  }
+}
+
+/**
+ * Parse one query per line, skipping blank lines and comments
+ * 
+ * @param content File content
+ */
+export function parseTextQueries(content: string): BatchQuery[] {
+  return content
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line.length > 0 && !line.startsWith('#'))
+    .map(query => ({ query }));
+}
+
+/**
+ * Parse queries from CSV with a header row
+ * 
+ * @param content File content
+ */
+export function parseCsvQueries(content: string): BatchQuery[] {
+  const rows = parseCsvRows(content).filter(row => row.some(cell => cell.trim() !== ''));
+  if (rows.length === 0) {
+    return [];
+  }
+  
+  const header = rows[0].map(cell => cell.trim().toLowerCase());
+  const queryColumn = header.indexOf('query');
+  if (queryColumn < 0) {
+    throw new Error('CSV query file needs a "query" column');
+  }
+  const engineColumn = header.indexOf('engine');
+  
+  return rows.slice(1)
+    .filter(row => (row[queryColumn] || '').trim() !== '')
+    .map(row => ({
+      query: row[queryColumn].trim(),
+      engine: engineColumn >= 0 ? parseEngineValue(row[engineColumn]) : undefined
+    }));
+}
+
+/**
+ * Parse queries from JSON Lines
+ * 
+ * @param content File content
+ */
+export function parseJsonlQueries(content: string): BatchQuery[] {
+  const queries: BatchQuery[] = [];
+  
+  content.split(/\r?\n/).forEach((line, index) => {
+    if (line.trim() === '') {
+      return;
+    }
+    
+    let value: unknown;
+    try {
+      value = JSON.parse(line);
+    } catch (error) {
+      throw new Error(`Invalid JSON on line ${index + 1} of query file: ${error}`);
+    }
+    
+    if (typeof value === 'string') {
+      queries.push({ query: value });
+      return;
+    }
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      throw new Error(`Line ${index + 1} of query file has no "query"`);
+    }
+    
+    const fields = value as Record<string, unknown>;
+    if (typeof fields.query !== 'string') {
+      throw new Error(`Line ${index + 1} of query file has no "query"`);
+    }
+    if (fields.engine !== undefined && fields.engine !== null && typeof fields.engine !== 'string') {
+      throw new Error(`Line ${index + 1} of query file has an "engine" that is not a string`);
+    }
+    
+    queries.push({
+      query: fields.query,
+      engine: parseEngineValue(fields.engine)
+    });
+  });
+  
+  return queries;
+}
+
+/**
+ * Split CSV content into rows of cells, honoring quoted fields
+ * 
+ * @param content CSV content
+ */
+function parseCsvRows(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') {
+        i++;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  
+  return rows;
+}
+
+/**
+ * Validate an engine name from a query file
+ * 
+ * @param value Engine name, may be empty
+ */
+function parseEngineValue(value: unknown): SearchEngineType | undefined {
+  if (typeof value !== 'string' || value.trim() === '') {
+    return undefined;
+  }
+  
+  const engine = value.trim().toLowerCase();
+  if (!(Object.values(SearchEngineType) as string[]).includes(engine)) {
+    throw new Error(`Unknown search engine "${value}" in query file`);
+  }
+  return engine as SearchEngineType;
+}
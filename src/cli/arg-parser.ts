@@ -0,0 +1,124 @@
+/**
+ * Error raised for invalid command line usage
+ */
+export class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliUsageError';
+  }
+}
+
+/**
+ * Describes a command line option
+ */
+export interface OptionSpec {
+  // Long option name without dashes, e.g. "slow-mo"
+  name: string;
+  type: 'boolean' | 'string' | 'number';
+  description: string;
+  // Single letter alias, e.g. "h" for -h
+  alias?: string;
+  // Placeholder shown in help output for options taking a value
+  valueName?: string;
+}
+
+/**
+ * Result of parsing command line arguments
+ */
+export interface ParsedArgs {
+  positional: string[];
+  options: Record<string, string | number | boolean | undefined>;
+}
+
+/**
+ * Parse command line arguments against a set of option specs.
+ * Supports "--name value", "--name=value", "--no-name" for booleans,
+ * single letter aliases and "--" to end option parsing.
+ *
+ * @param args Arguments to parse (without node and script name)
+ * @param specs Known options
+ */
+export function parseArgs(args: string[], specs: OptionSpec[]): ParsedArgs {
+  const parsed: ParsedArgs = { positional: [], options: {} };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    if (arg === '--') {
+      parsed.positional.push(...args.slice(i + 1));
+      break;
+    }
+
+    if (!arg.startsWith('-') || arg === '-') {
+      parsed.positional.push(arg);
+      continue;
+    }
+
+    // Split "--name=value" forms
+    const equalsIndex = arg.indexOf('=');
+    const flag = equalsIndex >= 0 ? arg.slice(0, equalsIndex) : arg;
+    let inlineValue = equalsIndex >= 0 ? arg.slice(equalsIndex + 1) : undefined;
+
+    let spec: OptionSpec | undefined;
+    let negated = false;
+
+    if (flag.startsWith('--')) {
+      const name = flag.slice(2);
+      spec = specs.find(s => s.name === name);
+
+      if (!spec && name.startsWith('no-')) {
+        spec = specs.find(s => s.name === name.slice(3) && s.type === 'boolean');
+        negated = spec !== undefined;
+      }
+    } else {
+      spec = specs.find(s => s.alias === flag.slice(1));
+    }
+
+    if (!spec) {
+      throw new CliUsageError(`Unknown option: ${flag}`);
+    }
+
+    if (spec.type === 'boolean') {
+      if (inlineValue !== undefined) {
+        throw new CliUsageError(`Option --${spec.name} does not take a value`);
+      }
+      parsed.options[spec.name] = !negated;
+      continue;
+    }
+
+    if (inlineValue === undefined) {
+      if (i + 1 >= args.length) {
+        throw new CliUsageError(`Option --${spec.name} requires a value`);
+      }
+      inlineValue = args[++i];
+    }
+
+    if (spec.type === 'number') {
+      const value = Number(inlineValue);
+      if (inlineValue.trim() === '' || isNaN(value)) {
+        throw new CliUsageError(`Option --${spec.name} expects a number, got "${inlineValue}"`);
+      }
+      parsed.options[spec.name] = value;
+    } else {
+      parsed.options[spec.name] = inlineValue;
+    }
+  }
+
+  return parsed;
+}
+
+/**
+ * Format option specs as help text lines
+ *
+ * @param specs Options to describe
+ */
+export function formatOptionsHelp(specs: OptionSpec[]): string {
+  const rows = specs.map(spec => {
+    const alias = spec.alias ? `-${spec.alias}, ` : '    ';
+    const value = spec.type === 'boolean' ? '' : ` <${spec.valueName || spec.type}>`;
+    return { flag: `${alias}--${spec.name}${value}`, description: spec.description };
+  });
+
+  const width = Math.max(...rows.map(row => row.flag.length));
+  return rows.map(row => `  ${row.flag.padEnd(width)}  ${row.description}`).join('\n');
+}
@@ -0,0 +1,31 @@
+import { OptionSpec, ParsedArgs } from './arg-parser';
+
+/**
+ * Exit codes returned by the command line interface
+ */
+export const EXIT_CODES = {
+  success: 0,
+  failure: 1,
+  usage: 2
+};
+
+/**
+ * A subcommand of the command line interface
+ */
+export interface CliCommand {
+  name: string;
+  // One line description shown in the command list
+  summary: string;
+  // Usage line without the binary name, e.g. "search <query> [options]"
+  usage: string;
+  options: OptionSpec[];
+  // Example invocations without the binary name
+  examples?: string[];
+  /**
+   * Run the command
+   *
+   * @param args Parsed arguments following the command name
+   * @returns Process exit code
+   */
+  run(args: ParsedArgs): Promise<number>;
+}
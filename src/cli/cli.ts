@@ -0,0 +1,120 @@
+import { CliCommand, EXIT_CODES } from './cli-command';
+import { CliUsageError, formatOptionsHelp, parseArgs } from './arg-parser';
+import { GLOBAL_OPTIONS } from './common-options';
+import { searchCommand } from './commands/search-command';
+import { crawlCommand } from './commands/crawl-command';
+import { extractCommand } from './commands/extract-command';
+import { batchCommand } from './commands/batch-command';
+import { diffCommand } from './commands/diff-command';
+import { rankCommand } from './commands/rank-command';
+import { scheduleCommand } from './commands/schedule-command';
+import { serveCommand } from './commands/serve-command';
+import { mcpCommand } from './commands/mcp-command';
+
+/**
+ * Name of the installed binary
+ */
+const BINARY_NAME = 'websearchpup';
+
+/**
+ * Available subcommands, the first one is the default
+ */
+const COMMANDS: CliCommand[] = [
+  searchCommand,
+  crawlCommand,
+  extractCommand,
+  batchCommand,
+  diffCommand,
+  rankCommand,
+  scheduleCommand,
+  serveCommand,
+  mcpCommand
+];
+
+/**
+ * Display general usage information
+ */
+function displayUsage(): void {
+  console.log('\nSearch Result Extractor');
+  console.log('=====================\n');
+  console.log(`Usage: ${BINARY_NAME} <command> [arguments] [options]\n`);
+  console.log('Commands:');
+  const width = Math.max(...COMMANDS.map(command => command.name.length));
+  for (const command of COMMANDS) {
+    console.log(`  ${command.name.padEnd(width)}  ${command.summary}`);
+  }
+  console.log('\nGlobal options:');
+  console.log(formatOptionsHelp(GLOBAL_OPTIONS));
+  console.log(`\nRun "${BINARY_NAME} <command> --help" for the options of a command.`);
+  console.log(`Without a command, arguments are passed to "${COMMANDS[0].name}".\n`);
+}
+
+/**
+ * Display usage information for a command
+ *
+ * @param command Command to describe
+ */
+function displayCommandUsage(command: CliCommand): void {
+  console.log(`\nUsage: ${BINARY_NAME} ${command.usage}\n`);
+  console.log(command.summary);
+  console.log('\nOptions:');
+  console.log(formatOptionsHelp([...command.options, ...GLOBAL_OPTIONS]));
+  if (command.examples && command.examples.length > 0) {
+    console.log('\nExamples:');
+    for (const example of command.examples) {
+      console.log(`  ${BINARY_NAME} ${example}`);
+    }
+  }
+  console.log('');
+}
+
+/**
+ * Silence informational output, keeping errors
+ */
+function enableQuietMode(): void {
+  const noop = () => undefined;
+  console.log = noop;
+  console.info = noop;
+  console.warn = noop;
+}
+
+/**
+ * Run the command line interface
+ *
+ * @param argv Arguments without node and script name
+ * @returns Process exit code
+ */
+export async function runCli(argv: string[]): Promise<number> {
+  // Pick the command, falling back to the default command
+  const named = COMMANDS.find(command => command.name === argv[0]);
+  const command = named || COMMANDS[0];
+  const commandArgs = named ? argv.slice(1) : argv;
+  
+  // A bare --help shows the general usage
+  if (!named && (argv.includes('--help') || argv.includes('-h'))) {
+    displayUsage();
+    return EXIT_CODES.success;
+  }
+  
+  try {
+    const args = parseArgs(commandArgs, [...command.options, ...GLOBAL_OPTIONS]);
+    
+    if (args.options.help) {
+      displayCommandUsage(command);
+      return EXIT_CODES.success;
+    }
+    
+    if (args.options.quiet) {
+      enableQuietMode();
+    }
+    
+    return await command.run(args);
+  } catch (error) {
+    if (error instanceof CliUsageError) {
+      console.error(`Error: ${error.message}`);
+      console.error(`Run "${BINARY_NAME} ${command.name} --help" for usage.`);
+      return EXIT_CODES.usage;
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,72 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CliCommand, EXIT_CODES } from '../cli-command';
+import { CliUsageError, ParsedArgs } from '../arg-parser';
+import { BROWSER_OPTIONS, EXTRACTION_OPTIONS, buildScraperConfig, getPositiveNumber } from '../common-options';
+import { formatTime } from '../timing-summary';
+import { readQueryFile } from '../../batch/query-file';
+import { BatchRunner } from '../../batch/batch-runner';
+
+/**
+ * Run every query of a query file with a shared browser
+ */
+export const batchCommand: CliCommand = {
+  name: 'batch',
+  summary: 'Run all queries of a .txt, .csv or .jsonl file with one shared browser',
+  usage: 'batch <query file> [options]',
+  options: [
+    { name: 'concurrency', type: 'number', valueName: 'n', description: 'Number of queries to run at a time (default 1)' },
+    ...EXTRACTION_OPTIONS,
+    ...BROWSER_OPTIONS
+  ],
+  examples: [
+    'batch ./queries.txt --output ./batch-results',
+    'batch ./queries.csv --concurrency 3 --format json,csv --quiet'
+  ],
+
+  async run(args: ParsedArgs): Promise<number> {
+    if (args.positional.length !== 1) {
+      throw new CliUsageError('Expected exactly one query file');
+    }
+    
+    const queryFile = args.positional[0];
+    if (!fs.existsSync(queryFile)) {
+      throw new CliUsageError(`File not found: ${queryFile}`);
+    }
+    
+    let queries;
+    try {
+      queries = readQueryFile(queryFile);
+    } catch (error) {
+      throw new CliUsageError(error instanceof Error ? error.message : String(error));
+    }
+    if (queries.length === 0) {
+      throw new CliUsageError(`No queries found in ${queryFile}`);
+    }
+    
+    const config = buildScraperConfig(args, '');
+    if (!args.options.output) {
+      config.outputDir = `./batch-results-${path.basename(queryFile, path.extname(queryFile))}`;
+    }
+    
+    const runner = new BatchRunner(config, getPositiveNumber(args, 'concurrency') || 1);
+    
+    try {
+      const manifest = await runner.run(queries, queryFile);
+      
+      console.log(`\nBatch completed in ${formatTime(manifest.durationMs)}: ` +
+        `${manifest.succeeded} succeeded, ${manifest.failed} failed`);
+      for (const result of manifest.queries) {
+        const detail = result.status === 'success'
+          ? `${result.counts?.organicResults || 0} organic results`
+          : result.error;
+        console.log(`  [${result.status}] "${result.query}" (${formatTime(result.durationMs)}): ${detail}`);
+      }
+      
+      return manifest.failed > 0 ? EXIT_CODES.failure : EXIT_CODES.success;
+    } catch (error) {
+      console.error('Batch run failed:', error);
+      return EXIT_CODES.failure;
+    }
+  }
+};
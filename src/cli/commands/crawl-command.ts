@@ -0,0 +1,114 @@
+import { CliCommand, EXIT_CODES } from '../cli-command';
+import { CliUsageError, ParsedArgs } from '../arg-parser';
+import { BROWSER_OPTIONS, getPositiveNumber } from '../common-options';
+import { CRAWL_RETRY_DEFAULTS } from '../../config/default-config';
+import { Crawler } from '../../scraper/crawler';
+import { CRAWL_STATE_FILE, CrawlState } from '../../scraper/crawl-state';
+
+/**
+ * Download pages with the generic crawler
+ */
+export const crawlCommand: CliCommand = {
+  name: 'crawl',
+  summary: 'Download the HTML of one or more URLs',
+  usage: 'crawl <url...> --output <dir> [options]',
+  options: [
+    { name: 'output', alias: 'o', type: 'string', valueName: 'dir', description: 'Output directory (required)' },
+    { name: 'screenshot', type: 'boolean', description: 'Save a full page screenshot next to the HTML' },
+    { name: 'markdown', type: 'boolean', description: 'Also save the page as Markdown with front matter' },
+    { name: 'content', type: 'boolean', description: 'Save the main content without boilerplate as <name>.content.json' },
+    { name: 'wait-for', type: 'string', valueName: 'selector', description: 'Wait for this selector before saving' },
+    { name: 'concurrency', type: 'number', valueName: 'n', description: 'Number of URLs to crawl at a time' },
+    { name: 'retries', type: 'number', valueName: 'n', description: `Retries of a failed URL (default ${CRAWL_RETRY_DEFAULTS.retries})` },
+    { name: 'resume', type: 'boolean', description: `Continue the crawl in the output directory, with its unfinished URLs if none are given` },
+    { name: 'restart', type: 'boolean', description: `Crawl every URL again, ignoring the ${CRAWL_STATE_FILE} of an earlier run` },
+    { name: 'retry-delay', type: 'number', valueName: 'ms', description: `Delay before the first retry, doubled for each further one (default ${CRAWL_RETRY_DEFAULTS.baseDelay})` },
+    ...BROWSER_OPTIONS
+  ],
+  examples: [
+    'crawl https://example.com --output ./crawl-results --screenshot',
+    'crawl https://example.com/blog/post --output ./crawl-results --markdown --content',
+    'crawl https://example.org https://example.net -o ./crawl-results --concurrency 2',
+    'crawl https://example.org https://example.net -o ./crawl-results --retries 4 --retry-delay 2000',
+    'crawl --resume -o ./crawl-results',
+    'crawl https://example.org https://example.net -o ./crawl-results --restart'
+  ],
+
+  async run(args: ParsedArgs): Promise<number> {
+    const urls = [...args.positional];
+    const outputFolder = args.options.output as string | undefined;
+    const resume = args.options.resume === true;
+    const restart = args.options.restart === true;
+    
+    if (!outputFolder) {
+      throw new CliUsageError('Option --output is required');
+    }
+    if (resume && restart) {
+      throw new CliUsageError('Options --resume and --restart can\'t be combined');
+    }
+    if (resume) {
+      const state = new CrawlState(outputFolder);
+      let loaded: boolean;
+      try {
+        loaded = state.load();
+      } catch (error) {
+        console.error(error instanceof Error ? error.message : error);
+        return EXIT_CODES.failure;
+      }
+      if (!loaded) {
+        throw new CliUsageError(`There is no crawl to resume in ${outputFolder}, ${CRAWL_STATE_FILE} is missing`);
+      }
+      // The URLs of the earlier run that aren't given again
+      urls.push(...state.getUrls().filter(url => !urls.includes(url)));
+    }
+    if (urls.length === 0) {
+      throw new CliUsageError('Expected at least one URL to crawl');
+    }
+    
+    const retries = args.options.retries as number | undefined;
+    if (retries !== undefined && (!Number.isInteger(retries) || retries < 0)) {
+      throw new CliUsageError('Option --retries must be a whole number, not negative');
+    }
+    const retryDelay = getPositiveNumber(args, 'retry-delay');
+    
+    const slowMo = (args.options['slow-mo'] as number | undefined) ?? 0;
+    const concurrency = getPositiveNumber(args, 'concurrency');
+    // One browser page per URL crawled at the same time
+    const crawler = new Crawler(!args.options.headful, slowMo, { maxPages: concurrency });
+    
+    const options = {
+      takeScreenshot: args.options.screenshot === true,
+      extractContent: args.options.content === true,
+      markdown: args.options.markdown === true,
+      waitForSelector: args.options['wait-for'] as string | undefined,
+      timeout: getPositiveNumber(args, 'timeout'),
+      concurrency,
+      resume: !restart,
+      retry: {
+        ...(retries !== undefined ? { retries } : {}),
+        ...(retryDelay !== undefined ? { baseDelay: retryDelay } : {})
+      }
+    };
+    
+    try {
+      const result = await crawler.crawlMultiple(urls, outputFolder, options);
+      
+      if (result.failures.length > 0) {
+        // The pages that did load are kept
+        console.error(`Crawling failed for ${result.failures.length} of ${urls.length} URLs. Saved ${result.filePaths.length} files to ${outputFolder}`);
+        return EXIT_CODES.failure;
+      }
+      if (urls.length === 1) {
+        console.log(`Crawling completed successfully. Output saved to ${result.filePaths[0]}`);
+      } else {
+        console.log(`Crawling completed successfully. Saved ${result.filePaths.length} files to ${outputFolder}`);
+      }
+      return EXIT_CODES.success;
+    } catch (error) {
+      console.error('Crawling failed:', error);
+      return EXIT_CODES.failure;
+    } finally {
+      await crawler.close();
+    }
+  }
+};
@@ -0,0 +1,155 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CliCommand, EXIT_CODES } from '../cli-command';
+import { CliUsageError, ParsedArgs } from '../arg-parser';
+import { DiffFormat, SearchResults } from '../../config/types';
+import { RunHistory, RUN_MANIFEST_FILE } from '../../output/run-history';
+import { diffSearchResults } from '../../diff/serp-diff';
+import { DiffFormatter } from '../../diff/diff-formatter';
+
+/**
+ * File a run's results are read from
+ */
+const RESULTS_FILE = 'search-results.json';
+
+/**
+ * A capture loaded for comparison
+ */
+interface LoadedCapture {
+  results: SearchResults;
+  // Run ID, or the file path for captures outside a run directory
+  label: string;
+}
+
+/**
+ * Compare two captures of the same query
+ */
+export const diffCommand: CliCommand = {
+  name: 'diff',
+  summary: 'Compare two runs of the same query',
+  usage: 'diff <output dir> | diff <before> <after> [options]',
+  options: [
+    {
+      name: 'format',
+      alias: 'f',
+      type: 'string',
+      valueName: 'name',
+      description: `Report format (${Object.values(DiffFormat).join(', ')}), default text`
+    },
+    { name: 'output', alias: 'o', type: 'string', valueName: 'file', description: 'Write the report to a file instead of stdout' },
+    { name: 'fail-on-change', type: 'boolean', description: 'Exit with code 1 when the results changed' }
+  ],
+  examples: [
+    'diff ./search-results-puppeteer-tutorial',
+    'diff ./out/20240101-120000-1a2b3c ./out/latest --format html --output changes.html',
+    'diff before.json after.json --format json'
+  ],
+
+  async run(args: ParsedArgs): Promise<number> {
+    const format = parseDiffFormat(args.options.format as string | undefined);
+    const [before, after] = resolveCaptures(args.positional);
+
+    if (before.results.query !== after.results.query) {
+      throw new CliUsageError(`The runs are for different queries: "${before.results.query}" and "${after.results.query}"`);
+    }
+
+    const diff = diffSearchResults(before.results, after.results, { before: before.label, after: after.label });
+    const report = new DiffFormatter().format(diff, format);
+
+    const outputFile = args.options.output as string | undefined;
+    if (outputFile) {
+      fs.writeFileSync(outputFile, report);
+      console.log(`Diff saved to ${outputFile}`);
+    } else {
+      // The report is the command's output, so it is printed even in quiet mode
+      process.stdout.write(report.endsWith('\n') ? report : `${report}\n`);
+    }
+
+    return args.options['fail-on-change'] && diff.hasChanges ? EXIT_CODES.failure : EXIT_CODES.success;
+  }
+};
+
+/**
+ * Parse the report format
+ *
+ * @param value Option value
+ */
+function parseDiffFormat(value: string | undefined): DiffFormat {
+  if (value === undefined) {
+    return DiffFormat.TEXT;
+  }
+
+  const known = Object.values(DiffFormat) as string[];
+  if (!known.includes(value.toLowerCase())) {
+    throw new CliUsageError(`Unknown diff format "${value}", expected one of: ${known.join(', ')}`);
+  }
+
+  return value.toLowerCase() as DiffFormat;
+}
+
+/**
+ * Load the captures to compare. A single output directory compares its two newest runs,
+ * two arguments are results files or run directories.
+ *
+ * @param positional Positional arguments
+ */
+function resolveCaptures(positional: string[]): [LoadedCapture, LoadedCapture] {
+  if (positional.length === 1) {
+    const history = new RunHistory(positional[0]);
+    const runs = history.listRuns();
+    if (runs.length < 2) {
+      throw new CliUsageError(`Expected at least two runs in ${positional[0]}, found ${runs.length}`);
+    }
+    return [
+      loadCapture(history.getRunDir(runs[runs.length - 2])),
+      loadCapture(history.getRunDir(runs[runs.length - 1]))
+    ];
+  }
+
+  if (positional.length === 2) {
+    return [loadCapture(positional[0]), loadCapture(positional[1])];
+  }
+
+  throw new CliUsageError('Expected an output directory, or two results files or run directories');
+}
+
+/**
+ * Load a capture from a results file or a run directory
+ *
+ * @param target Path of a JSON results file or a directory containing one
+ */
+function loadCapture(target: string): LoadedCapture {
+  if (!fs.existsSync(target)) {
+    throw new CliUsageError(`Not found: ${target}`);
+  }
+
+  const isDirectory = fs.statSync(target).isDirectory();
+  const resultsFile = isDirectory ? path.join(target, RESULTS_FILE) : target;
+  if (!fs.existsSync(resultsFile)) {
+    throw new CliUsageError(`No ${RESULTS_FILE} in ${target}, save runs with the json format to compare them`);
+  }
+
+  let results: SearchResults;
+  try {
+    results = JSON.parse(fs.readFileSync(resultsFile, 'utf-8'));
+  } catch (error) {
+    throw new CliUsageError(`Could not read ${resultsFile}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  // Label runs by their ID, which also resolves the "latest" pointer
+  const manifestFile = path.join(path.dirname(resultsFile), RUN_MANIFEST_FILE);
+  let label = target;
+  if (fs.existsSync(manifestFile)) {
+    let manifest: { runId?: unknown };
+    try {
+      manifest = JSON.parse(fs.readFileSync(manifestFile, 'utf-8'));
+    } catch (error) {
+      throw new CliUsageError(`Could not read ${manifestFile}: ${error instanceof Error ? error.message : error}`);
+    }
+    if (manifest && typeof manifest.runId === 'string') {
+      label = manifest.runId;
+    }
+  }
+
+  return { results, label };
+}
@@ -0,0 +1,43 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CliCommand } from '../cli-command';
+import { CliUsageError, ParsedArgs } from '../arg-parser';
+import { BROWSER_OPTIONS, EXTRACTION_OPTIONS, buildScraperConfig, defaultOutputDir } from '../common-options';
+import { runScraper } from './search-command';
+
+/**
+ * Extract results from a saved search results page
+ */
+export const extractCommand: CliCommand = {
+  name: 'extract',
+  summary: 'Extract results from a saved search results page without network access',
+  usage: 'extract <page.html> [options]',
+  options: [
+    { name: 'query', type: 'string', valueName: 'text', description: 'Query of the saved page (read from the search box by default)' },
+    ...EXTRACTION_OPTIONS,
+    ...BROWSER_OPTIONS
+  ],
+  examples: [
+    'extract ./crawl-results/bing.com_search_q_puppeteer.html',
+    'extract ./saved/serp.html --query "puppeteer tutorial" --format json,html'
+  ],
+
+  async run(args: ParsedArgs): Promise<number> {
+    if (args.positional.length !== 1) {
+      throw new CliUsageError('Expected exactly one saved page to extract from');
+    }
+    
+    const htmlFile = args.positional[0];
+    if (!fs.existsSync(htmlFile)) {
+      throw new CliUsageError(`File not found: ${htmlFile}`);
+    }
+    
+    const query = (args.options.query as string | undefined) || '';
+    const config = buildScraperConfig(args, query);
+    if (!args.options.output) {
+      config.outputDir = defaultOutputDir(query || path.basename(htmlFile, path.extname(htmlFile)));
+    }
+    
+    return runScraper(config, htmlFile);
+  }
+};
@@ -0,0 +1,41 @@
+import { CliCommand, EXIT_CODES } from '../cli-command';
+import { CliUsageError, ParsedArgs } from '../arg-parser';
+import { BROWSER_OPTIONS, EXTRACTION_OPTIONS, buildScraperConfig } from '../common-options';
+import { McpServer } from '../../mcp/mcp-server';
+
+/**
+ * Offer searches and page fetches to AI agents over the Model Context Protocol
+ */
+export const mcpCommand: CliCommand = {
+  name: 'mcp',
+  summary: 'Run a Model Context Protocol server on stdio for AI agents',
+  usage: 'mcp [options]',
+  options: [
+    ...EXTRACTION_OPTIONS,
+    ...BROWSER_OPTIONS
+  ],
+  examples: [
+    'mcp --output ./mcp-results',
+    'mcp --engine duckduckgo --no-history --format json'
+  ],
+
+  async run(args: ParsedArgs): Promise<number> {
+    if (args.positional.length > 0) {
+      throw new CliUsageError('The mcp command takes no arguments');
+    }
+
+    const config = buildScraperConfig(args, '');
+    if (!args.options.output) {
+      config.outputDir = './mcp-results';
+    }
+
+    try {
+      // Runs until the client closes stdin
+      await new McpServer(config).serve();
+      return EXIT_CODES.success;
+    } catch (error) {
+      console.error('MCP server failed:', error);
+      return EXIT_CODES.failure;
+    }
+  }
+};
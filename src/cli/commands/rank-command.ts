@@ -0,0 +1,149 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CliCommand, EXIT_CODES } from '../cli-command';
+import { CliUsageError, ParsedArgs } from '../arg-parser';
+import { BROWSER_OPTIONS, EXTRACTION_OPTIONS, buildScraperConfig, getPositiveNumber } from '../common-options';
+import { DomainRank } from '../../config/types';
+import { readQueryFile } from '../../batch/query-file';
+import { BatchRunner } from '../../batch/batch-runner';
+import { RankTracker } from '../../ranking/rank-tracker';
+import { SqliteStore } from '../../output/sqlite-store';
+
+/**
+ * Track where domains rank for the queries of a query file
+ */
+export const rankCommand: CliCommand = {
+  name: 'rank',
+  summary: 'Track the rank of domains for a list of queries and export the history as CSV',
+  usage: 'rank [query file] --domains <list> --db <file> [options]',
+  options: [
+    { name: 'domains', alias: 'd', type: 'string', valueName: 'list', description: 'Comma separated domains to track' },
+    { name: 'csv', type: 'string', valueName: 'file', description: 'Export the rank history of the domains as CSV' },
+    { name: 'concurrency', type: 'number', valueName: 'n', description: 'Number of queries to run at a time (default 1)' },
+    ...EXTRACTION_OPTIONS,
+    ...BROWSER_OPTIONS
+  ],
+  examples: [
+    'rank ./queries.txt --domains example.com,example.org --db ./ranks.db',
+    'rank ./queries.txt --domains example.com --db ./ranks.db --csv ./ranks.csv --quiet',
+    'rank --domains example.com --db ./ranks.db --csv ./ranks.csv'
+  ],
+
+  async run(args: ParsedArgs): Promise<number> {
+    if (args.positional.length > 1) {
+      throw new CliUsageError('Expected at most one query file');
+    }
+
+    const domains = ((args.options.domains as string | undefined) || '')
+      .split(',')
+      .map(domain => domain.trim())
+      .filter(Boolean);
+    if (domains.length === 0) {
+      throw new CliUsageError('Option --domains is required');
+    }
+
+    const database = args.options.db as string | undefined;
+    if (!database) {
+      throw new CliUsageError('Option --db is required to store the rank history');
+    }
+
+    const queryFile = args.positional[0];
+    const csvFile = args.options.csv as string | undefined;
+    if (!queryFile && !csvFile) {
+      throw new CliUsageError('Expected a query file, or --csv to export the existing history');
+    }
+
+    let tracker: RankTracker;
+    try {
+      tracker = new RankTracker(domains);
+    } catch (error) {
+      throw new CliUsageError(error instanceof Error ? error.message : String(error));
+    }
+
+    let store: SqliteStore;
+    try {
+      store = new SqliteStore(database);
+    } catch (error) {
+      // Also reports a missing database driver
+      console.error(`Could not open ${database}: ${error instanceof Error ? error.message : error}`);
+      return EXIT_CODES.failure;
+    }
+
+    try {
+      const failed = queryFile ? await trackQueries(args, queryFile, tracker, store) : 0;
+      if (failed > 0) {
+        console.error(`${failed} queries failed`);
+      }
+
+      if (csvFile) {
+        const ranks = store.getDomainRanks({ domains: tracker.getDomains() });
+        fs.writeFileSync(csvFile, tracker.toCsv(ranks));
+        console.log(`Exported ${ranks.length} rank records to ${csvFile}`);
+      }
+
+      return failed > 0 ? EXIT_CODES.failure : EXIT_CODES.success;
+    } catch (error) {
+      if (error instanceof CliUsageError) {
+        throw error;
+      }
+      console.error('Rank tracking failed:', error);
+      return EXIT_CODES.failure;
+    } finally {
+      store.close();
+    }
+  }
+};
+
+/**
+ * Run the queries of a query file and append the ranks to the store
+ *
+ * @param args Parsed arguments
+ * @param queryFile Query file to read
+ * @param tracker Tracker of the domains
+ * @param store Store to append the ranks to
+ * @returns Number of failed queries
+ */
+async function trackQueries(args: ParsedArgs, queryFile: string, tracker: RankTracker, store: SqliteStore): Promise<number> {
+  if (!fs.existsSync(queryFile)) {
+    throw new CliUsageError(`File not found: ${queryFile}`);
+  }
+
+  let queries;
+  try {
+    queries = readQueryFile(queryFile);
+  } catch (error) {
+    throw new CliUsageError(error instanceof Error ? error.message : String(error));
+  }
+  if (queries.length === 0) {
+    throw new CliUsageError(`No queries found in ${queryFile}`);
+  }
+
+  const config = buildScraperConfig(args, '');
+  if (!args.options.output) {
+    config.outputDir = `./rank-results-${path.basename(queryFile, path.extname(queryFile))}`;
+  }
+
+  const tracked: DomainRank[] = [];
+  const runner = new BatchRunner(config, getPositiveNumber(args, 'concurrency') || 1, {
+    onResults: (results, engine) => {
+      const ranks = tracker.track(results, engine);
+      store.saveDomainRanks(ranks);
+      tracked.push(...ranks);
+    }
+  });
+
+  const manifest = await runner.run(queries, queryFile);
+
+  console.log('\nRanks:');
+  for (const rank of tracked) {
+    const position = rank.bestPosition !== null ? `#${rank.bestPosition}` : 'not ranking';
+    const details = [
+      rank.positions.length > 1 ? `positions ${rank.positions.join(', ')}` : null,
+      rank.hasDeepLinks ? 'deep links' : null,
+      rank.ownsFeaturedSnippet ? 'featured snippet' : null
+    ].filter(Boolean).join(', ');
+    console.log(`  "${rank.query}" ${rank.domain}: ${position}${details ? ` (${details})` : ''}`);
+  }
+
+  return manifest.failed;
+}
@@ -0,0 +1,91 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CliCommand, EXIT_CODES } from '../cli-command';
+import { CliUsageError, ParsedArgs } from '../arg-parser';
+import { BROWSER_OPTIONS, EXTRACTION_OPTIONS, buildScraperConfig } from '../common-options';
+import { formatTime } from '../timing-summary';
+import { waitForShutdown } from '../shutdown';
+import { ScheduledJob } from '../../config/types';
+import { readJobFile } from '../../scheduler/job-file';
+import { SCHEDULER_HISTORY_FILE, Scheduler } from '../../scheduler/scheduler';
+
+/**
+ * Run the searches of a job file on their cron schedules
+ */
+export const scheduleCommand: CliCommand = {
+  name: 'schedule',
+  summary: 'Run recurring searches from a job file on cron schedules',
+  usage: 'schedule <job file> [options]',
+  options: [
+    { name: 'history-file', type: 'string', valueName: 'file', description: `Run history file (default <output dir>/${SCHEDULER_HISTORY_FILE})` },
+    { name: 'once', type: 'boolean', description: 'Run every job once now and exit' },
+    ...EXTRACTION_OPTIONS,
+    ...BROWSER_OPTIONS
+  ],
+  examples: [
+    'schedule ./jobs.json --output ./scheduled-results',
+    'schedule ./jobs.json --db ./searches.db --quiet',
+    'schedule ./jobs.json --once'
+  ],
+
+  async run(args: ParsedArgs): Promise<number> {
+    if (args.positional.length !== 1) {
+      throw new CliUsageError('Expected exactly one job file');
+    }
+
+    const jobFile = args.positional[0];
+    if (!fs.existsSync(jobFile)) {
+      throw new CliUsageError(`File not found: ${jobFile}`);
+    }
+
+    let jobs: ScheduledJob[];
+    try {
+      jobs = readJobFile(jobFile);
+    } catch (error) {
+      throw new CliUsageError(error instanceof Error ? error.message : String(error));
+    }
+    if (jobs.length === 0) {
+      throw new CliUsageError(`No jobs found in ${jobFile}`);
+    }
+
+    const config = buildScraperConfig(args, '');
+    if (!args.options.output) {
+      config.outputDir = `./scheduled-results-${path.basename(jobFile, path.extname(jobFile))}`;
+    }
+    const historyFile = (args.options['history-file'] as string | undefined) || path.join(config.outputDir, SCHEDULER_HISTORY_FILE);
+
+    const scheduler = new Scheduler(jobs, config, historyFile);
+
+    try {
+      if (args.options.once) {
+        const records = await scheduler.runOnce();
+
+        console.log('\nJobs:');
+        let failed = 0;
+        for (const [name, record] of Object.entries(records)) {
+          const detail = record.status === 'success'
+            ? `${record.organicResults} organic results`
+            : record.error;
+          console.log(`  [${record.status}] ${name} (${formatTime(record.durationMs)}): ${detail}`);
+          if (record.status === 'failed') {
+            failed++;
+          }
+        }
+        console.log(`History saved to ${historyFile}`);
+
+        return failed > 0 ? EXIT_CODES.failure : EXIT_CODES.success;
+      }
+
+      await scheduler.start();
+      console.log(`Scheduler running, history in ${historyFile}. Press Ctrl+C to stop.`);
+      await waitForShutdown('stopping after running jobs finish');
+      await scheduler.stop();
+
+      return EXIT_CODES.success;
+    } catch (error) {
+      console.error('Scheduler failed:', error);
+      await scheduler.stop().catch(() => undefined);
+      return EXIT_CODES.failure;
+    }
+  }
+};
@@ -0,0 +1,106 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CliCommand, EXIT_CODES } from '../cli-command';
+import { CliUsageError, ParsedArgs } from '../arg-parser';
+import { BROWSER_OPTIONS, EXTRACTION_OPTIONS, buildScraperConfig, defaultOutputDir } from '../common-options';
+import { displayTimingSummary } from '../timing-summary';
+import { ScraperConfig } from '../../config/types';
+import { DEFAULT_SEARCH_QUERY } from '../../config/default-config';
+import { SearchResultScraper } from '../../scraper/search-result-scraper';
+
+/**
+ * Run the scraper on a live search or a saved page and print a summary
+ *
+ * @param config Scraper configuration
+ * @param htmlFile Saved search results page to extract from instead of searching
+ * @returns Process exit code
+ */
+export async function runScraper(config: ScraperConfig, htmlFile?: string): Promise<number> {
+  const startTime = performance.now();
+  console.log(`[TIMER] Start: ${new Date().toISOString()}`);
+  
+  if (htmlFile) {
+    console.log(`Extracting from saved page: "${htmlFile}"\n`);
+  }
+  if (config.searchQuery) {
+    console.log(`Search query: "${config.searchQuery}"\n`);
+  }
+  console.log(`Output directory: "${config.outputDir}"\n`);
+  
+  const scraper = new SearchResultScraper(config);
+  
+  try {
+    // Run the scraper against the live engine or the saved page
+    const results = htmlFile
+      ? await scraper.runFromHtml(fs.readFileSync(htmlFile, 'utf-8'))
+      : await scraper.run();
+    
+    console.log('Search result extraction completed successfully!');
+    console.log(`Found ${results.organicResults?.length || 0} organic results`);
+    console.log(`Found ${results.featuredSnippets?.length || 0} featured snippets`);
+    console.log(`Found ${results.peopleAlsoAsk?.length || 0} "People Also Ask" questions`);
+    console.log(`Found ${results.relatedSearches?.length || 0} related searches`);
+    console.log(`Found ${results.videos?.length || 0} video results`);
+    if (results.images) {
+      console.log(`Found ${results.images.length} image results`);
+    }
+
+    const run = scraper.getLastRun();
+    if (run) {
+      console.log(`Run ID: ${run.runId} (${run.artifacts.length} files)`);
+    }
+
+    // End timing
+    const totalTime = performance.now() - startTime;
+    console.log(`[TIMER] End: ${new Date().toISOString()}`);
+    console.log(`[TIMER] Total time: ${totalTime.toFixed(2)}ms (${(totalTime / 1000).toFixed(2)}s)`);
+    
+    // Display timing summary table
+    if (results.timingData) {
+      displayTimingSummary(results.timingData, totalTime);
+    }
+    
+    return EXIT_CODES.success;
+  } catch (error) {
+    console.error('An error occurred during scraping:', error);
+    return EXIT_CODES.failure;
+  }
+}
+
+/**
+ * Search and save the results
+ */
+export const searchCommand: CliCommand = {
+  name: 'search',
+  summary: 'Search and save the results (default command)',
+  usage: 'search [query] [output directory] [options]',
+  options: [
+    { name: 'from-html', type: 'string', valueName: 'file', description: 'Extract from a saved page instead of searching' },
+    ...EXTRACTION_OPTIONS,
+    ...BROWSER_OPTIONS
+  ],
+  examples: [
+    'search "puppeteer tutorial"',
+    'search "javascript automation" --format json,csv,html --images',
+    'search "rust async" --engine duckduckgo --max-results 30 --no-videos'
+  ],
+
+  async run(args: ParsedArgs): Promise<number> {
+    if (args.positional.length > 2) {
+      throw new CliUsageError('Too many arguments, quote queries that contain spaces');
+    }
+    
+    // Saved pages detect their query when none is given
+    const htmlFile = args.options['from-html'] as string | undefined;
+    const [query = htmlFile ? '' : DEFAULT_SEARCH_QUERY, outputDir] = args.positional;
+    
+    const config = buildScraperConfig(args, query);
+    if (outputDir && !args.options.output) {
+      config.outputDir = outputDir;
+    } else if (htmlFile && !query && !args.options.output) {
+      config.outputDir = defaultOutputDir(path.basename(htmlFile, path.extname(htmlFile)));
+    }
+    
+    return runScraper(config, htmlFile);
+  }
+};
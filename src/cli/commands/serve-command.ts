@@ -0,0 +1,69 @@
+import { CliCommand, EXIT_CODES } from '../cli-command';
+import { CliUsageError, ParsedArgs } from '../arg-parser';
+import { BROWSER_OPTIONS, EXTRACTION_OPTIONS, buildScraperConfig, getPositiveNumber } from '../common-options';
+import { waitForShutdown } from '../shutdown';
+import { API_SERVER_DEFAULTS } from '../../config/default-config';
+import { ApiServer } from '../../server/api-server';
+
+/**
+ * Serve searches and crawls over HTTP
+ */
+export const serveCommand: CliCommand = {
+  name: 'serve',
+  summary: 'Run a local HTTP API for searches and crawls',
+  usage: 'serve [options]',
+  options: [
+    { name: 'port', alias: 'p', type: 'number', valueName: 'n', description: `Port to listen on (default ${API_SERVER_DEFAULTS.port})` },
+    { name: 'host', type: 'string', valueName: 'host', description: `Address to listen on (default ${API_SERVER_DEFAULTS.host})` },
+    { name: 'concurrency', type: 'number', valueName: 'n', description: `Searches and crawls run at a time (default ${API_SERVER_DEFAULTS.concurrency})` },
+    { name: 'queue-size', type: 'number', valueName: 'n', description: `Requests that may wait before new ones get 503 (default ${API_SERVER_DEFAULTS.maxQueueSize})` },
+    { name: 'request-timeout', type: 'number', valueName: 'ms', description: `Time limit per request including queueing (default ${API_SERVER_DEFAULTS.requestTimeout})` },
+    ...EXTRACTION_OPTIONS,
+    ...BROWSER_OPTIONS
+  ],
+  examples: [
+    'serve --port 8080 --output ./api-runs',
+    'serve --concurrency 4 --request-timeout 60000 --db ./searches.db'
+  ],
+
+  async run(args: ParsedArgs): Promise<number> {
+    if (args.positional.length > 0) {
+      throw new CliUsageError('The serve command takes no arguments');
+    }
+
+    const port = args.options.port as number | undefined;
+    if (port !== undefined && (!Number.isInteger(port) || port < 0 || port > 65535)) {
+      throw new CliUsageError('Option --port must be a port number');
+    }
+    const queueSize = args.options['queue-size'] as number | undefined;
+    if (queueSize !== undefined && (!Number.isInteger(queueSize) || queueSize < 0)) {
+      throw new CliUsageError('Option --queue-size must not be negative');
+    }
+
+    const config = buildScraperConfig(args, '');
+    if (!args.options.output) {
+      config.outputDir = './api-runs';
+    }
+
+    const server = new ApiServer(config, {
+      port: port ?? API_SERVER_DEFAULTS.port,
+      host: (args.options.host as string | undefined) || API_SERVER_DEFAULTS.host,
+      concurrency: getPositiveNumber(args, 'concurrency') ?? API_SERVER_DEFAULTS.concurrency,
+      maxQueueSize: queueSize ?? API_SERVER_DEFAULTS.maxQueueSize,
+      requestTimeout: getPositiveNumber(args, 'request-timeout') ?? API_SERVER_DEFAULTS.requestTimeout
+    });
+
+    try {
+      await server.start();
+      console.log(`Runs are saved to ${config.outputDir}. Press Ctrl+C to stop.`);
+      await waitForShutdown('finishing running requests');
+      await server.stop();
+
+      return EXIT_CODES.success;
+    } catch (error) {
+      console.error('Server failed:', error);
+      await server.stop().catch(() => undefined);
+      return EXIT_CODES.failure;
+    }
+  }
+};
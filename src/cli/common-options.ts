@@ -0,0 +1,220 @@
+import { OptionSpec, ParsedArgs, CliUsageError } from './arg-parser';
+import { ContextPackOptions, ExtractOptions, FollowUpOptions, OutputFormat, ScraperConfig, SearchEngineType } from '../config/types';
+import { DEFAULT_CONFIG, DEFAULT_OUTPUT_FORMATS } from '../config/default-config';
+
+/**
+ * Options accepted by every command
+ */
+export const GLOBAL_OPTIONS: OptionSpec[] = [
+  { name: 'help', alias: 'h', type: 'boolean', description: 'Show help' },
+  { name: 'quiet', alias: 'q', type: 'boolean', description: 'Only print errors' }
+];
+
+/**
+ * Options controlling the browser
+ */
+export const BROWSER_OPTIONS: OptionSpec[] = [
+  { name: 'headful', type: 'boolean', description: 'Show the browser window' },
+  { name: 'slow-mo', type: 'number', valueName: 'ms', description: 'Slow down browser operations' },
+  { name: 'timeout', type: 'number', valueName: 'ms', description: 'Navigation timeout' }
+];
+
+/**
+ * Options controlling what is extracted and how results are saved
+ */
+export const EXTRACTION_OPTIONS: OptionSpec[] = [
+  { name: 'output', alias: 'o', type: 'string', valueName: 'dir', description: 'Output directory' },
+  {
+    name: 'format',
+    alias: 'f',
+    type: 'string',
+    valueName: 'list',
+    description: `Comma separated output formats (${Object.values(OutputFormat).join(', ')})`
+  },
+  { name: 'csv-per-section', type: 'boolean', description: 'Write one CSV file per result section' },
+  { name: 'db', type: 'string', valueName: 'file', description: 'Also record runs in a SQLite database' },
+  { name: 'history', type: 'boolean', description: 'Save each run in its own timestamped directory (--no-history to overwrite)' },
+  {
+    name: 'engine',
+    alias: 'e',
+    type: 'string',
+    valueName: 'name',
+    description: `Search engine (${Object.values(SearchEngineType).join(', ')})`
+  },
+  { name: 'engine-url', type: 'string', valueName: 'url', description: 'Base URL of a self-hosted SearXNG instance' },
+  { name: 'max-pages', type: 'number', valueName: 'n', description: 'Number of result pages to read' },
+  { name: 'max-results', type: 'number', valueName: 'n', description: 'Maximum number of organic results' },
+  { name: 'organic', type: 'boolean', description: 'Extract organic results (--no-organic to skip)' },
+  { name: 'snippets', type: 'boolean', description: 'Extract featured snippets (--no-snippets to skip)' },
+  { name: 'paa', type: 'boolean', description: 'Extract "People Also Ask" questions (--no-paa to skip)' },
+  { name: 'related', type: 'boolean', description: 'Extract related searches (--no-related to skip)' },
+  { name: 'videos', type: 'boolean', description: 'Extract video results (--no-videos to skip)' },
+  { name: 'images', type: 'boolean', description: 'Extract image results' },
+  { name: 'follow-up', type: 'number', valueName: 'n', description: 'Visit the top n organic results' },
+  { name: 'follow-depth', type: 'number', valueName: 'n', description: 'Link depth to follow from visited results (default 1)' },
+  { name: 'follow-links', type: 'number', valueName: 'n', description: 'Maximum links followed per page' },
+  { name: 'follow-per-domain', type: 'number', valueName: 'n', description: 'Maximum pages visited per domain' },
+  { name: 'follow-external', type: 'boolean', description: 'Also follow links to other domains' },
+  { name: 'context-tokens', type: 'number', valueName: 'n', description: 'Token budget of the context formats (default 4000)' },
+  { name: 'context-chars', type: 'number', valueName: 'n', description: 'Character budget of the context formats' }
+];
+
+/**
+ * Parse a comma separated list of output formats
+ *
+ * @param value Option value, e.g. "json,csv"
+ */
+export function parseFormats(value: string | undefined): OutputFormat[] {
+  if (value === undefined) {
+    return DEFAULT_OUTPUT_FORMATS;
+  }
+
+  const known = Object.values(OutputFormat) as string[];
+  const formats = value.split(',').map(format => format.trim().toLowerCase()).filter(Boolean);
+
+  for (const format of formats) {
+    if (!known.includes(format)) {
+      throw new CliUsageError(`Unknown output format "${format}", expected one of: ${known.join(', ')}`);
+    }
+  }
+
+  if (formats.length === 0) {
+    throw new CliUsageError('Option --format requires at least one format');
+  }
+
+  return formats as OutputFormat[];
+}
+
+/**
+ * Parse a search engine name
+ *
+ * @param value Option value
+ */
+export function parseEngine(value: string | undefined): SearchEngineType {
+  if (value === undefined) {
+    return DEFAULT_CONFIG.engine as SearchEngineType;
+  }
+
+  const known = Object.values(SearchEngineType) as string[];
+  if (!known.includes(value.toLowerCase())) {
+    throw new CliUsageError(`Unknown search engine "${value}", expected one of: ${known.join(', ')}`);
+  }
+
+  return value.toLowerCase() as SearchEngineType;
+}
+
+/**
+ * Read a positive number option
+ *
+ * @param args Parsed arguments
+ * @param name Option name
+ */
+export function getPositiveNumber(args: ParsedArgs, name: string): number | undefined {
+  const value = args.options[name] as number | undefined;
+  if (value !== undefined && (value <= 0 || !Number.isFinite(value))) {
+    throw new CliUsageError(`Option --${name} must be a positive number`);
+  }
+  return value;
+}
+
+/**
+ * Build the scraper configuration from parsed arguments
+ *
+ * @param args Parsed arguments
+ * @param searchQuery Query to search for
+ */
+export function buildScraperConfig(args: ParsedArgs, searchQuery: string): ScraperConfig {
+  const options = args.options;
+  const defaults = DEFAULT_CONFIG.extractOptions as ExtractOptions;
+
+  const extractOptions: ExtractOptions = {
+    organicResults: (options.organic as boolean | undefined) ?? defaults.organicResults,
+    featuredSnippets: (options.snippets as boolean | undefined) ?? defaults.featuredSnippets,
+    peopleAlsoAsk: (options.paa as boolean | undefined) ?? defaults.peopleAlsoAsk,
+    relatedSearches: (options.related as boolean | undefined) ?? defaults.relatedSearches,
+    videos: (options.videos as boolean | undefined) ?? defaults.videos,
+    images: (options.images as boolean | undefined) ?? defaults.images
+  };
+
+  const slowMo = options['slow-mo'] as number | undefined;
+  if (slowMo !== undefined && slowMo < 0) {
+    throw new CliUsageError('Option --slow-mo must not be negative');
+  }
+
+  return {
+    ...DEFAULT_CONFIG,
+    searchQuery,
+    headless: options.headful ? false : DEFAULT_CONFIG.headless,
+    slowMo: slowMo ?? DEFAULT_CONFIG.slowMo,
+    outputDir: (options.output as string | undefined) || defaultOutputDir(searchQuery),
+    engine: parseEngine(options.engine as string | undefined),
+    engineBaseUrl: options['engine-url'] as string | undefined,
+    maxPages: getPositiveNumber(args, 'max-pages'),
+    maxResults: getPositiveNumber(args, 'max-results'),
+    outputFormats: parseFormats(options.format as string | undefined),
+    csvPerSection: options['csv-per-section'] === true,
+    database: options.db as string | undefined,
+    runHistory: options.history as boolean | undefined,
+    timeout: getPositiveNumber(args, 'timeout'),
+    followUp: buildFollowUpOptions(args),
+    contextPack: buildContextPackOptions(args),
+    extractOptions
+  } as ScraperConfig;
+}
+
+/**
+ * Build the follow-up options from parsed arguments
+ *
+ * @param args Parsed arguments
+ * @returns The options, or undefined when --follow-up was not given
+ */
+export function buildFollowUpOptions(args: ParsedArgs): Partial<FollowUpOptions> | undefined {
+  const maxResults = getPositiveNumber(args, 'follow-up');
+  if (maxResults === undefined) {
+    return undefined;
+  }
+
+  const followUp: Partial<FollowUpOptions> = { maxResults };
+  const depth = getPositiveNumber(args, 'follow-depth');
+  const maxLinksPerPage = getPositiveNumber(args, 'follow-links');
+  const maxPagesPerDomain = getPositiveNumber(args, 'follow-per-domain');
+  const timeout = getPositiveNumber(args, 'timeout');
+
+  if (depth !== undefined) followUp.depth = depth;
+  if (maxLinksPerPage !== undefined) followUp.maxLinksPerPage = maxLinksPerPage;
+  if (maxPagesPerDomain !== undefined) followUp.maxPagesPerDomain = maxPagesPerDomain;
+  if (args.options['follow-external'] !== undefined) followUp.sameDomainOnly = !args.options['follow-external'];
+  if (timeout !== undefined) followUp.timeout = timeout;
+
+  return followUp;
+}
+
+/**
+ * Build the context pack budget from parsed arguments.
+ * A character budget alone replaces the default token budget.
+ *
+ * @param args Parsed arguments
+ * @returns The options, or undefined when no budget was given
+ */
+export function buildContextPackOptions(args: ParsedArgs): Partial<ContextPackOptions> | undefined {
+  const maxTokens = getPositiveNumber(args, 'context-tokens');
+  const maxChars = getPositiveNumber(args, 'context-chars');
+
+  if (maxTokens === undefined && maxChars === undefined) {
+    return undefined;
+  }
+
+  return {
+    maxTokens: maxTokens ?? null,
+    maxChars: maxChars ?? null
+  };
+}
+
+/**
+ * Default output directory for a query
+ *
+ * @param name Query or other name to base the directory on
+ */
+export function defaultOutputDir(name: string): string {
+  return `./search-results-${name.replace(/\s+/g, '-').toLowerCase()}`;
+}
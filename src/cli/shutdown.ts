@@ -0,0 +1,17 @@
+/**
+ * Wait until the process is asked to stop with Ctrl+C or SIGTERM
+ *
+ * @param action What is done before exiting, for the log message
+ */
+export function waitForShutdown(action: string): Promise<void> {
+  return new Promise(resolve => {
+    const onSignal = (signal: NodeJS.Signals) => {
+      console.log(`\nReceived ${signal}, ${action}`);
+      process.off('SIGINT', onSignal);
+      process.off('SIGTERM', onSignal);
+      resolve();
+    };
+    process.on('SIGINT', onSignal);
+    process.on('SIGTERM', onSignal);
+  });
+}
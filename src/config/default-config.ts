@@ -1,4 +1,4 @@
-import { ScraperConfig, OutputFormat } from './types';
+import { ScraperConfig, OutputFormat, SearchEngineType, FollowUpOptions, ContextPackOptions, ApiServerOptions, BrowserPoolOptions, CrawlRetryOptions } from './types';
 
 /**
  * Default configuration for the scraper
@@ -6,6 +6,7 @@ import { ScraperConfig, OutputFormat } from './types';
 export const DEFAULT_CONFIG: Partial<ScraperConfig> = {
   headless: true,
   slowMo: 50,
+  engine: SearchEngineType.BING,
   extractOptions: {
     organicResults: true,
     featuredSnippets: true,
@@ -43,33 +44,56 @@ export const BROWSER_CONFIG = {
 export const DEFAULT_USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36';
 
 /**
- * Search engine URL
+ * Default base URL for a self-hosted SearXNG instance
  */
-export const SEARCH_ENGINE_URL = 'https://www.bing.com/';
+export const DEFAULT_SEARXNG_URL = 'http://localhost:8888/';
 
 /**
- * Selectors for finding search input
+ * Query parameters removed from result URLs ("*" matches any suffix)
  */
-export const SEARCH_INPUT_SELECTORS = [
-  'input[name="q"]',
-  '#sb_form_q',
-  'input[aria-label="Enter your search term"]',
-  'textarea#sb_form_q',
-  'input[type="search"]'
+export const TRACKING_PARAMETERS = [
+  'utm_*',
+  'fbclid',
+  'gclid',
+  'dclid',
+  'msclkid',
+  'yclid',
+  'igshid',
+  'mc_cid',
+  'mc_eid',
+  '_ga',
+  '_gl',
+  'ref_src'
 ];
 
 /**
- * Selectors for extracting different types of content
+ * Pagination limits for organic results
  */
-export const SELECTORS = {
-  searchResults: '#b_results',
-  organicResults: 'li.b_algo',
-  featuredSnippets: '.b_ans',
-  peopleAlsoAsk: '.df_qntext',
-  relatedSearches: '.b_rs li a',
-  videos: '.mc_vtvc',
-  images: '.imgpt',
-  mainContent: '#b_content'
+export const PAGINATION = {
+  // Page limit used when only maxResults is configured
+  maxPagesForMaxResults: 10
+};
+
+/**
+ * Default options for following up on search results
+ */
+export const FOLLOW_UP_DEFAULTS: FollowUpOptions = {
+  maxResults: 3,
+  depth: 1,
+  maxLinksPerPage: 5,
+  maxPagesPerDomain: 3,
+  sameDomainOnly: true,
+  timeout: 30000
+};
+
+/**
+ * Default budget for the context output formats
+ */
+export const CONTEXT_PACK_DEFAULTS: ContextPackOptions = {
+  maxChars: null,
+  maxTokens: 4000,
+  charsPerToken: 4,
+  maxSourceChars: 2000
 };
 
 /**
@@ -80,3 +104,37 @@ export const TIMEOUTS = {
   searchResults: 15000,
   stabilization: 2000
 };
+
+/**
+ * Default settings of the HTTP API server
+ */
+export const API_SERVER_DEFAULTS: ApiServerOptions = {
+  port: 3000,
+  host: '127.0.0.1',
+  concurrency: 2,
+  maxQueueSize: 20,
+  requestTimeout: 120000,
+  maxBodySize: 1024 * 1024
+};
+
+/**
+ * Default settings of a browser pool
+ */
+export const BROWSER_POOL_DEFAULTS: BrowserPoolOptions = {
+  headless: true,
+  slowMo: 0,
+  maxPages: 4,
+  nestedPages: 1,
+  maxUsesPerPage: 20,
+  isolateContexts: true
+};
+
+/**
+ * Default retry settings of crawlMultiple
+ */
+export const CRAWL_RETRY_DEFAULTS: CrawlRetryOptions = {
+  retries: 2,
+  baseDelay: 1000,
+  maxDelay: 30000,
+  jitter: 0.5
+};
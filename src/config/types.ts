@@ -7,6 +7,73 @@ export interface ScraperConfig {
   slowMo: number;
   outputDir: string;
   extractOptions: ExtractOptions;
+  // Search engine backend to use (defaults to Bing)
+  engine?: SearchEngineType;
+  // Base URL for self-hosted engines such as SearXNG
+  engineBaseUrl?: string;
+  // Maximum number of result pages to read for organic results (defaults to 1)
+  maxPages?: number;
+  // Stop paginating once this many organic results have been collected
+  maxResults?: number;
+  // Formats to save results in (defaults to DEFAULT_OUTPUT_FORMATS)
+  outputFormats?: OutputFormat[];
+  // Navigation timeout in milliseconds
+  timeout?: number;
+  // Visit the top organic results after each search
+  followUp?: Partial<FollowUpOptions>;
+  // Budget for the context output formats
+  contextPack?: Partial<ContextPackOptions>;
+  // Write one CSV file per result section instead of a single file
+  csvPerSection?: boolean;
+  // SQLite database file every saved run is also recorded in
+  database?: string;
+  // Save each run in its own timestamped subdirectory of outputDir (defaults to true)
+  runHistory?: boolean;
+}
+
+/**
+ * Supported search engine backends
+ */
+export enum SearchEngineType {
+  BING = 'bing',
+  DUCKDUCKGO = 'duckduckgo',
+  BRAVE = 'brave',
+  SEARXNG = 'searxng'
+}
+
+/**
+ * CSS selectors used to extract each SERP feature.
+ * A feature selector set to null is not supported by the engine.
+ */
+export interface EngineSelectors {
+  searchResults: string;
+  mainContent: string;
+  nextPage: string | null;
+
+  organicResults: string;
+  organicTitle: string;
+  organicLink: string;
+  organicSnippet: string;
+  organicDeepLinks: string | null;
+
+  featuredSnippets: string | null;
+  featuredSnippetSource: string | null;
+
+  peopleAlsoAsk: string | null;
+  peopleAlsoAskAnswer: string | null;
+
+  relatedSearches: string | null;
+
+  videos: string | null;
+  videoTitle: string | null;
+  videoSource: string | null;
+  videoDuration: string | null;
+  videoPlayButton: string | null;
+
+  images: string | null;
+  imageTitle: string | null;
+  imageDimensions: string | null;
+  imageFullSize: string | null;
 }
 
 /**
@@ -26,13 +93,70 @@ export interface ExtractOptions {
  */
 export interface OrganicResult {
   position: number;
+  // Result page the result was found on (1-based)
+  page?: number;
   title: string | null;
   url: string | null;
+  // URL as found on the page, before redirect decoding and tracking removal
+  rawUrl?: string | null;
   snippet: string | null;
   deepLinks?: DeepLink[];
   // Added for follow-up search capability
   followUpSearched?: boolean;
-  followUpResults?: any;
+  followUpResults?: FollowUpPage | null;
+}
+
+/**
+ * A page visited while following up on a search result
+ */
+export interface FollowUpPage {
+  // URL that was requested
+  url: string;
+  // URL after redirects
+  finalUrl: string;
+  canonicalUrl: string | null;
+  title: string | null;
+  // Main content of the page as plain text, without navigation and other boilerplate
+  text: string;
+  links: OutboundLink[];
+  statusCode: number | null;
+  byline: string | null;
+  publishedAt: string | null;
+  // Structure of the main content that text was rendered from
+  blocks: ContentBlock[];
+  // 1 for the result page itself, 2 for pages linked from it, ...
+  depth: number;
+  fetchedAt: string;
+  durationMs: number;
+  // Pages followed from this page's links
+  children?: FollowUpPage[];
+  error?: string;
+}
+
+/**
+ * A link found on a followed page
+ */
+export interface OutboundLink {
+  text: string | null;
+  url: string;
+}
+
+/**
+ * Options for following up on search results
+ */
+export interface FollowUpOptions {
+  // Number of top organic results to visit
+  maxResults: number;
+  // 1 visits only the result pages, 2 also follows their links, and so on
+  depth: number;
+  // Maximum number of links followed from each page
+  maxLinksPerPage: number;
+  // Maximum number of pages visited per domain
+  maxPagesPerDomain: number;
+  // Only follow links that stay on the domain of the page they were found on
+  sameDomainOnly: boolean;
+  // Navigation timeout in milliseconds
+  timeout: number;
 }
 
 /**
@@ -41,6 +165,7 @@ export interface OrganicResult {
 export interface DeepLink {
   text: string | null;
   url: string | null;
+  rawUrl?: string | null;
 }
 
 /**
@@ -50,6 +175,7 @@ export interface FeaturedSnippet {
   content: string | null;
   source: string | null;
   url?: string | null;
+  rawUrl?: string | null;
 }
 
 /**
@@ -60,6 +186,7 @@ export interface VideoResult {
   source: string | null;
   duration: string | null;
   url?: string | null;
+  rawUrl?: string | null;
 }
 
 /**
@@ -95,7 +222,15 @@ export enum OutputFormat {
   JSON = 'json',
   TEXT = 'text',
   CSV = 'csv',
-  HTML = 'html'
+  HTML = 'html',
+  // Readable report for wikis and pull requests
+  MARKDOWN = 'markdown',
+  // One JSON record per result item
+  JSONL = 'jsonl',
+  // Token-budgeted Markdown bundle with numbered sources for LLM prompts
+  CONTEXT = 'context',
+  // The same bundle as JSON
+  CONTEXT_JSON = 'context-json'
 }
 
 /**
@@ -140,3 +275,498 @@ export interface TimingData {
   // Format-specific save times
   saveFormats?: Record<string, number>;
 }
+
+/**
+ * Number of items found per result type
+ */
+export interface ResultCounts {
+  organicResults: number;
+  featuredSnippets: number;
+  peopleAlsoAsk: number;
+  relatedSearches: number;
+  videos: number;
+  images: number;
+}
+
+/**
+ * A query read from a batch query file
+ */
+export interface BatchQuery {
+  query: string;
+  // Overrides the batch's search engine for this query
+  engine?: SearchEngineType;
+}
+
+/**
+ * Outcome of one query of a batch run
+ */
+export interface BatchQueryResult {
+  index: number;
+  query: string;
+  engine: SearchEngineType;
+  status: 'success' | 'failed';
+  // Directory the results were saved to (the run directory when run history is on)
+  outputDir: string;
+  runId?: string;
+  counts?: ResultCounts;
+  durationMs: number;
+  timingData?: TimingData;
+  error?: string;
+}
+
+/**
+ * Summary manifest written at the end of a batch run
+ */
+export interface BatchManifest {
+  queryFile?: string;
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  concurrency: number;
+  total: number;
+  succeeded: number;
+  failed: number;
+  queries: BatchQueryResult[];
+}
+
+/**
+ * Block of main content found on a page
+ */
+export interface ContentBlock {
+  type: 'heading' | 'paragraph' | 'list' | 'code' | 'quote' | 'table';
+  // Text of headings, paragraphs, quotes and code (code keeps its whitespace)
+  text?: string;
+  // Heading level 1-6
+  level?: number;
+  // List items
+  items?: string[];
+  ordered?: boolean;
+  // Code language taken from "language-*" or "lang-*" classes
+  language?: string | null;
+  // Table cells by row
+  rows?: string[][];
+}
+
+/**
+ * Main content of a page with boilerplate removed
+ */
+export interface ExtractedContent {
+  title: string | null;
+  byline: string | null;
+  publishedAt: string | null;
+  // Meta description of the page
+  excerpt: string | null;
+  blocks: ContentBlock[];
+  // Blocks rendered as plain text
+  text: string;
+}
+
+/**
+ * Fetch details written to the front matter of Markdown pages
+ */
+export interface MarkdownPageInfo {
+  // URL relative links were resolved against
+  url: string;
+  title: string | null;
+  fetchedAt: string;
+  statusCode: number | null;
+}
+
+/**
+ * Options for the LLM context pack output formats
+ */
+export interface ContextPackOptions {
+  // Maximum size of the Markdown pack in characters (null for no limit)
+  maxChars: number | null;
+  // Maximum size of the Markdown pack in estimated tokens (null for no limit)
+  maxTokens: number | null;
+  // Characters per token used to estimate token counts
+  charsPerToken: number;
+  // Maximum characters of follow-up page text per source
+  maxSourceChars: number;
+}
+
+/**
+ * A numbered source in a context pack
+ */
+export interface ContextSource {
+  id: number;
+  title: string | null;
+  url: string;
+  // Null when the snippet repeats an earlier snippet or answer
+  snippet: string | null;
+  // Excerpt of the followed-up page
+  content: string | null;
+  contentTruncated: boolean;
+}
+
+/**
+ * Search results packed for use in an LLM prompt
+ */
+export interface ContextPack {
+  query: string;
+  timestamp: string;
+  // Featured snippets, citing the source they came from when it is in the pack
+  answers: { text: string; sourceId: number | null }[];
+  sources: ContextSource[];
+  questions: string[];
+  relatedSearches: string[];
+  budget: {
+    maxChars: number | null;
+    usedChars: number;
+    estimatedTokens: number;
+  };
+  // Whether anything was left out or shortened
+  truncated: boolean;
+}
+
+/**
+ * Extra data embedded in the HTML report
+ */
+export interface HtmlReportAssets {
+  // Base64 encoded PNG screenshot of the results page
+  screenshot?: string | null;
+  timingData?: TimingData;
+}
+
+/**
+ * Details of a stored run that are not part of the search results
+ */
+export interface RunInfo {
+  engine?: SearchEngineType;
+  outputDir?: string;
+  timingData?: TimingData;
+}
+
+/**
+ * A run that has been started but not finished yet
+ */
+export interface StartedRun {
+  runId: string;
+  // Directory the run's files are saved to
+  dir: string;
+  startedAt: Date;
+}
+
+/**
+ * A file produced by a run
+ */
+export interface RunArtifact {
+  // Path relative to the run directory
+  name: string;
+  size: number;
+  sha256: string;
+}
+
+/**
+ * What a run did
+ */
+export type RunKind = 'search' | 'crawl';
+
+/**
+ * Manifest written into each run directory
+ */
+export interface RunManifest {
+  runId: string;
+  // Missing in manifests of search runs saved before crawl runs were recorded
+  kind?: RunKind;
+  // Search runs only
+  query?: string;
+  engine?: SearchEngineType;
+  // Crawl runs only
+  urls?: string[];
+  startedAt: string;
+  finishedAt: string;
+  toolVersion: string;
+  // Effective configuration of a search run
+  config?: ScraperConfig;
+  artifacts: RunArtifact[];
+  timingData?: TimingData;
+}
+
+/**
+ * Output format options of a SERP diff
+ */
+export enum DiffFormat {
+  TEXT = 'text',
+  JSON = 'json',
+  HTML = 'html'
+}
+
+/**
+ * An organic result that only appears in one of the compared runs
+ */
+export interface DiffedResult {
+  url: string;
+  title: string | null;
+  // Position in the run the result appears in
+  position: number;
+}
+
+/**
+ * An organic result that moved between the compared runs
+ */
+export interface PositionChange {
+  url: string;
+  title: string | null;
+  before: number;
+  after: number;
+}
+
+/**
+ * An organic result whose snippet changed between the compared runs
+ */
+export interface SnippetChange {
+  url: string;
+  title: string | null;
+  before: string | null;
+  after: string | null;
+}
+
+/**
+ * Differences between two captures of the same query
+ */
+export interface SerpDiff {
+  query: string;
+  before: { timestamp: string; label: string | null };
+  after: { timestamp: string; label: string | null };
+  organic: {
+    added: DiffedResult[];
+    removed: DiffedResult[];
+    moved: PositionChange[];
+    snippetChanged: SnippetChange[];
+  };
+  featuredSnippets: { added: FeaturedSnippet[]; removed: FeaturedSnippet[] };
+  peopleAlsoAsk: { added: string[]; removed: string[] };
+  hasChanges: boolean;
+}
+
+/**
+ * Where a tracked domain ranks for a query in one capture
+ */
+export interface DomainRank {
+  timestamp: string;
+  query: string;
+  engine: SearchEngineType | null;
+  domain: string;
+  // Best organic position of the domain, null when it does not rank
+  bestPosition: number | null;
+  bestUrl: string | null;
+  // Every organic position of the domain, best first
+  positions: number[];
+  // Whether a ranking result shows deep links
+  hasDeepLinks: boolean;
+  // Whether a featured snippet is taken from the domain
+  ownsFeaturedSnippet: boolean;
+}
+
+/**
+ * A recurring search read from a scheduler job file
+ */
+export interface ScheduledJob {
+  // Unique name of the job, used in the history and the default output directory
+  name: string;
+  query: string;
+  // Five field cron expression in local time, e.g. "0 * * * *", or @hourly, @daily, @weekly, @monthly, @yearly
+  schedule: string;
+  engine?: SearchEngineType;
+  extractOptions?: Partial<ExtractOptions>;
+  maxPages?: number;
+  maxResults?: number;
+  // Output targets, defaulting to the scheduler's configuration
+  outputDir?: string;
+  outputFormats?: OutputFormat[];
+  database?: string;
+}
+
+/**
+ * Outcome of one scheduled run of a job
+ */
+export interface JobRunRecord {
+  startedAt: string;
+  durationMs: number;
+  // Skipped when the previous run of the job was still going
+  status: 'success' | 'failed' | 'skipped';
+  runId?: string;
+  organicResults?: number;
+  error?: string;
+}
+
+/**
+ * Success and failure history of a scheduled job
+ */
+export interface JobHistory {
+  lastRunAt: string | null;
+  lastStatus: JobRunRecord['status'] | null;
+  // Message of the most recent failure
+  lastError: string | null;
+  nextRunAt: string | null;
+  successCount: number;
+  failureCount: number;
+  skippedCount: number;
+  // Most recent runs, newest last
+  runs: JobRunRecord[];
+}
+
+/**
+ * History file written by the scheduler
+ */
+export interface SchedulerHistory {
+  updatedAt: string;
+  jobs: Record<string, JobHistory>;
+}
+
+/**
+ * Settings of the HTTP API server
+ */
+export interface ApiServerOptions {
+  port: number;
+  host: string;
+  // Number of searches and crawls run at the same time
+  concurrency: number;
+  // Number of requests that may wait for a free slot before new ones are rejected
+  maxQueueSize: number;
+  // Time a request may take, including the wait in the queue, in milliseconds
+  requestTimeout: number;
+  // Largest accepted request body in bytes
+  maxBodySize: number;
+}
+
+/**
+ * A validated POST /crawl request
+ */
+export interface CrawlRequest {
+  urls: string[];
+  waitForSelector?: string;
+  // Navigation timeout in milliseconds
+  timeout?: number;
+  takeScreenshot?: boolean;
+  markdown?: boolean;
+  extractContent?: boolean;
+}
+
+/**
+ * Value types of a JSON Schema
+ */
+export type JsonSchemaType = 'object' | 'array' | 'string' | 'integer' | 'number' | 'boolean' | 'null';
+
+/**
+ * The subset of JSON Schema used to describe MCP tool inputs and outputs
+ */
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  enum?: string[];
+  minimum?: number;
+  minLength?: number;
+  default?: unknown;
+}
+
+/**
+ * A tool offered by the MCP server
+ */
+export interface McpToolDefinition {
+  name: string;
+  title: string;
+  description: string;
+  inputSchema: JsonSchema;
+  outputSchema?: JsonSchema;
+}
+
+/**
+ * Settings of a browser pool
+ */
+export interface BrowserPoolOptions {
+  headless: boolean;
+  slowMo: number;
+  // Maximum number of pages handed out at the same time
+  maxPages: number;
+  // Extra pages handed out to users that already hold one, on top of maxPages
+  nestedPages: number;
+  // A page is closed and replaced after this many uses
+  maxUsesPerPage: number;
+  // Open every page in its own incognito context, so pages share no cookies or storage
+  isolateContexts: boolean;
+}
+
+/**
+ * Outcome of crawling one URL
+ */
+export type CrawlOutcome = 'success' | 'http-error' | 'timeout' | 'navigation-error';
+
+/**
+ * Retry settings of crawlMultiple
+ */
+export interface CrawlRetryOptions {
+  // Retries after the first attempt, 0 to try every URL once
+  retries: number;
+  // Delay before the first retry in milliseconds, doubled for every further retry
+  baseDelay: number;
+  // Upper limit of the delay in milliseconds
+  maxDelay: number;
+  // Fraction of the delay that is randomized, 0.5 varies it by up to 50% either way
+  jitter: number;
+}
+
+/**
+ * Result of one URL of crawlMultiple
+ */
+export interface CrawlUrlResult {
+  url: string;
+  outcome: CrawlOutcome;
+  // HTTP status of the last attempt, null if there was no response
+  statusCode: number | null;
+  attempts: number;
+  filePath?: string;
+  markdownFilePath?: string;
+  // SHA-256 of the saved HTML
+  contentHash?: string;
+  // Completed in an earlier run of a resumed crawl and not crawled again
+  skipped?: boolean;
+  error?: string;
+  durationMs: number;
+}
+
+/**
+ * Result of crawlMultiple
+ */
+export interface CrawlReport {
+  // HTML files of the URLs that were crawled successfully
+  filePaths: string[];
+  // Results in the order of the URLs
+  results: CrawlUrlResult[];
+  failures: CrawlUrlResult[];
+  timingData: TimingData;
+}
+
+/**
+ * Progress of one URL in a crawl state file
+ */
+export interface CrawlStateEntry {
+  // "pending" until the URL was crawled, including when the crawl was stopped first
+  status: CrawlOutcome | 'pending';
+  statusCode: number | null;
+  // Attempts over all runs of the crawl
+  attempts: number;
+  // HTML file relative to the output folder, set once the URL succeeded
+  filePath?: string;
+  // SHA-256 of the saved HTML, to notice files that changed since
+  contentHash?: string;
+  error?: string;
+  updatedAt: string;
+}
+
+/**
+ * Crawl state file kept in the output folder of crawlMultiple
+ */
+export interface CrawlStateFile {
+  version: number;
+  createdAt: string;
+  updatedAt: string;
+  // Progress by URL, in the order the URLs were added
+  urls: Record<string, CrawlStateEntry>;
+}
@@ -0,0 +1,314 @@
+import * as puppeteer from 'puppeteer';
+import { ExtractedContent } from '../config/types';
+
+/**
+ * Extract the main content of the page loaded in a Puppeteer page
+ *
+ * @param page Puppeteer page to extract the content from
+ */
+export async function extractContent(page: puppeteer.Page): Promise<ExtractedContent> {
+  return page.evaluate(extractContentFromDocument);
+}
+
+/**
+ * Extract the main content of a document, leaving out navigation, cookie banners,
+ * sidebars, footers and similar boilerplate.
+ *
+ * The function is passed to page.evaluate() as is, so it must not use anything
+ * outside its own body. The document is not modified.
+ *
+ * @param doc Document to extract the content from (defaults to the page's document)
+ */
+export function extractContentFromDocument(doc: Document = document): ExtractedContent {
+  type Block = ExtractedContent['blocks'][number];
+
+  const UNLIKELY = /cookie|consent|gdpr|banner|breadcrumb|byline|comment|share|social|sidebar|related|recommend|footer|header|masthead|menu|nav|subscribe|newsletter|signup|popup|modal|promo|advert|sponsor|\bads?\b|skip/i;
+  const LIKELY = /article|content|main|post|entry|story|body|prose/i;
+  const BOILERPLATE = [
+    'script', 'style', 'noscript', 'template', 'svg', 'canvas', 'iframe', 'object', 'embed',
+    'button', 'input', 'select', 'textarea', 'nav', 'aside', 'footer', 'dialog',
+    '[role="navigation"]', '[role="banner"]', '[role="contentinfo"]', '[role="complementary"]',
+    '[role="dialog"]', '[role="alertdialog"]', '[aria-hidden="true"]', '[hidden]',
+    '[style*="display:none"]', '[style*="display: none"]'
+  ].join(', ');
+  const KEEP_TAGS = ['BODY', 'ARTICLE', 'MAIN', 'A', 'TABLE', 'TBODY', 'THEAD', 'TR', 'TD', 'TH', 'PRE', 'CODE'];
+  const BLOCK_TAGS = /^(ADDRESS|ARTICLE|ASIDE|BLOCKQUOTE|DD|DETAILS|DIV|DL|DT|FIELDSET|FIGCAPTION|FIGURE|FOOTER|FORM|H[1-6]|HEADER|HR|LI|MAIN|OL|P|PRE|SECTION|SUMMARY|TABLE|UL)$/;
+
+  const collapse = (text: string | null | undefined) => (text || '').replace(/\s+/g, ' ').trim();
+
+  const textLength = (element: Element) => collapse(element.textContent).length;
+
+  const linkDensity = (element: Element) => {
+    const length = textLength(element);
+    if (length === 0) {
+      return 0;
+    }
+    let linkLength = 0;
+    element.querySelectorAll('a').forEach(link => {
+      linkLength += textLength(link);
+    });
+    if (element.tagName === 'A') {
+      linkLength = length;
+    }
+    return linkLength / length;
+  };
+
+  // Metadata is read from the original document before anything is removed
+  const metaContent = (selectors: string[]) => {
+    for (const selector of selectors) {
+      const element = doc.querySelector(selector);
+      const value = element
+        ? element.getAttribute('content') || element.getAttribute('datetime') || element.textContent
+        : null;
+      if (collapse(value)) {
+        return collapse(value);
+      }
+    }
+    return null;
+  };
+
+  const isRecord = (value: unknown): value is Record<string, unknown> =>
+    value !== null && typeof value === 'object' && !Array.isArray(value);
+
+  let linkedDataAuthor: string | null = null;
+  let linkedDataDate: string | null = null;
+  doc.querySelectorAll('script[type="application/ld+json"]').forEach(script => {
+    try {
+      const data: unknown = JSON.parse(script.textContent || '');
+      const items: unknown[] = ([] as unknown[]).concat(data, isRecord(data) && data['@graph'] ? data['@graph'] : []);
+      for (const item of items) {
+        if (!isRecord(item)) {
+          continue;
+        }
+        if (!linkedDataDate && typeof item.datePublished === 'string') {
+          linkedDataDate = item.datePublished;
+        }
+        const authors: unknown[] = ([] as unknown[]).concat(item.author || []);
+        const names = authors
+          .map(author => (typeof author === 'string' ? author : isRecord(author) ? author.name : null))
+          .filter((name): name is string => typeof name === 'string' && name.trim() !== '');
+        if (!linkedDataAuthor && names.length > 0) {
+          linkedDataAuthor = names.join(', ');
+        }
+      }
+    } catch {
+      // Ignore malformed structured data
+    }
+  });
+
+  let byline = metaContent(['meta[name="author"]', 'meta[property="article:author"]']);
+  if (byline && /^https?:/i.test(byline)) {
+    byline = null;
+  }
+  byline = byline || linkedDataAuthor
+    || metaContent(['[rel="author"]', '[itemprop="author"]', '.byline', '.author']);
+  if (byline) {
+    byline = byline.replace(/^by\s+/i, '');
+    if (byline.length > 100) {
+      byline = null;
+    }
+  }
+
+  const publishedAt = metaContent([
+    'meta[property="article:published_time"]',
+    'meta[itemprop="datePublished"]'
+  ]) || linkedDataDate || metaContent([
+    'meta[name="date"]',
+    'meta[name="pubdate"]',
+    'article time[datetime]',
+    'main time[datetime]',
+    'time[datetime]'
+  ]);
+
+  const title = metaContent(['meta[property="og:title"]']) || collapse(doc.title) || metaContent(['h1']);
+  const excerpt = metaContent(['meta[name="description"]', 'meta[property="og:description"]']);
+
+  if (!doc.body) {
+    return { title, byline, publishedAt, excerpt, blocks: [], text: '' };
+  }
+
+  // Remove boilerplate from a copy of the body
+  const body = doc.body.cloneNode(true) as HTMLElement;
+  body.querySelectorAll(BOILERPLATE).forEach(element => element.remove());
+  body.querySelectorAll('header').forEach(header => {
+    if (!header.closest('article, main, [role="main"]')) {
+      header.remove();
+    }
+  });
+  body.querySelectorAll('*').forEach(element => {
+    if (!body.contains(element) || KEEP_TAGS.includes(element.tagName)) {
+      return;
+    }
+    const names = `${element.getAttribute('class') || ''} ${element.id || ''}`;
+    if (UNLIKELY.test(names) && !LIKELY.test(names)) {
+      element.remove();
+    }
+  });
+
+  // Prefer semantic containers, falling back to scoring paragraph parents
+  const pickLongest = (elements: Element[]) => elements
+    .filter(element => textLength(element) >= 250)
+    .sort((a, b) => textLength(b) * (1 - linkDensity(b)) - textLength(a) * (1 - linkDensity(a)))[0];
+
+  let root: Element | undefined = undefined;
+  for (const selector of ['[itemprop="articleBody"]', 'article', 'main, [role="main"]']) {
+    root = pickLongest(Array.from(body.querySelectorAll(selector)));
+    if (root) {
+      break;
+    }
+  }
+
+  if (!root) {
+    const scores = new Map<Element, number>();
+    body.querySelectorAll('p, pre, blockquote').forEach(paragraph => {
+      const length = textLength(paragraph);
+      if (length < 25) {
+        return;
+      }
+      const score = 1 + collapse(paragraph.textContent).split(',').length + Math.min(Math.floor(length / 100), 3);
+      const parent = paragraph.parentElement;
+      const grandparent = parent ? parent.parentElement : null;
+      if (parent) {
+        scores.set(parent, (scores.get(parent) || 0) + score);
+      }
+      if (grandparent) {
+        scores.set(grandparent, (scores.get(grandparent) || 0) + score / 2);
+      }
+    });
+
+    let bestScore = 0;
+    scores.forEach((score, element) => {
+      const names = `${element.getAttribute('class') || ''} ${element.id || ''}`;
+      const weighted = (score + (LIKELY.test(names) ? 25 : 0)) * (1 - linkDensity(element));
+      if (weighted > bestScore) {
+        bestScore = weighted;
+        root = element;
+      }
+    });
+  }
+
+  // Turn the content into blocks
+  const blocks: Block[] = [];
+  let inlineText = '';
+  let inlineLinkText = '';
+
+  const flush = () => {
+    const text = collapse(inlineText);
+    const density = text ? collapse(inlineLinkText).length / text.length : 0;
+    if (text && density < 0.8) {
+      blocks.push({ type: 'paragraph', text });
+    }
+    inlineText = '';
+    inlineLinkText = '';
+  };
+
+  const listItems = (list: Element): string[] => {
+    const items: string[] = [];
+    Array.from(list.children).filter(child => child.tagName === 'LI').forEach(item => {
+      const copy = item.cloneNode(true) as Element;
+      copy.querySelectorAll('ul, ol').forEach(nested => nested.remove());
+      const text = collapse(copy.textContent);
+      if (text) {
+        items.push(text);
+      }
+      item.querySelectorAll(':scope > ul, :scope > ol').forEach(nested => items.push(...listItems(nested)));
+    });
+    return items;
+  };
+
+  const walk = (node: Element) => {
+    node.childNodes.forEach(child => {
+      if (child.nodeType === 3) {
+        inlineText += child.textContent || '';
+        return;
+      }
+      if (child.nodeType !== 1) {
+        return;
+      }
+
+      const element = child as Element;
+      const tag = element.tagName;
+
+      if (/^H[1-6]$/.test(tag)) {
+        flush();
+        const text = collapse(element.textContent);
+        if (text) {
+          blocks.push({ type: 'heading', level: Number(tag[1]), text });
+        }
+      } else if (tag === 'P') {
+        flush();
+        inlineText = element.textContent || '';
+        inlineLinkText = Array.from(element.querySelectorAll('a')).map(link => link.textContent || '').join(' ');
+        flush();
+      } else if (tag === 'PRE') {
+        flush();
+        const text = (element.textContent || '').replace(/^\n+|\s+$/g, '');
+        const code = element.querySelector('code');
+        const classes = `${element.getAttribute('class') || ''} ${code ? code.getAttribute('class') || '' : ''}`;
+        const language = classes.match(/(?:language|lang)-([\w+#-]+)/);
+        if (text) {
+          blocks.push({ type: 'code', language: language ? language[1] : null, text });
+        }
+      } else if (tag === 'UL' || tag === 'OL') {
+        flush();
+        const items = listItems(element);
+        if (items.length > 0 && linkDensity(element) <= 0.5) {
+          blocks.push({ type: 'list', ordered: tag === 'OL', items });
+        }
+      } else if (tag === 'BLOCKQUOTE') {
+        flush();
+        const text = collapse(element.textContent);
+        if (text) {
+          blocks.push({ type: 'quote', text });
+        }
+      } else if (tag === 'TABLE') {
+        flush();
+        const rows = Array.from(element.querySelectorAll('tr'))
+          .map(row => Array.from(row.querySelectorAll('th, td')).map(cell => collapse(cell.textContent)))
+          .filter(row => row.some(cell => cell));
+        if (rows.some(row => row.length > 1)) {
+          blocks.push({ type: 'table', rows });
+        } else {
+          // Single column tables are used for layout
+          walk(element);
+        }
+      } else if (tag === 'BR') {
+        inlineText += ' ';
+      } else if (tag === 'HR' || tag === 'IMG') {
+        flush();
+      } else if (BLOCK_TAGS.test(tag) || element.querySelector('p, div, h1, h2, h3, h4, h5, h6, ul, ol, pre, table')) {
+        flush();
+        walk(element);
+        flush();
+      } else {
+        const text = element.textContent || '';
+        inlineText += text;
+        if (tag === 'A') {
+          inlineLinkText += text;
+        } else {
+          element.querySelectorAll('a').forEach(link => {
+            inlineLinkText += link.textContent || '';
+          });
+        }
+      }
+    });
+  };
+
+  walk(root || body);
+  flush();
+
+  const text = blocks.map(block => {
+    switch (block.type) {
+      case 'list':
+        return (block.items || []).map((item, index) => `${block.ordered ? `${index + 1}.` : '-'} ${item}`).join('\n');
+      case 'quote':
+        return `> ${block.text}`;
+      case 'table':
+        return (block.rows || []).map(row => row.join(' | ')).join('\n');
+      default:
+        return block.text || '';
+    }
+  }).join('\n\n');
+
+  return { title, byline, publishedAt, excerpt, blocks, text };
+}
@@ -0,0 +1,259 @@
+import * as puppeteer from 'puppeteer';
+import { MarkdownPageInfo } from '../config/types';
+
+/**
+ * Convert the page loaded in a Puppeteer page to a Markdown document with front matter
+ *
+ * @param page Puppeteer page to convert
+ * @param info Fetch details for the front matter, url and title default to the page's
+ */
+export async function pageToMarkdown(
+  page: puppeteer.Page,
+  info: Partial<MarkdownPageInfo> = {}
+): Promise<string> {
+  const url = info.url || page.url();
+  const body = await page.evaluate(convertDocumentToMarkdown, url);
+
+  return formatMarkdownDocument({
+    url,
+    title: info.title !== undefined ? info.title : (await page.title()) || null,
+    fetchedAt: info.fetchedAt || new Date().toISOString(),
+    statusCode: info.statusCode !== undefined ? info.statusCode : null
+  }, body);
+}
+
+/**
+ * Prepend a YAML front matter block to a Markdown body
+ *
+ * @param info Values for the front matter
+ * @param body Markdown body
+ */
+export function formatMarkdownDocument(info: MarkdownPageInfo, body: string): string {
+  // JSON strings are valid double quoted YAML scalars
+  const lines = [
+    '---',
+    `url: ${JSON.stringify(info.url)}`,
+    `title: ${info.title !== null ? JSON.stringify(info.title) : 'null'}`,
+    `fetchedAt: ${JSON.stringify(info.fetchedAt)}`,
+    `status: ${info.statusCode !== null ? info.statusCode : 'null'}`,
+    '---',
+    ''
+  ];
+
+  return `${lines.join('\n')}\n${body}\n`;
+}
+
+/**
+ * Convert the body of a document to Markdown.
+ * Headings, paragraphs, links, images (as alt text), emphasis, lists, tables,
+ * quotes and code blocks are kept; scripts, styles and form controls are dropped.
+ *
+ * The function is passed to page.evaluate() as is, so it must not use anything
+ * outside its own body.
+ *
+ * @param baseUrl URL to resolve relative links and image sources against
+ * @param doc Document to convert (defaults to the page's document)
+ */
+export function convertDocumentToMarkdown(baseUrl: string | null = null, doc: Document = document): string {
+  const SKIP_TAGS = ['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE', 'SVG', 'CANVAS', 'IFRAME', 'OBJECT', 'EMBED',
+    'HEAD', 'BUTTON', 'INPUT', 'SELECT', 'TEXTAREA', 'DIALOG'];
+  // Marks list indentation so it survives whitespace tidying
+  const INDENT = '\u0001';
+  const BLOCK_TAGS = /^(ADDRESS|ARTICLE|ASIDE|BODY|DD|DETAILS|DIV|DL|DT|FIELDSET|FIGCAPTION|FIGURE|FOOTER|FORM|HEADER|HGROUP|MAIN|NAV|P|SECTION|SUMMARY)$/;
+
+  const resolveUrl = (url: string | null) => {
+    if (!url || /^\s*javascript:/i.test(url)) {
+      return null;
+    }
+    try {
+      return new URL(url.trim(), baseUrl || doc.baseURI).toString();
+    } catch {
+      return url.trim();
+    }
+  };
+
+  const escapeText = (text: string) => text.replace(/([\\`*\[\]])/g, '\\$1');
+
+  // Wrap inline content in a marker, keeping surrounding whitespace outside of it
+  const wrap = (content: string, marker: string) => {
+    const match = content.match(/^(\s*)([\s\S]*?)(\s*)$/) as RegExpMatchArray;
+    return match[2] ? `${match[1]}${marker}${match[2]}${marker}${match[3]}` : content;
+  };
+
+  const block = (content: string) => {
+    const trimmed = content.trim();
+    return trimmed ? `\n\n${trimmed}\n\n` : '';
+  };
+
+  const codeFence = (code: string) => {
+    const longestRun = Math.max(0, ...(code.match(/`+/g) || []).map(run => run.length));
+    return '`'.repeat(Math.max(3, longestRun + 1));
+  };
+
+  const renderChildren = (node: Node): string => Array.from(node.childNodes).map(render).join('');
+
+  const renderList = (list: Element): string => {
+    const ordered = list.tagName === 'OL';
+    let number = Number(list.getAttribute('start')) || 1;
+
+    const items = Array.from(list.children)
+      .filter(child => child.tagName === 'LI')
+      .map(item => {
+        const marker = ordered ? `${number++}.` : '-';
+        const content = renderChildren(item).trim().replace(/\n{2,}/g, '\n');
+        return `${marker} ${content.replace(/\n/g, `\n${INDENT.repeat(marker.length + 1)}`)}`;
+      });
+
+    return block(items.join('\n'));
+  };
+
+  const renderTable = (table: HTMLTableElement): string => {
+    const rows = Array.from(table.rows).map(row => Array.from(row.cells).map(cell =>
+      renderChildren(cell).replace(/\s+/g, ' ').trim().replace(/\|/g, '\\|')
+    ));
+    if (rows.length === 0) {
+      return '';
+    }
+
+    const columns = Math.max(...rows.map(row => row.length));
+    const line = (cells: string[]) => {
+      const padded = cells.concat(Array(columns - cells.length).fill(''));
+      return `| ${padded.join(' | ')} |`;
+    };
+
+    return block([
+      line(rows[0]),
+      line(Array(columns).fill('---')),
+      ...rows.slice(1).map(line)
+    ].join('\n'));
+  };
+
+  function render(node: Node): string {
+    if (node.nodeType === 3) {
+      const parent = node.parentElement;
+      if (parent && parent.closest('pre')) {
+        return node.textContent || '';
+      }
+      return escapeText((node.textContent || '').replace(/\s+/g, ' '));
+    }
+    if (node.nodeType !== 1) {
+      return '';
+    }
+
+    const element = node as Element;
+    const tag = element.tagName.toUpperCase();
+
+    if (SKIP_TAGS.includes(tag) || element.getAttribute('hidden') !== null || element.getAttribute('aria-hidden') === 'true') {
+      return '';
+    }
+
+    if (/^H[1-6]$/.test(tag)) {
+      const text = renderChildren(element).replace(/\s+/g, ' ').trim();
+      return text ? block(`${'#'.repeat(Number(tag[1]))} ${text}`) : '';
+    }
+
+    switch (tag) {
+      case 'BR':
+        return '\\\n';
+      case 'HR':
+        return block('---');
+      case 'STRONG':
+      case 'B':
+        return wrap(renderChildren(element), '**');
+      case 'EM':
+      case 'I':
+        return wrap(renderChildren(element), '*');
+      case 'DEL':
+      case 'S':
+        return wrap(renderChildren(element), '~~');
+      case 'CODE': {
+        const code = (element.textContent || '').replace(/\s+/g, ' ');
+        const ticks = '`'.repeat(Math.max(1, ...(code.match(/`+/g) || []).map(run => run.length + 1)));
+        const padding = code.startsWith('`') || code.endsWith('`') ? ' ' : '';
+        return code.trim() ? `${ticks}${padding}${code}${padding}${ticks}` : '';
+      }
+      case 'PRE': {
+        const code = (element.textContent || '').replace(/^\n+|\s+$/g, '');
+        const codeElement = element.querySelector('code');
+        const classes = `${element.getAttribute('class') || ''} ${codeElement ? codeElement.getAttribute('class') || '' : ''}`;
+        const language = classes.match(/(?:language|lang)-([\w+#-]+)/);
+        const fence = codeFence(code);
+        return code ? `\n\n${fence}${language ? language[1] : ''}\n${code}\n${fence}\n\n` : '';
+      }
+      case 'A': {
+        const content = renderChildren(element).replace(/\s+/g, ' ').trim();
+        const href = resolveUrl(element.getAttribute('href'));
+        if (!content) {
+          return '';
+        }
+        return href ? `[${content}](${href.replace(/\)/g, '%29').replace(/ /g, '%20')})` : content;
+      }
+      case 'IMG': {
+        const alt = escapeText((element.getAttribute('alt') || '').replace(/\s+/g, ' ').trim());
+        const src = resolveUrl(element.getAttribute('src'));
+        return src && !src.startsWith('data:') ? `![${alt}](${src.replace(/\)/g, '%29').replace(/ /g, '%20')})` : alt;
+      }
+      case 'UL':
+      case 'OL':
+        return renderList(element);
+      case 'TABLE':
+        return renderTable(element as HTMLTableElement);
+      case 'BLOCKQUOTE': {
+        const content = renderChildren(element).trim();
+        return content
+          ? block(content.split('\n').map(line => (line ? `> ${line}` : '>')).join('\n'))
+          : '';
+      }
+      case 'LI':
+        // List items outside of a list
+        return block(`- ${renderChildren(element).trim()}`);
+    }
+
+    if (BLOCK_TAGS.test(tag)) {
+      return block(renderChildren(element));
+    }
+
+    return renderChildren(element);
+  }
+
+  if (!doc.body) {
+    return '';
+  }
+
+  // Tidy whitespace outside of code fences
+  const lines: string[] = [];
+  let fence: string | null = null;
+
+  for (const rawLine of render(doc.body).split('\n')) {
+    const indentMatch = rawLine.match(/^\u0001*/) as RegExpMatchArray;
+    const indent = ' '.repeat(indentMatch[0].length);
+    const rest = rawLine.slice(indentMatch[0].length).replace(/\u0001/g, ' ');
+
+    if (fence !== null) {
+      lines.push(indent + rest);
+      if (rest.trim() === fence) {
+        fence = null;
+      }
+      continue;
+    }
+
+    const fenceMatch = rest.match(/^(`{3,})/);
+    if (fenceMatch) {
+      fence = fenceMatch[1];
+      lines.push(indent + rest);
+      continue;
+    }
+
+    const content = rest.trim().replace(/ {2,}/g, ' ');
+    if (content === '' && (lines.length === 0 || lines[lines.length - 1] === '')) {
+      continue;
+    }
+    lines.push(content ? indent + content : '');
+  }
+
+  while (lines.length > 0 && lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+
+  return lines.join('\n');
+}
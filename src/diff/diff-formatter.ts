@@ -0,0 +1,257 @@
+import { DiffFormat, DiffedResult, SerpDiff } from '../config/types';
+
+/**
+ * Formats SERP diffs into reports
+ */
+export class DiffFormatter {
+  /**
+   * Format a diff based on the specified output format
+   *
+   * @param diff Diff to format
+   * @param format Output format
+   */
+  format(diff: SerpDiff, format: DiffFormat): string {
+    switch (format) {
+      case DiffFormat.TEXT:
+        return this.formatAsText(diff);
+      case DiffFormat.JSON:
+        return JSON.stringify(diff, null, 2);
+      case DiffFormat.HTML:
+        return this.formatAsHtml(diff);
+      default:
+        throw new Error(`Unsupported diff format: ${format}`);
+    }
+  }
+
+  /**
+   * Format a diff as plain text.
+   * Lines start with + for new items, - for dropped items, ↑/↓ for moved results and ~ for changed snippets.
+   *
+   * @param diff Diff to format
+   */
+  private formatAsText(diff: SerpDiff): string {
+    let text = `SERP CHANGES FOR: "${diff.query}"\n`;
+    text += `Before: ${this.describeCapture(diff.before)}\n`;
+    text += `After:  ${this.describeCapture(diff.after)}\n\n`;
+
+    if (!diff.hasChanges) {
+      return text + 'No changes\n';
+    }
+
+    const organic = diff.organic;
+    text += this.textSection(`ORGANIC RESULTS (${this.summarizeOrganic(diff)})`, [
+      ...organic.added.map(result => `+ [${result.position}] ${this.describeResult(result)}`),
+      ...organic.removed.map(result => `- [${result.position}] ${this.describeResult(result)}`),
+      ...organic.moved.map(change =>
+        `${change.after < change.before ? '↑' : '↓'} [${change.before} → ${change.after}] ${this.describeResult(change)}`),
+      ...organic.snippetChanged.map(change =>
+        `~ ${this.describeResult(change)}\n` +
+        `      before: ${this.oneLine(change.before)}\n` +
+        `      after:  ${this.oneLine(change.after)}`)
+    ]);
+
+    const snippets = diff.featuredSnippets;
+    text += this.textSection(`FEATURED SNIPPETS (${snippets.added.length} new, ${snippets.removed.length} gone)`, [
+      ...snippets.added.map(snippet => `+ ${this.oneLine(snippet.content)}${snippet.source ? ` (${snippet.source})` : ''}`),
+      ...snippets.removed.map(snippet => `- ${this.oneLine(snippet.content)}${snippet.source ? ` (${snippet.source})` : ''}`)
+    ]);
+
+    const questions = diff.peopleAlsoAsk;
+    text += this.textSection(`PEOPLE ALSO ASK (${questions.added.length} new, ${questions.removed.length} gone)`, [
+      ...questions.added.map(question => `+ ${question}`),
+      ...questions.removed.map(question => `- ${question}`)
+    ]);
+
+    return text;
+  }
+
+  /**
+   * Format a diff as a standalone HTML page
+   *
+   * @param diff Diff to format
+   */
+  private formatAsHtml(diff: SerpDiff): string {
+    let html = `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>SERP Changes for "${this.escapeHtml(diff.query)}"</title>
+  <style>
+    body {
+      font-family: Arial, sans-serif;
+      line-height: 1.6;
+      margin: 0;
+      padding: 20px;
+      color: #333;
+    }
+    h1, h2 {
+      color: #1a73e8;
+    }
+    h1 {
+      border-bottom: 1px solid #eee;
+      padding-bottom: 10px;
+    }
+    table {
+      border-collapse: collapse;
+      width: 100%;
+      margin-bottom: 20px;
+    }
+    th, td {
+      text-align: left;
+      padding: 6px 10px;
+      border-bottom: 1px solid #eee;
+      vertical-align: top;
+    }
+    .added {
+      background-color: #e6f4ea;
+    }
+    .removed {
+      background-color: #fce8e6;
+    }
+    .up {
+      color: #137333;
+    }
+    .down {
+      color: #c5221f;
+    }
+    .meta {
+      color: #70757a;
+      font-size: 13px;
+    }
+  </style>
+</head>
+<body>
+  <h1>SERP Changes for "${this.escapeHtml(diff.query)}"</h1>
+  <p class="meta">Before: ${this.escapeHtml(this.describeCapture(diff.before))}<br>After: ${this.escapeHtml(this.describeCapture(diff.after))}</p>
+`;
+
+    if (!diff.hasChanges) {
+      return html + `  <p>No changes</p>
+</body>
+</html>`;
+    }
+
+    const organic = diff.organic;
+    html += `  <h2>Organic Results</h2>
+  <p>${this.escapeHtml(this.summarizeOrganic(diff))}</p>
+  <table>
+    <tr><th>Change</th><th>Position</th><th>Result</th></tr>
+`;
+    organic.added.forEach(result => {
+      html += `    <tr class="added"><td>New</td><td>${result.position}</td><td>${this.htmlResult(result)}</td></tr>\n`;
+    });
+    organic.removed.forEach(result => {
+      html += `    <tr class="removed"><td>Dropped</td><td>${result.position}</td><td>${this.htmlResult(result)}</td></tr>\n`;
+    });
+    organic.moved.forEach(change => {
+      const up = change.after < change.before;
+      html += `    <tr><td class="${up ? 'up' : 'down'}">${up ? '↑' : '↓'} ${Math.abs(change.before - change.after)}</td>` +
+        `<td>${change.before} → ${change.after}</td><td>${this.htmlResult(change)}</td></tr>\n`;
+    });
+    organic.snippetChanged.forEach(change => {
+      html += `    <tr><td>Snippet</td><td></td><td>${this.htmlResult(change)}` +
+        `<div class="removed">${this.escapeHtml(change.before || 'N/A')}</div>` +
+        `<div class="added">${this.escapeHtml(change.after || 'N/A')}</div></td></tr>\n`;
+    });
+    html += `  </table>\n`;
+
+    html += `  <h2>Featured Snippets</h2>\n  <ul>\n`;
+    diff.featuredSnippets.added.forEach(snippet => {
+      html += `    <li class="added">${this.escapeHtml(snippet.content || 'N/A')}${snippet.source ? ` <span class="meta">${this.escapeHtml(snippet.source)}</span>` : ''}</li>\n`;
+    });
+    diff.featuredSnippets.removed.forEach(snippet => {
+      html += `    <li class="removed">${this.escapeHtml(snippet.content || 'N/A')}${snippet.source ? ` <span class="meta">${this.escapeHtml(snippet.source)}</span>` : ''}</li>\n`;
+    });
+    html += `  </ul>\n`;
+
+    html += `  <h2>People Also Ask</h2>\n  <ul>\n`;
+    diff.peopleAlsoAsk.added.forEach(question => {
+      html += `    <li class="added">${this.escapeHtml(question)}</li>\n`;
+    });
+    diff.peopleAlsoAsk.removed.forEach(question => {
+      html += `    <li class="removed">${this.escapeHtml(question)}</li>\n`;
+    });
+    html += `  </ul>
+</body>
+</html>`;
+
+    return html;
+  }
+
+  /**
+   * Summarize the organic result changes, e.g. "2 new, 1 dropped, 3 moved, 0 with a new snippet"
+   *
+   * @param diff Diff to summarize
+   */
+  private summarizeOrganic(diff: SerpDiff): string {
+    const organic = diff.organic;
+    return `${organic.added.length} new, ${organic.removed.length} dropped, ` +
+      `${organic.moved.length} moved, ${organic.snippetChanged.length} with a new snippet`;
+  }
+
+  /**
+   * Format a section of the text report
+   *
+   * @param title Section title
+   * @param lines Changes in the section
+   */
+  private textSection(title: string, lines: string[]): string {
+    let text = `=== ${title} ===\n`;
+    if (lines.length > 0) {
+      text += `\n${lines.map(line => `  ${line}`).join('\n')}\n`;
+    }
+    return text + '\n';
+  }
+
+  /**
+   * Put text on a single line
+   *
+   * @param text Text to format
+   */
+  private oneLine(text: string | null): string {
+    return text ? text.replace(/\s+/g, ' ').trim() : 'N/A';
+  }
+
+  /**
+   * Describe a compared capture by its label and timestamp
+   *
+   * @param capture Capture to describe
+   */
+  private describeCapture(capture: SerpDiff['before']): string {
+    return capture.label ? `${capture.label} (${capture.timestamp})` : capture.timestamp;
+  }
+
+  /**
+   * Describe an organic result by its title and URL
+   *
+   * @param result Result to describe
+   */
+  private describeResult(result: Pick<DiffedResult, 'title' | 'url'>): string {
+    return result.title ? `${result.title} — ${result.url}` : result.url;
+  }
+
+  /**
+   * Format an organic result as a link with its URL
+   *
+   * @param result Result to format
+   */
+  private htmlResult(result: Pick<DiffedResult, 'title' | 'url'>): string {
+    const href = /^https?:/i.test(result.url) ? ` href="${this.escapeHtml(result.url)}"` : '';
+    return `<a${href}>${this.escapeHtml(result.title || result.url)}</a><div class="meta">${this.escapeHtml(result.url)}</div>`;
+  }
+
+  /**
+   * Escape HTML special characters
+   *
+   * @param str String to escape
+   */
+  private escapeHtml(str: string): string {
+    return str
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#039;');
+  }
+}
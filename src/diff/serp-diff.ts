@@ -0,0 +1,118 @@
+import { FeaturedSnippet, OrganicResult, SearchResults, SerpDiff } from '../config/types';
+
+/**
+ * Compare two captures of the same query.
+ * Organic results are matched by URL, featured snippets by source URL and content,
+ * and questions by their text regardless of case.
+ *
+ * @param before Earlier capture
+ * @param after Later capture
+ * @param labels Names of the captures shown in reports, e.g. run IDs or file paths
+ */
+export function diffSearchResults(
+  before: SearchResults,
+  after: SearchResults,
+  labels: { before?: string; after?: string } = {}
+): SerpDiff {
+  const beforeResults = indexByUrl(before.organicResults || []);
+  const afterResults = indexByUrl(after.organicResults || []);
+
+  const diff: SerpDiff = {
+    query: after.query,
+    before: { timestamp: before.timestamp, label: labels.before || null },
+    after: { timestamp: after.timestamp, label: labels.after || null },
+    organic: { added: [], removed: [], moved: [], snippetChanged: [] },
+    featuredSnippets: { added: [], removed: [] },
+    peopleAlsoAsk: { added: [], removed: [] },
+    hasChanges: false
+  };
+
+  for (const [url, result] of afterResults) {
+    const previous = beforeResults.get(url);
+    if (!previous) {
+      diff.organic.added.push({ url, title: result.title, position: result.position });
+      continue;
+    }
+
+    if (previous.position !== result.position) {
+      diff.organic.moved.push({ url, title: result.title, before: previous.position, after: result.position });
+    }
+    if (normalizeText(previous.snippet) !== normalizeText(result.snippet)) {
+      diff.organic.snippetChanged.push({ url, title: result.title, before: previous.snippet, after: result.snippet });
+    }
+  }
+
+  for (const [url, result] of beforeResults) {
+    if (!afterResults.has(url)) {
+      diff.organic.removed.push({ url, title: result.title, position: result.position });
+    }
+  }
+
+  diff.featuredSnippets = diffLists(before.featuredSnippets || [], after.featuredSnippets || [], snippetKey);
+  diff.peopleAlsoAsk = diffLists(before.peopleAlsoAsk || [], after.peopleAlsoAsk || [], normalizeText);
+
+  diff.hasChanges = [
+    diff.organic.added,
+    diff.organic.removed,
+    diff.organic.moved,
+    diff.organic.snippetChanged,
+    diff.featuredSnippets.added,
+    diff.featuredSnippets.removed,
+    diff.peopleAlsoAsk.added,
+    diff.peopleAlsoAsk.removed
+  ].some(list => list.length > 0);
+
+  return diff;
+}
+
+/**
+ * Map organic results by URL, keeping the first result for each URL
+ *
+ * @param results Organic results
+ */
+function indexByUrl(results: OrganicResult[]): Map<string, OrganicResult> {
+  const index = new Map<string, OrganicResult>();
+
+  for (const result of results) {
+    if (result.url && !index.has(result.url)) {
+      index.set(result.url, result);
+    }
+  }
+
+  return index;
+}
+
+/**
+ * Find the items that only appear in one of two lists
+ *
+ * @param before Earlier list
+ * @param after Later list
+ * @param key Identity of an item
+ */
+function diffLists<T>(before: T[], after: T[], key: (item: T) => string): { added: T[]; removed: T[] } {
+  const beforeKeys = new Set(before.map(key));
+  const afterKeys = new Set(after.map(key));
+
+  return {
+    added: after.filter(item => !beforeKeys.has(key(item))),
+    removed: before.filter(item => !afterKeys.has(key(item)))
+  };
+}
+
+/**
+ * Identity of a featured snippet
+ *
+ * @param snippet Featured snippet
+ */
+function snippetKey(snippet: FeaturedSnippet): string {
+  return `${snippet.url || snippet.source || ''}\n${normalizeText(snippet.content)}`;
+}
+
+/**
+ * Normalize text for comparison, ignoring case and whitespace differences
+ *
+ * @param text Text to normalize
+ */
+function normalizeText(text: string | null | undefined): string {
+  return (text || '').replace(/\s+/g, ' ').trim().toLowerCase();
+}
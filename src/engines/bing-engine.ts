@@ -0,0 +1,71 @@
+import { EngineSelectors } from '../config/types';
+import { SearchEngine } from './search-engine';
+
+/**
+ * Number of organic results Bing shows per page
+ */
+const RESULTS_PER_PAGE = 10;
+
+/**
+ * Bing search engine backend
+ */
+export class BingEngine extends SearchEngine {
+  readonly name = 'Bing';
+
+  readonly homeUrl = 'https://www.bing.com/';
+
+  readonly inputSelectors = [
+    'input[name="q"]',
+    '#sb_form_q',
+    'input[aria-label="Enter your search term"]',
+    'textarea#sb_form_q',
+    'input[type="search"]'
+  ];
+
+  readonly selectors: EngineSelectors = {
+    searchResults: '#b_results',
+    mainContent: '#b_content',
+    nextPage: 'a.sb_pagN',
+
+    organicResults: 'li.b_algo',
+    organicTitle: 'h2',
+    organicLink: 'h2 a',
+    organicSnippet: '.b_caption p',
+    organicDeepLinks: '.b_deep li a',
+
+    featuredSnippets: '.b_ans',
+    featuredSnippetSource: '.b_attribution',
+
+    peopleAlsoAsk: '.df_qntext',
+    peopleAlsoAskAnswer: '.b_ans',
+
+    relatedSearches: '.b_rs li a',
+
+    videos: '.mc_vtvc',
+    videoTitle: '.mc_vtvc_title',
+    videoSource: '.mc_vtvc_meta_channel',
+    videoDuration: '.mc_bc',
+    videoPlayButton: '.mc_vtvc_center_play',
+
+    images: '.imgpt',
+    imageTitle: '.img_info',
+    imageDimensions: '.img_dimensions',
+    imageFullSize: '.mimg'
+  };
+
+  /**
+   * Bing pages through results with the 1-based `first` offset
+   *
+   * @param currentUrl URL of the current result page
+   * @param pageNumber Number of the page to build the URL for (1-based)
+   */
+  buildPageUrl(currentUrl: string, pageNumber: number): string | null {
+    const url = new URL(currentUrl);
+    if (!url.searchParams.has('q')) {
+      return null;
+    }
+
+    url.searchParams.set('first', String((pageNumber - 1) * RESULTS_PER_PAGE + 1));
+    return url.toString();
+  }
+}
@@ -0,0 +1,49 @@
+import { EngineSelectors } from '../config/types';
+import { SearchEngine } from './search-engine';
+
+/**
+ * Brave Search backend
+ */
+export class BraveEngine extends SearchEngine {
+  readonly name = 'Brave';
+
+  readonly homeUrl = 'https://search.brave.com/';
+
+  readonly inputSelectors = [
+    '#searchbox',
+    'textarea[name="q"]',
+    'input[name="q"]',
+    'input[type="search"]'
+  ];
+
+  readonly selectors: EngineSelectors = {
+    searchResults: '#results',
+    mainContent: 'main',
+    nextPage: '#pagination a.button:last-of-type',
+
+    organicResults: '#results .snippet[data-type="web"]',
+    organicTitle: '.title',
+    organicLink: 'a',
+    organicSnippet: '.snippet-description',
+    organicDeepLinks: '.deep-results-buttons a',
+
+    featuredSnippets: '.infobox-snippet',
+    featuredSnippetSource: '.infobox-attr',
+
+    peopleAlsoAsk: '#faq .question',
+    peopleAlsoAskAnswer: '.answer',
+
+    relatedSearches: '#related-queries a',
+
+    videos: '#video-carousel .card',
+    videoTitle: '.title',
+    videoSource: '.site-name-content',
+    videoDuration: '.duration',
+    videoPlayButton: null,
+
+    images: '#image-carousel .card',
+    imageTitle: '.title',
+    imageDimensions: null,
+    imageFullSize: null
+  };
+}
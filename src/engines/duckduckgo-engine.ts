@@ -0,0 +1,49 @@
+import { EngineSelectors } from '../config/types';
+import { SearchEngine } from './search-engine';
+
+/**
+ * DuckDuckGo backend using the JavaScript-free HTML endpoint
+ */
+export class DuckDuckGoEngine extends SearchEngine {
+  readonly name = 'DuckDuckGo';
+
+  readonly homeUrl = 'https://html.duckduckgo.com/html/';
+
+  readonly inputSelectors = [
+    'input[name="q"]',
+    '#search_form_input_homepage',
+    'input[type="text"]'
+  ];
+
+  // The HTML endpoint only renders web results and a zero-click answer
+  readonly selectors: EngineSelectors = {
+    searchResults: '#links',
+    mainContent: '#links',
+    nextPage: '.nav-link input[type="submit"][value="Next"]',
+
+    organicResults: '#links .result.results_links_deep:not(.result--ad)',
+    organicTitle: '.result__title',
+    organicLink: '.result__title a.result__a',
+    organicSnippet: '.result__snippet',
+    organicDeepLinks: null,
+
+    featuredSnippets: '.zci',
+    featuredSnippetSource: '.zci__more-at',
+
+    peopleAlsoAsk: null,
+    peopleAlsoAskAnswer: null,
+
+    relatedSearches: null,
+
+    videos: null,
+    videoTitle: null,
+    videoSource: null,
+    videoDuration: null,
+    videoPlayButton: null,
+
+    images: null,
+    imageTitle: null,
+    imageDimensions: null,
+    imageFullSize: null
+  };
+}
@@ -0,0 +1,44 @@
+import { ScraperConfig, SearchEngineType } from '../config/types';
+import { SearchEngine } from './search-engine';
+import { BingEngine } from './bing-engine';
+import { DuckDuckGoEngine } from './duckduckgo-engine';
+import { BraveEngine } from './brave-engine';
+import { SearxngEngine } from './searxng-engine';
+
+/**
+ * Create the search engine backend selected in the configuration
+ *
+ * @param config Scraper configuration
+ */
+export function createSearchEngine(
+  config: Pick<ScraperConfig, 'engine' | 'engineBaseUrl' | 'timeout'>
+): SearchEngine {
+  const engine = instantiateEngine(config.engine || SearchEngineType.BING, config.engineBaseUrl);
+
+  if (config.timeout) {
+    engine.navigationTimeout = config.timeout;
+  }
+
+  return engine;
+}
+
+/**
+ * Create a search engine backend by type
+ *
+ * @param engine Engine type
+ * @param baseUrl Base URL for self-hosted engines
+ */
+function instantiateEngine(engine: SearchEngineType, baseUrl?: string): SearchEngine {
+  switch (engine) {
+    case SearchEngineType.BING:
+      return new BingEngine();
+    case SearchEngineType.DUCKDUCKGO:
+      return new DuckDuckGoEngine();
+    case SearchEngineType.BRAVE:
+      return new BraveEngine();
+    case SearchEngineType.SEARXNG:
+      return new SearxngEngine(baseUrl);
+    default:
+      throw new Error(`Unsupported search engine: ${engine}`);
+  }
+}
@@ -0,0 +1,166 @@
+import * as puppeteer from 'puppeteer';
+import { EngineSelectors } from '../config/types';
+import { TIMEOUTS } from '../config/default-config';
+
+/**
+ * Utility function to sleep for a specified number of milliseconds
+ */
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Base class for all search engine backends
+ */
+export abstract class SearchEngine {
+  /**
+   * Human readable engine name
+   */
+  abstract readonly name: string;
+
+  /**
+   * URL of the page containing the search form
+   */
+  abstract readonly homeUrl: string;
+
+  /**
+   * Selectors for finding the search input, tried in order
+   */
+  abstract readonly inputSelectors: string[];
+
+  /**
+   * Selectors for extracting the SERP features
+   */
+  abstract readonly selectors: EngineSelectors;
+
+  /**
+   * Timeout for page navigations in milliseconds
+   */
+  navigationTimeout: number = TIMEOUTS.navigation;
+
+  /**
+   * Navigate to the search engine home page
+   *
+   * @param page Puppeteer page to navigate
+   */
+  async navigate(page: puppeteer.Page): Promise<void> {
+    await page.goto(this.homeUrl, {
+      waitUntil: 'networkidle2',
+      timeout: this.navigationTimeout
+    });
+
+    // Wait for page to stabilize
+    await sleep(1000);
+  }
+
+  /**
+   * Find the search input element using the engine's input selectors
+   *
+   * @param page Puppeteer page to search in
+   */
+  async findSearchInput(page: puppeteer.Page): Promise<puppeteer.ElementHandle | null> {
+    console.log('Looking for search input...');
+
+    for (const selector of this.inputSelectors) {
+      const element = await page.$(selector).catch(() => null);
+      if (element) {
+        console.log(`Found search input with selector: ${selector}`);
+        return element;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Type the query into the search input and submit it
+   *
+   * @param page Puppeteer page to search in
+   * @param query Search query
+   */
+  async submitSearch(page: puppeteer.Page, query: string): Promise<void> {
+    const searchInput = await this.findSearchInput(page);
+    if (!searchInput) {
+      throw new Error(`Could not find search input on ${this.name}`);
+    }
+
+    await searchInput.type(query);
+    await page.keyboard.press('Enter');
+  }
+
+  /**
+   * Wait until the result page is ready for extraction
+   *
+   * @param page Puppeteer page to check
+   * @returns Whether the results container was found
+   */
+  async waitForResults(page: puppeteer.Page): Promise<boolean> {
+    const found = await page.waitForSelector(this.selectors.searchResults, { timeout: TIMEOUTS.searchResults })
+      .then(() => true)
+      .catch(() => false);
+
+    // Additional wait to ensure all dynamic content loads
+    await sleep(TIMEOUTS.stabilization);
+
+    return found;
+  }
+
+  /**
+   * Navigate from the current result page to the next one.
+   * Follows the engine's "next page" control, falling back to
+   * the URL returned by buildPageUrl when no control is found.
+   *
+   * @param page Puppeteer page showing a result page
+   * @param currentPage Number of the current result page (1-based)
+   * @returns Whether the next result page was loaded
+   */
+  async goToNextPage(page: puppeteer.Page, currentPage: number): Promise<boolean> {
+    const nextControl = this.selectors.nextPage
+      ? await page.$(this.selectors.nextPage).catch(() => null)
+      : null;
+
+    try {
+      if (nextControl) {
+        const href = await nextControl.evaluate(element => element.getAttribute('href'));
+
+        if (href) {
+          // Links are followed directly so slow click handlers don't matter
+          await page.goto(new URL(href, page.url()).toString(), {
+            waitUntil: 'networkidle2',
+            timeout: this.navigationTimeout
+          });
+        } else {
+          // Buttons submit a form, wait for the resulting navigation
+          await Promise.all([
+            page.waitForNavigation({ waitUntil: 'networkidle2', timeout: this.navigationTimeout }),
+            nextControl.click()
+          ]);
+        }
+      } else {
+        const nextUrl = this.buildPageUrl(page.url(), currentPage + 1);
+        if (!nextUrl) {
+          return false;
+        }
+
+        await page.goto(nextUrl, {
+          waitUntil: 'networkidle2',
+          timeout: this.navigationTimeout
+        });
+      }
+    } catch (error) {
+      console.warn(`Could not navigate to result page ${currentPage + 1}: ${error}`);
+      return false;
+    }
+
+    return this.waitForResults(page);
+  }
+
+  /**
+   * Build the URL of a result page from the URL of another result page.
+   * Engines without offset parameters return null.
+   *
+   * @param currentUrl URL of the current result page
+   * @param pageNumber Number of the page to build the URL for (1-based)
+   */
+  buildPageUrl(currentUrl: string, pageNumber: number): string | null {
+    return null;
+  }
+}
@@ -0,0 +1,59 @@
+import { EngineSelectors } from '../config/types';
+import { DEFAULT_SEARXNG_URL } from '../config/default-config';
+import { SearchEngine } from './search-engine';
+
+/**
+ * Backend for a self-hosted SearXNG instance
+ */
+export class SearxngEngine extends SearchEngine {
+  readonly name = 'SearXNG';
+
+  readonly homeUrl: string;
+
+  readonly inputSelectors = [
+    '#q',
+    'input[name="q"]',
+    'input[type="search"]'
+  ];
+
+  readonly selectors: EngineSelectors = {
+    searchResults: '#urls',
+    mainContent: '#results',
+    nextPage: '#pagination .next_page button[type="submit"]',
+
+    organicResults: '#urls article.result',
+    organicTitle: 'h3',
+    organicLink: 'h3 a',
+    organicSnippet: '.content',
+    organicDeepLinks: null,
+
+    featuredSnippets: '#answers .answer',
+    featuredSnippetSource: '.answer-url',
+
+    peopleAlsoAsk: null,
+    peopleAlsoAskAnswer: null,
+
+    relatedSearches: '#suggestions .suggestion',
+
+    videos: '#urls article.result-videos',
+    videoTitle: 'h3',
+    videoSource: '.url_header',
+    videoDuration: '.result_length',
+    videoPlayButton: null,
+
+    images: '#urls article.result-images',
+    imageTitle: '.title',
+    imageDimensions: '.result_resolution',
+    imageFullSize: null
+  };
+
+  /**
+   * Create a new SearxngEngine
+   *
+   * @param baseUrl Base URL of the SearXNG instance
+   */
+  constructor(baseUrl: string = DEFAULT_SEARXNG_URL) {
+    super();
+    this.homeUrl = baseUrl.endsWith('/') ? baseUrl : `${baseUrl}/`;
+  }
+}
@@ -1,18 +1,33 @@
 import * as puppeteer from 'puppeteer';
+import { EngineSelectors } from '../config/types';
+import { normalizeUrl } from '../utils/url-normalizer';
 
 /**
  * Base class for all content extractors
  */
 export abstract class BaseExtractor {
   protected page: puppeteer.Page;
+  protected selectors: EngineSelectors;
+  protected waitForContent: boolean;
+  protected baseUrl?: string;
 
   /**
    * Create a new extractor
    * 
    * @param page The Puppeteer page to extract content from
+   * @param selectors Selectors of the active search engine
+   * @param options.waitForContent Whether to wait for content to appear (false for static snapshots)
+   * @param options.baseUrl URL to resolve relative links against when the page has no web URL
    */
-  constructor(page: puppeteer.Page) {
+  constructor(
+    page: puppeteer.Page,
+    selectors: EngineSelectors,
+    options: { waitForContent?: boolean; baseUrl?: string } = {}
+  ) {
     this.page = page;
+    this.selectors = selectors;
+    this.waitForContent = options.waitForContent !== false;
+    this.baseUrl = options.baseUrl;
   }
 
   /**
@@ -42,6 +57,12 @@ export abstract class BaseExtractor {
    * @param timeout Timeout in milliseconds
    */
   protected async waitForSelectorSafe(selector: string, timeout: number = 5000): Promise<boolean> {
+    // Static snapshots are fully loaded, so a missing element will never appear
+    if (!this.waitForContent) {
+      const element = await this.page.$(selector).catch(() => null);
+      return element !== null;
+    }
+    
     try {
       await this.page.waitForSelector(selector, { timeout });
       return true;
@@ -50,4 +71,19 @@ export abstract class BaseExtractor {
       return false;
     }
   }
+
+  /**
+   * Normalize a URL found on the page, keeping the original as rawUrl
+   * 
+   * @param url URL as found in the page
+   */
+  protected normalizeUrl(url: string | null | undefined): { url: string | null; rawUrl: string | null } {
+    const rawUrl = url ?? null;
+    
+    // Saved snapshots are loaded into about:blank, use the engine URL instead
+    const pageUrl = this.page.url();
+    const baseUrl = /^https?:/i.test(pageUrl) ? pageUrl : this.baseUrl;
+    
+    return { url: normalizeUrl(rawUrl, baseUrl), rawUrl };
+  }
 }
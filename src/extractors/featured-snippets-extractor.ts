@@ -1,6 +1,5 @@
 import { BaseExtractor } from './base-extractor';
 import { FeaturedSnippet } from '../config/types';
-import { SELECTORS } from '../config/default-config';
 
 /**
  * Extracts featured snippets from the page
@@ -12,15 +11,21 @@ export class FeaturedSnippetsExtractor extends BaseExtractor {
   async extract(): Promise<FeaturedSnippet[]> {
     console.log('Extracting featured snippets...');
     
+    const { featuredSnippets, featuredSnippetSource } = this.selectors;
+    if (!featuredSnippets) {
+      console.warn('Featured snippets are not supported by this search engine');
+      return [];
+    }
+    
     // Wait for featured snippets to be present
-    const hasSnippets = await this.waitForSelectorSafe(SELECTORS.featuredSnippets, 5000);
+    const hasSnippets = await this.waitForSelectorSafe(featuredSnippets, 5000);
     if (!hasSnippets) {
       console.warn('No featured snippets found');
       return [];
     }
     
     // Extract snippets
-    const snippets = await this.safeEvaluate<FeaturedSnippet[]>((selector: string) => {
+    const snippets = await this.safeEvaluate<FeaturedSnippet[]>((selector: string, sourceSelector: string | null) => {
       const snippets: FeaturedSnippet[] = [];
       
       // Get all featured snippet elements
@@ -31,7 +36,7 @@ export class FeaturedSnippetsExtractor extends BaseExtractor {
         let textContent = element.textContent?.trim() || null;
         
         // Extract source if available
-        const sourceElement = element.querySelector('.b_attribution');
+        const sourceElement = sourceSelector ? element.querySelector(sourceSelector) : null;
         const source = sourceElement ? sourceElement.textContent?.trim() || null : null;
         
         // Extract URL if available
@@ -51,8 +56,13 @@ export class FeaturedSnippetsExtractor extends BaseExtractor {
       });
       
       return snippets;
-    }, SELECTORS.featuredSnippets) || [];
+    }, featuredSnippets, featuredSnippetSource) || [];
     
-    return snippets;
+    // Decode redirect wrappers and strip tracking parameters
+    return snippets.map(snippet => ({
+      content: snippet.content,
+      source: snippet.source,
+      ...this.normalizeUrl(snippet.url)
+    }));
   }
 }
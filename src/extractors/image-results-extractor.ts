@@ -1,6 +1,5 @@
 import { BaseExtractor } from './base-extractor';
 import { ImageResult } from '../config/types';
-import { SELECTORS } from '../config/default-config';
 
 /**
  * Extracts image results from the page
@@ -12,15 +11,25 @@ export class ImageResultsExtractor extends BaseExtractor {
   async extract(): Promise<ImageResult[]> {
     console.log('Extracting image results...');
     
+    const { images: imagesSelector, imageTitle, imageDimensions } = this.selectors;
+    if (!imagesSelector) {
+      console.warn('Image results are not supported by this search engine');
+      return [];
+    }
+    
     // Wait for image results to be present
-    const hasImages = await this.waitForSelectorSafe(SELECTORS.images, 5000);
+    const hasImages = await this.waitForSelectorSafe(imagesSelector, 5000);
     if (!hasImages) {
       console.warn('No image results found');
       return [];
     }
     
     // Extract images
-    const images = await this.safeEvaluate<ImageResult[]>((selector: string) => {
+    const images = await this.safeEvaluate<ImageResult[]>((
+      selector: string,
+      titleSelector: string | null,
+      dimensionsSelector: string | null
+    ) => {
       const images: ImageResult[] = [];
       
       // Get all image elements
@@ -35,7 +44,7 @@ export class ImageResultsExtractor extends BaseExtractor {
         const alt = imgElement ? imgElement.getAttribute('alt') || null : null;
         
         // Extract title if available
-        const titleElement = element.querySelector('.img_info');
+        const titleElement = titleSelector ? element.querySelector(titleSelector) : null;
         const title = titleElement ? titleElement.textContent?.trim() || null : null;
         
         // Extract URL if available
@@ -43,7 +52,7 @@ export class ImageResultsExtractor extends BaseExtractor {
         const url = linkElement ? linkElement.getAttribute('href') || null : null;
         
         // Extract dimensions if available
-        const dimensionsElement = element.querySelector('.img_dimensions');
+        const dimensionsElement = dimensionsSelector ? element.querySelector(dimensionsSelector) : null;
         const dimensions = dimensionsElement ? dimensionsElement.textContent?.trim() || null : null;
         
         images.push({
@@ -56,7 +65,7 @@ export class ImageResultsExtractor extends BaseExtractor {
       });
       
       return images;
-    }, SELECTORS.images) || [];
+    }, imagesSelector, imageTitle, imageDimensions) || [];
     
     return images;
   }
@@ -69,9 +78,15 @@ export class ImageResultsExtractor extends BaseExtractor {
   async viewFullSizeImage(imageIndex: number): Promise<string | null> {
     console.log(`Viewing full-size image at index ${imageIndex}...`);
     
+    const { images: imagesSelector, imageFullSize } = this.selectors;
+    if (!imagesSelector || !imageFullSize) {
+      console.warn('Full-size images are not supported by this search engine');
+      return null;
+    }
+    
     try {
       // Find all image elements
-      const imageElements = await this.page.$$(SELECTORS.images);
+      const imageElements = await this.page.$$(imagesSelector);
       
       if (imageIndex >= imageElements.length) {
         console.warn(`Image index ${imageIndex} out of range`);
@@ -82,14 +97,14 @@ export class ImageResultsExtractor extends BaseExtractor {
       await imageElements[imageIndex].click();
       
       // Wait for the full-size image to load
-      await this.page.waitForSelector('.mimg', { timeout: 5000 })
+      await this.page.waitForSelector(imageFullSize, { timeout: 5000 })
         .catch(() => console.warn('Timeout waiting for full-size image'));
       
       // Get the full-size image URL
-      return this.safeEvaluate<string | null>(() => {
-        const fullSizeImg = document.querySelector('.mimg');
+      return this.safeEvaluate<string | null>((selector: string) => {
+        const fullSizeImg = document.querySelector(selector);
         return fullSizeImg ? fullSizeImg.getAttribute('src') : null;
-      });
+      }, imageFullSize);
     } catch (error) {
       console.error(`Error viewing full-size image: ${error}`);
       return null;
@@ -1,26 +1,38 @@
 import { BaseExtractor } from './base-extractor';
-import { OrganicResult, DeepLink } from '../config/types';
-import { SELECTORS } from '../config/default-config';
+import { OrganicResult, DeepLink, TimingData, FollowUpPage, FollowUpOptions } from '../config/types';
+import { SearchEngine } from '../engines/search-engine';
+import { FollowUpCrawler } from '../scraper/follow-up-crawler';
 
 /**
  * Extracts organic search results from the page
  */
 export class OrganicResultsExtractor extends BaseExtractor {
   /**
-   * Extract organic search results
+   * Extract organic search results from the current result page
+   * 
+   * @param pageNumber Number of the current result page (1-based)
    */
-  async extract(): Promise<OrganicResult[]> {
+  async extract(pageNumber: number = 1): Promise<OrganicResult[]> {
     console.log('Extracting organic search results...');
     
+    const { organicResults, organicTitle, organicLink, organicSnippet, organicDeepLinks } = this.selectors;
+    
     // Wait for organic results to be present
-    const hasResults = await this.waitForSelectorSafe(SELECTORS.organicResults, 10000);
+    const hasResults = await this.waitForSelectorSafe(organicResults, 10000);
     if (!hasResults) {
       console.warn('No organic results found');
       return [];
     }
     
     // Extract results
-    const results = await this.safeEvaluate<OrganicResult[]>((selector: string) => {
+    const results = await this.safeEvaluate<OrganicResult[]>((
+      selector: string,
+      titleSelector: string,
+      linkSelector: string,
+      snippetSelector: string,
+      deepLinksSelector: string | null,
+      pageNumber: number
+    ) => {
       const results: OrganicResult[] = [];
       
       // Get all organic result elements
@@ -28,20 +40,20 @@ export class OrganicResultsExtractor extends BaseExtractor {
       
       resultElements.forEach((element, index) => {
         // Extract title
-        const titleElement = element.querySelector('h2');
+        const titleElement = element.querySelector(titleSelector);
         const title = titleElement ? titleElement.textContent?.trim() || null : null;
         
         // Extract URL
-        const linkElement = element.querySelector('h2 a');
+        const linkElement = element.querySelector(linkSelector);
         const url = linkElement ? linkElement.getAttribute('href') || null : null;
         
         // Extract snippet
-        const snippetElement = element.querySelector('.b_caption p');
+        const snippetElement = element.querySelector(snippetSelector);
         const snippet = snippetElement ? snippetElement.textContent?.trim() || null : null;
         
         // Extract deep links if available
         const deepLinks: Array<{text: string | null, url: string | null}> = [];
-        const deepLinkElements = element.querySelectorAll('.b_deep li a');
+        const deepLinkElements = deepLinksSelector ? Array.from(element.querySelectorAll(deepLinksSelector)) : [];
         
         deepLinkElements.forEach((link: Element) => {
           deepLinks.push({
@@ -52,6 +64,7 @@ export class OrganicResultsExtractor extends BaseExtractor {
         
         results.push({
           position: index + 1,
+          page: pageNumber,
           title,
           url,
           snippet,
@@ -61,51 +74,100 @@ export class OrganicResultsExtractor extends BaseExtractor {
       });
       
       return results;
-    }, SELECTORS.organicResults) || [];
+    }, organicResults, organicTitle, organicLink, organicSnippet, organicDeepLinks, pageNumber) || [];
     
-    return results;
+    // Decode redirect wrappers and strip tracking parameters
+    return results.map(result => ({
+      position: result.position,
+      page: result.page,
+      title: result.title,
+      ...this.normalizeUrl(result.url),
+      snippet: result.snippet,
+      deepLinks: result.deepLinks?.map(link => ({
+        text: link.text,
+        ...this.normalizeUrl(link.url)
+      })),
+      followUpSearched: result.followUpSearched
+    }));
   }
 
   /**
-   * Perform a follow-up search on a specific result
+   * Extract organic search results across several result pages.
+   * Results are deduplicated by URL and numbered across pages, and the
+   * page is returned to the first result page when done.
    * 
-   * @param result The result to perform a follow-up search on
-   * @param depth Maximum depth of follow-up searches
+   * @param engine Search engine used to navigate between result pages
+   * @param options Page and result limits
+   * @param timingData Timing data to record per-page extraction times in
    */
-  async performFollowUpSearch(result: OrganicResult, depth: number = 1): Promise<any> {
-    if (!result.url || result.followUpSearched || depth <= 0) {
-      return null;
-    }
+  async extractPages(
+    engine: SearchEngine,
+    options: { maxPages: number; maxResults?: number },
+    timingData?: TimingData
+  ): Promise<OrganicResult[]> {
+    const firstPageUrl = this.page.url();
+    const merged: OrganicResult[] = [];
+    const seenUrls = new Set<string>();
+    let pageNumber = 1;
     
-    console.log(`Performing follow-up search on: ${result.url}`);
-    
-    try {
-      // Navigate to the result URL
-      await this.page.goto(result.url, { waitUntil: 'networkidle2', timeout: 30000 });
-      
-      // Extract page title
-      const title = await this.page.title();
+    while (true) {
+      console.log(`[TIMER] Starting organic results extraction for page ${pageNumber}`);
+      const pageStartTime = performance.now();
+      const pageResults = await this.extract(pageNumber);
       
-      // Extract page content
-      const content = await this.safeEvaluate<string>(() => {
-        const mainContent = document.querySelector('main') || document.querySelector('body');
-        return mainContent ? mainContent.textContent?.trim() || '' : '';
-      });
+      for (const result of pageResults) {
+        if (result.url && seenUrls.has(result.url)) {
+          continue;
+        }
+        if (result.url) {
+          seenUrls.add(result.url);
+        }
+        merged.push({ ...result, position: merged.length + 1 });
+      }
       
-      // Mark as searched
-      result.followUpSearched = true;
+      const pageTime = performance.now() - pageStartTime;
+      if (timingData) {
+        timingData.steps[`organicPage${pageNumber}`] = pageTime;
+      }
+      console.log(`[TIMER] Organic results page ${pageNumber}: ${pageTime.toFixed(2)}ms (${pageResults.length} results)`);
       
-      // Store follow-up results
-      result.followUpResults = {
-        title,
-        content: content ? content.substring(0, 1000) + '...' : null,
-        url: result.url
-      };
+      const reachedMaxResults = options.maxResults !== undefined && merged.length >= options.maxResults;
+      if (pageResults.length === 0 || reachedMaxResults || pageNumber >= options.maxPages) {
+        break;
+      }
       
-      return result.followUpResults;
-    } catch (error) {
-      console.error(`Error during follow-up search: ${error}`);
-      return null;
+      const navigated = await engine.goToNextPage(this.page, pageNumber);
+      if (!navigated) {
+        console.warn(`No result page ${pageNumber + 1} found, stopping pagination`);
+        break;
+      }
+      pageNumber++;
+    }
+    
+    // Return to the first page so other extractors see the original SERP
+    if (pageNumber > 1) {
+      await this.page.goto(firstPageUrl, { waitUntil: 'networkidle2', timeout: engine.navigationTimeout });
+      await engine.waitForResults(this.page);
     }
+    
+    return options.maxResults !== undefined ? merged.slice(0, options.maxResults) : merged;
+  }
+
+  /**
+   * Perform a follow-up search on a specific result
+   * 
+   * @param result The result to perform a follow-up search on
+   * @param depth Maximum depth of follow-up searches (1 visits only the result page)
+   * @param options Further follow-up options such as per-domain limits
+   */
+  async performFollowUpSearch(
+    result: OrganicResult,
+    depth: number = 1,
+    options: Partial<FollowUpOptions> = {}
+  ): Promise<FollowUpPage | null> {
+    console.log(`Performing follow-up search on: ${result.url}`);
+    
+    const crawler = new FollowUpCrawler(this.page, { ...options, depth });
+    return crawler.followResult(result);
   }
 }
@@ -1,5 +1,4 @@
 import { BaseExtractor } from './base-extractor';
-import { SELECTORS } from '../config/default-config';
 
 /**
  * Extracts "People Also Ask" questions from the page
@@ -11,8 +10,14 @@ export class PeopleAlsoAskExtractor extends BaseExtractor {
   async extract(): Promise<string[]> {
     console.log('Extracting "People Also Ask" questions...');
     
+    const { peopleAlsoAsk } = this.selectors;
+    if (!peopleAlsoAsk) {
+      console.warn('"People Also Ask" questions are not supported by this search engine');
+      return [];
+    }
+    
     // Wait for questions to be present
-    const hasQuestions = await this.waitForSelectorSafe(SELECTORS.peopleAlsoAsk, 5000);
+    const hasQuestions = await this.waitForSelectorSafe(peopleAlsoAsk, 5000);
     if (!hasQuestions) {
       console.warn('No "People Also Ask" questions found');
       return [];
@@ -33,7 +38,7 @@ export class PeopleAlsoAskExtractor extends BaseExtractor {
       });
       
       return questions;
-    }, SELECTORS.peopleAlsoAsk) || [];
+    }, peopleAlsoAsk) || [];
     
     return questions;
   }
@@ -46,9 +51,15 @@ export class PeopleAlsoAskExtractor extends BaseExtractor {
   async expandQuestion(questionIndex: number): Promise<string | null> {
     console.log(`Expanding question at index ${questionIndex}...`);
     
+    const { peopleAlsoAsk, peopleAlsoAskAnswer } = this.selectors;
+    if (!peopleAlsoAsk || !peopleAlsoAskAnswer) {
+      console.warn('Expanding questions is not supported by this search engine');
+      return null;
+    }
+    
     try {
       // Find all question elements
-      const questionElements = await this.page.$$(SELECTORS.peopleAlsoAsk);
+      const questionElements = await this.page.$$(peopleAlsoAsk);
       
       if (questionIndex >= questionElements.length) {
         console.warn(`Question index ${questionIndex} out of range`);
@@ -60,30 +71,31 @@ export class PeopleAlsoAskExtractor extends BaseExtractor {
       
       // Wait for the answer to appear
       await this.page.waitForFunction(
-        (index, selector) => {
+        (index, selector, answerSelector) => {
           const questions = document.querySelectorAll(selector);
           const question = questions[index];
           if (!question) return false;
           
           // Check if the answer container is visible
-          const answerContainer = question.parentElement?.querySelector('.b_hide');
-          return answerContainer && !answerContainer.classList.contains('b_hide');
+          const answerContainer = question.parentElement?.querySelector(answerSelector) as HTMLElement | null;
+          return !!answerContainer && answerContainer.offsetParent !== null;
         },
         { timeout: 5000 },
         questionIndex,
-        SELECTORS.peopleAlsoAsk
+        peopleAlsoAsk,
+        peopleAlsoAskAnswer
       ).catch(() => console.warn('Timeout waiting for answer to appear'));
       
       // Extract the answer
-      return this.safeEvaluate<string | null>((index, selector) => {
+      return this.safeEvaluate<string | null>((index, selector, answerSelector) => {
         const questions = document.querySelectorAll(selector);
         const question = questions[index];
         if (!question) return null;
         
         // Find the answer container
-        const answerContainer = question.parentElement?.querySelector('.b_ans');
+        const answerContainer = question.parentElement?.querySelector(answerSelector);
         return answerContainer ? answerContainer.textContent?.trim() || null : null;
-      }, questionIndex, SELECTORS.peopleAlsoAsk);
+      }, questionIndex, peopleAlsoAsk, peopleAlsoAskAnswer);
     } catch (error) {
       console.error(`Error expanding question: ${error}`);
       return null;
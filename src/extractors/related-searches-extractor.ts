@@ -1,5 +1,4 @@
 import { BaseExtractor } from './base-extractor';
-import { SELECTORS } from '../config/default-config';
 
 /**
  * Extracts related searches from the page
@@ -11,8 +10,14 @@ export class RelatedSearchesExtractor extends BaseExtractor {
   async extract(): Promise<string[]> {
     console.log('Extracting related searches...');
     
+    const { relatedSearches: relatedSelector } = this.selectors;
+    if (!relatedSelector) {
+      console.warn('Related searches are not supported by this search engine');
+      return [];
+    }
+    
     // Wait for related searches to be present
-    const hasRelatedSearches = await this.waitForSelectorSafe(SELECTORS.relatedSearches, 5000);
+    const hasRelatedSearches = await this.waitForSelectorSafe(relatedSelector, 5000);
     if (!hasRelatedSearches) {
       console.warn('No related searches found');
       return [];
@@ -33,7 +38,7 @@ export class RelatedSearchesExtractor extends BaseExtractor {
       });
       
       return relatedSearches;
-    }, SELECTORS.relatedSearches) || [];
+    }, relatedSelector) || [];
     
     return relatedSearches;
   }
@@ -46,9 +51,15 @@ export class RelatedSearchesExtractor extends BaseExtractor {
   async performRelatedSearch(searchIndex: number): Promise<void> {
     console.log(`Performing related search at index ${searchIndex}...`);
     
+    const { relatedSearches: relatedSelector, searchResults } = this.selectors;
+    if (!relatedSelector) {
+      console.warn('Related searches are not supported by this search engine');
+      return;
+    }
+    
     try {
       // Find all related search elements
-      const relatedElements = await this.page.$$(SELECTORS.relatedSearches);
+      const relatedElements = await this.page.$$(relatedSelector);
       
       if (searchIndex >= relatedElements.length) {
         console.warn(`Related search index ${searchIndex} out of range`);
@@ -59,7 +70,7 @@ export class RelatedSearchesExtractor extends BaseExtractor {
       await relatedElements[searchIndex].click();
       
       // Wait for search results to load
-      await this.page.waitForSelector(SELECTORS.searchResults, { timeout: 10000 })
+      await this.page.waitForSelector(searchResults, { timeout: 10000 })
         .catch(() => console.warn('Timeout waiting for search results'));
       
       console.log('Related search completed');
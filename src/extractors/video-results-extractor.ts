@@ -1,6 +1,5 @@
 import { BaseExtractor } from './base-extractor';
 import { VideoResult } from '../config/types';
-import { SELECTORS } from '../config/default-config';
 
 /**
  * Extracts video results from the page
@@ -12,15 +11,26 @@ export class VideoResultsExtractor extends BaseExtractor {
   async extract(): Promise<VideoResult[]> {
     console.log('Extracting video results...');
     
+    const { videos: videosSelector, videoTitle, videoSource, videoDuration } = this.selectors;
+    if (!videosSelector) {
+      console.warn('Video results are not supported by this search engine');
+      return [];
+    }
+    
     // Wait for video results to be present
-    const hasVideos = await this.waitForSelectorSafe(SELECTORS.videos, 5000);
+    const hasVideos = await this.waitForSelectorSafe(videosSelector, 5000);
     if (!hasVideos) {
       console.warn('No video results found');
       return [];
     }
     
     // Extract videos
-    const videos = await this.safeEvaluate<VideoResult[]>((selector: string) => {
+    const videos = await this.safeEvaluate<VideoResult[]>((
+      selector: string,
+      titleSelector: string | null,
+      sourceSelector: string | null,
+      durationSelector: string | null
+    ) => {
       const videos: VideoResult[] = [];
       
       // Get all video elements
@@ -28,15 +38,15 @@ export class VideoResultsExtractor extends BaseExtractor {
       
       videoElements.forEach((element) => {
         // Extract title
-        const titleElement = element.querySelector('.mc_vtvc_title');
+        const titleElement = titleSelector ? element.querySelector(titleSelector) : null;
         const title = titleElement ? titleElement.textContent?.trim() || null : null;
         
         // Extract source
-        const sourceElement = element.querySelector('.mc_vtvc_meta_channel');
+        const sourceElement = sourceSelector ? element.querySelector(sourceSelector) : null;
         const source = sourceElement ? sourceElement.textContent?.trim() || null : null;
         
         // Extract duration if available
-        const durationElement = element.querySelector('.mc_bc');
+        const durationElement = durationSelector ? element.querySelector(durationSelector) : null;
         const duration = durationElement ? durationElement.textContent?.trim() || null : null;
         
         // Extract URL if available
@@ -52,9 +62,15 @@ export class VideoResultsExtractor extends BaseExtractor {
       });
       
       return videos;
-    }, SELECTORS.videos) || [];
+    }, videosSelector, videoTitle, videoSource, videoDuration) || [];
     
-    return videos;
+    // Resolve relative video links, decode redirect wrappers and strip tracking parameters
+    return videos.map(video => ({
+      title: video.title,
+      source: video.source,
+      duration: video.duration,
+      ...this.normalizeUrl(video.url)
+    }));
   }
   
   /**
@@ -65,9 +81,15 @@ export class VideoResultsExtractor extends BaseExtractor {
   async playVideo(videoIndex: number): Promise<void> {
     console.log(`Playing video at index ${videoIndex}...`);
     
+    const { videos: videosSelector, videoPlayButton } = this.selectors;
+    if (!videosSelector) {
+      console.warn('Video results are not supported by this search engine');
+      return;
+    }
+    
     try {
       // Find all video elements
-      const videoElements = await this.page.$$(SELECTORS.videos);
+      const videoElements = await this.page.$$(videosSelector);
       
       if (videoIndex >= videoElements.length) {
         console.warn(`Video index ${videoIndex} out of range`);
@@ -75,7 +97,7 @@ export class VideoResultsExtractor extends BaseExtractor {
       }
       
       // Find the play button or click on the video itself
-      const playButton = await videoElements[videoIndex].$('.mc_vtvc_center_play');
+      const playButton = videoPlayButton ? await videoElements[videoIndex].$(videoPlayButton) : null;
       
       if (playButton) {
         await playButton.click();
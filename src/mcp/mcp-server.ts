@@ -0,0 +1,466 @@
+import * as path from 'path';
+import * as readline from 'readline';
+import { ExtractOptions, OutputFormat, ScraperConfig, SearchEngineType, SearchResults } from '../config/types';
+import { BrowserPool } from '../scraper/browser-manager';
+import { Crawler } from '../scraper/crawler';
+import { SearchResultScraper } from '../scraper/search-result-scraper';
+import { ResultFormatter } from '../output/result-formatter';
+import { getToolVersion } from '../output/run-history';
+import { FETCH_PAGE_MAX_CHARS, MCP_TOOLS, validateArguments } from './mcp-tools';
+
+/**
+ * MCP protocol versions the server speaks, newest first
+ */
+export const MCP_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+/**
+ * First protocol version with structured tool output
+ */
+const STRUCTURED_OUTPUT_VERSION = '2025-06-18';
+
+/**
+ * JSON-RPC error codes
+ */
+const JSON_RPC_ERRORS = {
+  parseError: -32700,
+  invalidRequest: -32600,
+  methodNotFound: -32601,
+  invalidParams: -32602,
+  internalError: -32603
+};
+
+/**
+ * A JSON-RPC request or notification
+ */
+interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  id?: string | number | null;
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+/**
+ * Result of a tools/call request
+ */
+interface ToolResult {
+  content: { type: 'text'; text: string }[];
+  structuredContent?: Record<string, unknown>;
+  isError?: boolean;
+}
+
+/**
+ * Model Context Protocol server on stdio.
+ * Reads newline-delimited JSON-RPC messages from the input and writes responses to the output.
+ *
+ * Tools:
+ * - web_search: search with SearchResultScraper and keep the results page open as the session
+ * - fetch_page: load a page with the Crawler and return its main content as text
+ * - expand_question: expand a "People Also Ask" question of the session
+ * - related_search: follow a related search of the session
+ *
+ * Tool calls run one at a time in one shared browser pool; the search session keeps its page
+ * while fetch_page takes another. Searches are saved like the search command's,
+ * below the configured output directory; fetched pages go to its "pages" subdirectory.
+ */
+export class McpServer {
+  private config: ScraperConfig;
+  private input: NodeJS.ReadableStream;
+  private output: NodeJS.WritableStream;
+  private formatter = new ResultFormatter();
+  private pool: BrowserPool;
+  private session: SearchResultScraper | null = null;
+  private toolCalls: Promise<unknown> = Promise.resolve();
+  private structuredOutput = true;
+
+  /**
+   * Create a new McpServer
+   *
+   * @param config Configuration the tool arguments are applied to
+   * @param streams.input Stream to read messages from (default stdin)
+   * @param streams.output Stream to write messages to (default stdout)
+   */
+  constructor(
+    config: ScraperConfig,
+    streams: { input?: NodeJS.ReadableStream; output?: NodeJS.WritableStream } = {}
+  ) {
+    this.config = config;
+    this.input = streams.input || process.stdin;
+    this.output = streams.output || process.stdout;
+    // One page for the search session and one for fetch_page
+    this.pool = new BrowserPool({ headless: config.headless, slowMo: config.slowMo, maxPages: 2 });
+  }
+
+  /**
+   * Answer messages until the input ends, then close the browser.
+   * When writing to stdout, console output is moved to stderr so it can't corrupt the protocol.
+   */
+  async serve(): Promise<void> {
+    const restoreConsole = this.output === process.stdout ? redirectConsole() : () => undefined;
+    const lines = readline.createInterface({ input: this.input, crlfDelay: Infinity });
+    const pending = new Set<Promise<void>>();
+
+    try {
+      await new Promise<void>(resolve => {
+        lines.on('line', line => {
+          if (line.trim() === '') {
+            return;
+          }
+
+          const handled = this.handleMessage(line).then(response => {
+            if (response) {
+              this.output.write(`${JSON.stringify(response)}\n`);
+            }
+          });
+          pending.add(handled);
+          handled.finally(() => pending.delete(handled));
+        });
+        lines.on('close', () => resolve());
+      });
+
+      await Promise.all(pending);
+    } finally {
+      await this.close();
+      restoreConsole();
+    }
+  }
+
+  /**
+   * Handle one JSON-RPC message
+   *
+   * @param message Message text
+   * @returns The response, or null for notifications
+   */
+  async handleMessage(message: string): Promise<Record<string, unknown> | null> {
+    let request: JsonRpcRequest;
+    try {
+      request = JSON.parse(message);
+    } catch (error) {
+      return errorResponse(null, JSON_RPC_ERRORS.parseError, `Parse error: ${error instanceof Error ? error.message : error}`);
+    }
+
+    if (!request || typeof request !== 'object' || Array.isArray(request) || typeof request.method !== 'string') {
+      const id = request && typeof request === 'object' && !Array.isArray(request) ? request.id ?? null : null;
+      return errorResponse(id, JSON_RPC_ERRORS.invalidRequest, 'Invalid request');
+    }
+
+    // Notifications such as notifications/initialized need no answer
+    if (request.id === undefined) {
+      return null;
+    }
+
+    try {
+      const result = await this.dispatch(request.method, request.params || {});
+      return { jsonrpc: '2.0', id: request.id, result };
+    } catch (error) {
+      if (error instanceof JsonRpcError) {
+        return errorResponse(request.id, error.code, error.message);
+      }
+      return errorResponse(request.id, JSON_RPC_ERRORS.internalError, error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  /**
+   * Close the search session and the browser
+   */
+  async close(): Promise<void> {
+    await this.closeSession();
+    await this.pool.close();
+  }
+
+  /**
+   * Run a request method
+   *
+   * @param method Method name
+   * @param params Method parameters
+   */
+  private async dispatch(method: string, params: Record<string, unknown>): Promise<object> {
+    switch (method) {
+      case 'initialize': {
+        const requested = params.protocolVersion as string;
+        const protocolVersion = MCP_PROTOCOL_VERSIONS.includes(requested) ? requested : MCP_PROTOCOL_VERSIONS[0];
+        // Versions are dates, so they compare as strings
+        this.structuredOutput = protocolVersion >= STRUCTURED_OUTPUT_VERSION;
+
+        return {
+          protocolVersion,
+          capabilities: { tools: { listChanged: false } },
+          serverInfo: { name: 'websearchpup', title: 'WebSearchPup', version: getToolVersion() },
+          instructions: 'Call web_search first; expand_question and related_search work on the results of the last search.'
+        };
+      }
+      case 'ping':
+        return {};
+      case 'tools/list':
+        return {
+          tools: MCP_TOOLS.map(({ outputSchema, ...tool }) =>
+            this.structuredOutput && outputSchema ? { ...tool, outputSchema } : tool)
+        };
+      case 'tools/call': {
+        const name = params.name;
+        const tool = MCP_TOOLS.find(candidate => candidate.name === name);
+        if (!tool) {
+          throw new JsonRpcError(JSON_RPC_ERRORS.invalidParams, `Unknown tool: ${name}`);
+        }
+
+        const args = params.arguments ?? {};
+        const errors = validateArguments(tool.inputSchema, args);
+        if (errors.length > 0) {
+          return toolError(`Invalid arguments: ${errors.join('; ')}`);
+        }
+
+        // One tool at a time, they share the session page
+        const call = this.toolCalls.then(() => this.callTool(tool.name, args as Record<string, unknown>));
+        this.toolCalls = call.catch(() => undefined);
+        return call;
+      }
+      default:
+        throw new JsonRpcError(JSON_RPC_ERRORS.methodNotFound, `Method not found: ${method}`);
+    }
+  }
+
+  /**
+   * Run a tool and report failures as tool errors the model can read
+   *
+   * @param name Tool name
+   * @param args Validated arguments
+   */
+  private async callTool(name: string, args: Record<string, unknown>): Promise<ToolResult> {
+    try {
+      let result: ToolResult;
+      switch (name) {
+        case 'web_search':
+          result = await this.webSearch(args);
+          break;
+        case 'fetch_page':
+          result = await this.fetchPage(args);
+          break;
+        case 'expand_question':
+          result = await this.expandQuestion(args.index as number);
+          break;
+        default:
+          result = await this.relatedSearch(args.index as number);
+      }
+
+      if (!this.structuredOutput) {
+        delete result.structuredContent;
+      }
+      return result;
+    } catch (error) {
+      console.error(`[MCP] ${name} failed: ${error}`);
+      return toolError(`${name} failed: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  /**
+   * web_search: search and keep the results page open for the other tools
+   *
+   * @param args Tool arguments
+   */
+  private async webSearch(args: Record<string, unknown>): Promise<ToolResult> {
+    await this.closeSession();
+
+    const config: ScraperConfig = {
+      ...this.config,
+      searchQuery: (args.query as string).trim(),
+      engine: (args.engine as SearchEngineType | undefined) ?? this.config.engine,
+      maxResults: (args.maxResults as number | undefined) ?? this.config.maxResults,
+      maxPages: (args.maxPages as number | undefined) ?? this.config.maxPages,
+      extractOptions: { ...this.config.extractOptions, ...(args.extractOptions as Partial<ExtractOptions> | undefined) }
+    };
+
+    this.session = new SearchResultScraper(config, { pool: this.pool });
+    const { timingData, ...results } = await this.session.search();
+    return this.searchResult(results, this.session.getLastRun()?.runId ?? null);
+  }
+
+  /**
+   * fetch_page: crawl a page and return its main content
+   *
+   * @param args Tool arguments
+   */
+  private async fetchPage(args: Record<string, unknown>): Promise<ToolResult> {
+    const url = args.url as string;
+    if (!/^https?:\/\//i.test(url)) {
+      return toolError(`Invalid URL ${url}, expected an http(s) URL`);
+    }
+
+    const crawler = new Crawler(this.config.headless, this.config.slowMo, { pool: this.pool });
+    try {
+      const { content } = await crawler.crawl(url, path.join(this.config.outputDir, 'pages'), {
+        extractContent: true,
+        waitForSelector: args.waitForSelector as string | undefined,
+        timeout: (args.timeout as number | undefined) ?? this.config.timeout
+      });
+      if (!content) {
+        return toolError(`No content extracted from ${url}`);
+      }
+
+      const maxChars = (args.maxChars as number | undefined) ?? FETCH_PAGE_MAX_CHARS;
+      const page = {
+        url,
+        title: content.title,
+        byline: content.byline,
+        publishedAt: content.publishedAt,
+        excerpt: content.excerpt,
+        text: content.text.substring(0, maxChars),
+        truncated: content.text.length > maxChars
+      };
+
+      const header = [
+        `# ${page.title || url}`,
+        '',
+        `URL: ${url}`,
+        page.byline ? `By: ${page.byline}` : null,
+        page.publishedAt ? `Published: ${page.publishedAt}` : null
+      ].filter(line => line !== null).join('\n');
+      const footer = page.truncated ? `\n\n[Text truncated at ${maxChars} characters]` : '';
+
+      return {
+        content: [{ type: 'text', text: `${header}\n\n${page.text}${footer}` }],
+        structuredContent: page
+      };
+    } finally {
+      await crawler.close();
+    }
+  }
+
+  /**
+   * expand_question: expand a "People Also Ask" question of the session
+   *
+   * @param index Index of the question
+   */
+  private async expandQuestion(index: number): Promise<ToolResult> {
+    const session = this.requireSession();
+    const question = session.getLastResults()?.peopleAlsoAsk?.[index];
+    if (question === undefined) {
+      return toolError(`No "People Also Ask" question at index ${index}`);
+    }
+
+    const answer = await session.expandQuestion(index);
+    if (answer === null) {
+      return toolError(`No answer found for "${question}"`);
+    }
+
+    return { content: [{ type: 'text', text: `Q: ${question}\n\nA: ${answer}` }] };
+  }
+
+  /**
+   * related_search: follow a related search of the session
+   *
+   * @param index Index of the related search
+   */
+  private async relatedSearch(index: number): Promise<ToolResult> {
+    const session = this.requireSession();
+    const related = await session.relatedSearch(index);
+    if (!related) {
+      return toolError(`No related search at index ${index}`);
+    }
+
+    const { timingData, ...results } = related;
+    return this.searchResult(results, null);
+  }
+
+  /**
+   * Build the tool result of a search: Markdown for the model, with the indexes the
+   * session tools take, and the results as structured content
+   *
+   * @param results Search results
+   * @param runId Run the results were saved as
+   */
+  private searchResult(results: SearchResults, runId: string | null): ToolResult {
+    const { pageText, ...rest } = results;
+    let text = this.formatter.format(rest, OutputFormat.MARKDOWN);
+
+    const questions = rest.peopleAlsoAsk || [];
+    if (questions.length > 0) {
+      text += `\n\nQuestions for expand_question:\n${questions.map((question, index) => `[${index}] ${question}`).join('\n')}`;
+    }
+    const related = rest.relatedSearches || [];
+    if (related.length > 0) {
+      text += `\n\nQueries for related_search:\n${related.map((query, index) => `[${index}] ${query}`).join('\n')}`;
+    }
+
+    return {
+      content: [{ type: 'text', text }],
+      structuredContent: { ...rest, runId }
+    };
+  }
+
+  /**
+   * Get the session of the last web_search
+   *
+   * @throws Error if nothing was searched yet
+   */
+  private requireSession(): SearchResultScraper {
+    if (!this.session || !this.session.getLastResults()) {
+      throw new Error('No search yet, call web_search first');
+    }
+    return this.session;
+  }
+
+  /**
+   * Close the page of the last web_search
+   */
+  private async closeSession(): Promise<void> {
+    if (this.session) {
+      await this.session.close().catch(() => undefined);
+      this.session = null;
+    }
+  }
+}
+
+/**
+ * Error answered with a JSON-RPC error code
+ */
+class JsonRpcError extends Error {
+  readonly code: number;
+
+  /**
+   * Create a new JsonRpcError
+   *
+   * @param code JSON-RPC error code
+   * @param message Message returned to the client
+   */
+  constructor(code: number, message: string) {
+    super(message);
+    this.name = 'JsonRpcError';
+    this.code = code;
+  }
+}
+
+/**
+ * Build a JSON-RPC error response
+ *
+ * @param id Request ID
+ * @param code Error code
+ * @param message Error message
+ */
+function errorResponse(id: string | number | null, code: number, message: string): Record<string, unknown> {
+  return { jsonrpc: '2.0', id, error: { code, message } };
+}
+
+/**
+ * Build a tool result reporting a failure
+ *
+ * @param message Message for the model
+ */
+function toolError(message: string): ToolResult {
+  return { content: [{ type: 'text', text: message }], isError: true };
+}
+
+/**
+ * Send console output to stderr, keeping stdout for protocol messages
+ *
+ * @returns Function restoring the console
+ */
+function redirectConsole(): () => void {
+  const original = { log: console.log, info: console.info, debug: console.debug, warn: console.warn };
+  const toStderr = (...args: unknown[]) => console.error(...args);
+
+  console.log = toStderr;
+  console.info = toStderr;
+  console.debug = toStderr;
+  console.warn = toStderr;
+
+  return () => Object.assign(console, original);
+}
@@ -0,0 +1,252 @@
+import { ExtractOptions, JsonSchema, JsonSchemaType, McpToolDefinition, SearchEngineType } from '../config/types';
+import { DEFAULT_CONFIG } from '../config/default-config';
+
+/**
+ * Default number of characters of page text returned by fetch_page
+ */
+export const FETCH_PAGE_MAX_CHARS = 20000;
+
+const nullableString: JsonSchema = { type: ['string', 'null'] };
+
+/**
+ * Schema of SearchResults as returned by web_search and related_search, without the page text
+ */
+export const SEARCH_RESULTS_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    query: { type: 'string' },
+    timestamp: { type: 'string', description: 'ISO 8601 time the results were extracted' },
+    runId: { ...nullableString, description: 'Run the results were saved as, null when they were not saved' },
+    organicResults: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          position: { type: 'integer' },
+          page: { type: 'integer', description: 'Result page the result was found on' },
+          title: nullableString,
+          url: nullableString,
+          rawUrl: { ...nullableString, description: 'URL as found on the page, before redirect decoding' },
+          snippet: nullableString,
+          deepLinks: {
+            type: 'array',
+            items: { type: 'object', properties: { text: nullableString, url: nullableString, rawUrl: nullableString } }
+          }
+        },
+        required: ['position', 'title', 'url', 'snippet']
+      }
+    },
+    featuredSnippets: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { content: nullableString, source: nullableString, url: nullableString, rawUrl: nullableString },
+        required: ['content', 'source']
+      }
+    },
+    peopleAlsoAsk: { type: 'array', items: { type: 'string' }, description: 'Questions, expand them with expand_question' },
+    relatedSearches: { type: 'array', items: { type: 'string' }, description: 'Queries, follow them with related_search' },
+    videos: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { title: nullableString, source: nullableString, duration: nullableString, url: nullableString },
+        required: ['title', 'source', 'duration']
+      }
+    },
+    images: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          src: nullableString,
+          alt: nullableString,
+          title: nullableString,
+          url: nullableString,
+          dimensions: nullableString
+        },
+        required: ['src', 'alt', 'title', 'url', 'dimensions']
+      }
+    }
+  },
+  required: ['query', 'timestamp']
+};
+
+/**
+ * Schema of the page returned by fetch_page
+ */
+export const FETCHED_PAGE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    url: { type: 'string' },
+    title: nullableString,
+    byline: nullableString,
+    publishedAt: nullableString,
+    excerpt: { ...nullableString, description: 'Meta description of the page' },
+    text: { type: 'string', description: 'Main content as plain text, without navigation and other boilerplate' },
+    truncated: { type: 'boolean', description: 'Whether text was cut at maxChars' }
+  },
+  required: ['url', 'title', 'byline', 'publishedAt', 'excerpt', 'text', 'truncated']
+};
+
+/**
+ * Index argument of the tools that work on the last search
+ *
+ * @param list Name of the list in the search results
+ */
+function indexSchema(list: string): JsonSchema {
+  return {
+    type: 'object',
+    properties: {
+      index: { type: 'integer', minimum: 0, description: `0-based index in ${list} of the last search results` }
+    },
+    required: ['index'],
+    additionalProperties: false
+  };
+}
+
+/**
+ * Tools offered by the MCP server. The search arguments mirror ScraperConfig.
+ */
+export const MCP_TOOLS: McpToolDefinition[] = [
+  {
+    name: 'web_search',
+    title: 'Web search',
+    description: 'Search the web and return organic results, featured snippets, "People Also Ask" questions, ' +
+      'related searches, videos and images. Starts a session that expand_question and related_search work on.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', minLength: 1, description: 'Search query' },
+        engine: {
+          type: 'string',
+          enum: Object.values(SearchEngineType),
+          description: `Search engine (default ${DEFAULT_CONFIG.engine})`
+        },
+        maxResults: { type: 'integer', minimum: 1, description: 'Stop once this many organic results were collected' },
+        maxPages: { type: 'integer', minimum: 1, description: 'Number of result pages to read (default 1)' },
+        extractOptions: {
+          type: 'object',
+          description: 'Sections to extract; sections left out use the server settings',
+          properties: Object.fromEntries(
+            Object.keys(DEFAULT_CONFIG.extractOptions as ExtractOptions).map(key => [key, { type: 'boolean' } as JsonSchema])
+          ),
+          additionalProperties: false
+        }
+      },
+      required: ['query'],
+      additionalProperties: false
+    },
+    outputSchema: SEARCH_RESULTS_SCHEMA
+  },
+  {
+    name: 'fetch_page',
+    title: 'Fetch page',
+    description: 'Load a web page in the browser and return its main content as plain text, without navigation, ' +
+      'banners and other boilerplate.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        url: { type: 'string', minLength: 1, description: 'http(s) URL of the page' },
+        maxChars: {
+          type: 'integer',
+          minimum: 1,
+          default: FETCH_PAGE_MAX_CHARS,
+          description: `Maximum characters of text to return (default ${FETCH_PAGE_MAX_CHARS})`
+        },
+        waitForSelector: { type: 'string', minLength: 1, description: 'CSS selector to wait for before reading the page' },
+        timeout: { type: 'integer', minimum: 1, description: 'Navigation timeout in milliseconds' }
+      },
+      required: ['url'],
+      additionalProperties: false
+    },
+    outputSchema: FETCHED_PAGE_SCHEMA
+  },
+  {
+    name: 'expand_question',
+    title: 'Expand question',
+    description: 'Expand a "People Also Ask" question of the last web_search and return its answer.',
+    inputSchema: indexSchema('peopleAlsoAsk')
+  },
+  {
+    name: 'related_search',
+    title: 'Related search',
+    description: 'Follow a related search of the last web_search and return its results. ' +
+      'The session continues on the new results page.',
+    inputSchema: indexSchema('relatedSearches'),
+    outputSchema: SEARCH_RESULTS_SCHEMA
+  }
+];
+
+/**
+ * Check a value against a schema
+ *
+ * @param schema Schema to check against
+ * @param value Value to check
+ * @param label Name of the value in error messages
+ * @returns Error messages, empty if the value is valid
+ */
+export function validateArguments(schema: JsonSchema, value: unknown, label: string = 'arguments'): string[] {
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const actual = typeOf(value);
+    // Integers are numbers too
+    if (!types.includes(actual) && !(actual === 'integer' && types.includes('number'))) {
+      return [`${label} must be ${types.join(' or ')}`];
+    }
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string)) {
+    return [`${label} must be one of: ${schema.enum.join(', ')}`];
+  }
+  if (schema.minimum !== undefined && typeof value === 'number' && value < schema.minimum) {
+    return [`${label} must be at least ${schema.minimum}`];
+  }
+  if (schema.minLength !== undefined && typeof value === 'string' && value.trim().length < schema.minLength) {
+    return [`${label} must not be empty`];
+  }
+
+  const errors: string[] = [];
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => errors.push(...validateArguments(schema.items as JsonSchema, item, `${label}[${index}]`)));
+  }
+
+  if (typeOf(value) === 'object') {
+    const object = value as Record<string, unknown>;
+    const properties = schema.properties || {};
+
+    for (const key of schema.required || []) {
+      if (object[key] === undefined) {
+        errors.push(`${label}.${key} is required`);
+      }
+    }
+    for (const [key, item] of Object.entries(object)) {
+      if (Object.prototype.hasOwnProperty.call(properties, key)) {
+        errors.push(...validateArguments(properties[key], item, `${label}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${label}.${key} is not a known argument`);
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Get the JSON Schema type of a value
+ *
+ * @param value Value to check
+ */
+function typeOf(value: unknown): JsonSchemaType {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? 'integer' : 'number';
+  }
+  return typeof value as JsonSchemaType;
+}
@@ -0,0 +1,259 @@
+import { SearchResults, ContextPack, ContextPackOptions, ContextSource } from '../config/types';
+import { CONTEXT_PACK_DEFAULTS } from '../config/default-config';
+
+/**
+ * Excerpts shorter than this are left out rather than squeezed into the budget
+ */
+const MIN_EXCERPT_LENGTH = 200;
+
+/**
+ * Packs search results into a citation-numbered bundle for LLM prompts.
+ * The budget applies to the Markdown rendering. Content is added in order of
+ * importance and stops when the budget is used up:
+ * answers, sources in ranking order, questions, related searches and finally
+ * excerpts of followed-up pages, again in ranking order.
+ */
+export class ContextPackBuilder {
+  private options: ContextPackOptions;
+
+  /**
+   * Create a new ContextPackBuilder
+   *
+   * @param options Budget options, missing values use CONTEXT_PACK_DEFAULTS
+   */
+  constructor(options: Partial<ContextPackOptions> = {}) {
+    this.options = { ...CONTEXT_PACK_DEFAULTS, ...options };
+  }
+
+  /**
+   * Get the budget in characters, or null if there is no limit
+   */
+  getCharBudget(): number | null {
+    const limits: number[] = [];
+    if (this.options.maxChars !== null) {
+      limits.push(this.options.maxChars);
+    }
+    if (this.options.maxTokens !== null) {
+      limits.push(this.options.maxTokens * this.options.charsPerToken);
+    }
+    return limits.length > 0 ? Math.min(...limits) : null;
+  }
+
+  /**
+   * Build a context pack from search results
+   *
+   * @param results Search results to pack
+   */
+  build(results: SearchResults): ContextPack {
+    const budget = this.getCharBudget();
+    const limit = budget !== null ? budget : Infinity;
+
+    const pack: ContextPack = {
+      query: results.query,
+      timestamp: results.timestamp,
+      answers: [],
+      sources: [],
+      questions: [],
+      relatedSearches: [],
+      budget: { maxChars: budget, usedChars: 0, estimatedTokens: 0 },
+      truncated: false
+    };
+
+    const fits = () => this.toMarkdown(pack).length <= limit;
+    const seenTexts = new Set<string>();
+
+    // Number the organic results by rank, skipping duplicate URLs
+    const candidates = (results.organicResults || []).filter((result, index, all) =>
+      result.url && all.findIndex(other => other.url === result.url) === index
+    );
+    const idByUrl = new Map(candidates.map((result, index) => [result.url as string, index + 1]));
+
+    // Answers from featured snippets
+    for (const snippet of results.featuredSnippets || []) {
+      const text = collapseWhitespace(snippet.content);
+      if (!text || seenTexts.has(normalizeText(text))) {
+        continue;
+      }
+
+      pack.answers.push({ text, sourceId: (snippet.url && idByUrl.get(snippet.url)) || null });
+      if (!fits()) {
+        pack.answers.pop();
+        pack.truncated = true;
+        break;
+      }
+      seenTexts.add(normalizeText(text));
+    }
+
+    // Sources in ranking order, stopping at the first that doesn't fit so numbers stay contiguous
+    for (const result of candidates) {
+      const snippet = collapseWhitespace(result.snippet);
+      const duplicate = !snippet || seenTexts.has(normalizeText(snippet));
+
+      pack.sources.push({
+        id: pack.sources.length + 1,
+        title: collapseWhitespace(result.title) || null,
+        url: result.url as string,
+        snippet: duplicate ? null : snippet,
+        content: null,
+        contentTruncated: false
+      });
+      if (!fits()) {
+        pack.sources.pop();
+        pack.truncated = true;
+        break;
+      }
+      if (!duplicate) {
+        seenTexts.add(normalizeText(snippet));
+      }
+    }
+
+    // Drop citations of sources that didn't make it into the pack
+    for (const answer of pack.answers) {
+      if (answer.sourceId !== null && answer.sourceId > pack.sources.length) {
+        answer.sourceId = null;
+      }
+    }
+
+    // Questions and related searches
+    for (const [list, items] of [
+      [pack.questions, results.peopleAlsoAsk || []],
+      [pack.relatedSearches, results.relatedSearches || []]
+    ] as [string[], string[]][]) {
+      for (const item of items) {
+        const text = collapseWhitespace(item);
+        if (!text || list.includes(text)) {
+          continue;
+        }
+
+        list.push(text);
+        if (!fits()) {
+          list.pop();
+          pack.truncated = true;
+          break;
+        }
+      }
+    }
+
+    // Excerpts of followed-up pages, top-ranked sources first
+    for (const source of pack.sources) {
+      const result = candidates[source.id - 1];
+      const followUp = result.followUpResults;
+      const text = followUp && !followUp.error ? followUp.text.trim() : '';
+      if (!text) {
+        continue;
+      }
+
+      // Measure the space left with an empty excerpt in place
+      source.content = '';
+      const room = limit - this.toMarkdown(pack).length;
+      const maxLength = Math.min(this.options.maxSourceChars, room);
+
+      if (maxLength < Math.min(MIN_EXCERPT_LENGTH, text.length)) {
+        source.content = null;
+        pack.truncated = true;
+        continue;
+      }
+
+      source.content = truncateText(text, maxLength);
+      source.contentTruncated = source.content.length < text.length;
+      if (source.contentTruncated) {
+        pack.truncated = true;
+      }
+    }
+
+    pack.budget.usedChars = this.toMarkdown(pack).length;
+    pack.budget.estimatedTokens = Math.ceil(pack.budget.usedChars / this.options.charsPerToken);
+
+    return pack;
+  }
+
+  /**
+   * Render a context pack as Markdown
+   *
+   * @param pack Context pack to render
+   */
+  toMarkdown(pack: ContextPack): string {
+    const sections: string[] = [
+      `# Search context for "${pack.query}"`,
+      `Search results retrieved on ${pack.timestamp}. Cite sources by their number, e.g. [1].`
+    ];
+
+    if (pack.answers.length > 0) {
+      sections.push('## Answers');
+      sections.push(pack.answers
+        .map(answer => `- ${answer.text}${answer.sourceId !== null ? ` [${answer.sourceId}]` : ''}`)
+        .join('\n'));
+    }
+
+    if (pack.sources.length > 0) {
+      sections.push('## Sources');
+      sections.push(...pack.sources.map(source => this.formatSource(source)));
+    }
+
+    if (pack.questions.length > 0) {
+      sections.push('## People also ask');
+      sections.push(pack.questions.map(question => `- ${question}`).join('\n'));
+    }
+
+    if (pack.relatedSearches.length > 0) {
+      sections.push('## Related searches');
+      sections.push(pack.relatedSearches.map(search => `- ${search}`).join('\n'));
+    }
+
+    return sections.join('\n\n') + '\n';
+  }
+
+  /**
+   * Render a single source
+   *
+   * @param source Source to render
+   */
+  private formatSource(source: ContextSource): string {
+    const lines = [`### [${source.id}] ${source.title || source.url}`, source.url];
+
+    if (source.snippet) {
+      lines.push('', source.snippet);
+    }
+
+    if (source.content !== null) {
+      lines.push('', 'Page excerpt:', '', source.content);
+    }
+
+    return lines.join('\n');
+  }
+}
+
+/**
+ * Collapse runs of whitespace into single spaces
+ *
+ * @param text Text to collapse
+ */
+function collapseWhitespace(text: string | null | undefined): string {
+  return (text || '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Normalize text for duplicate detection
+ *
+ * @param text Text to normalize
+ */
+function normalizeText(text: string): string {
+  return text.toLowerCase().replace(/[\s.…]+$/, '').replace(/\s+/g, ' ');
+}
+
+/**
+ * Shorten text to at most maxLength characters, cutting at a word boundary
+ *
+ * @param text Text to shorten
+ * @param maxLength Maximum length including the ellipsis
+ */
+function truncateText(text: string, maxLength: number): string {
+  if (text.length <= maxLength) {
+    return text;
+  }
+
+  const cut = text.slice(0, maxLength - 1);
+  const boundary = cut.search(/\s\S*$/);
+  const shortened = boundary > maxLength / 2 ? cut.slice(0, boundary) : cut;
+  return shortened.trimEnd() + '…';
+}
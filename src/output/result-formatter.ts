@@ -1,16 +1,40 @@
-import { SearchResults, OutputFormat } from '../config/types';
+import { SearchResults, OutputFormat, ContextPackOptions, HtmlReportAssets } from '../config/types';
+import { ContextPackBuilder } from './context-pack';
+import { escapeCsvField } from '../utils/csv';
+
+/**
+ * Columns of the CSV output, shared by every result type
+ */
+const CSV_COLUMNS = ['query', 'timestamp', 'type', 'position', 'title', 'url', 'snippet', 'source', 'duration', 'extra'] as const;
+
+/**
+ * A CSV row, missing columns are left empty
+ */
+type CsvRow = Partial<Record<typeof CSV_COLUMNS[number], string | number | null>>;
 
 /**
  * Formats search results into different output formats
  */
 export class ResultFormatter {
+  private contextPackBuilder: ContextPackBuilder;
+
+  /**
+   * Create a new ResultFormatter
+   * 
+   * @param options.contextPack Budget for the context output formats
+   */
+  constructor(options: { contextPack?: Partial<ContextPackOptions> } = {}) {
+    this.contextPackBuilder = new ContextPackBuilder(options.contextPack);
+  }
+
   /**
    * Format search results based on the specified output format
    * 
    * @param results Search results to format
    * @param format Output format
+   * @param assets Screenshot and timing data embedded in the HTML report
    */
-  format(results: SearchResults, format: OutputFormat): string {
+  format(results: SearchResults, format: OutputFormat, assets: HtmlReportAssets = {}): string {
     switch (format) {
       case OutputFormat.JSON:
         return this.formatAsJson(results);
@@ -19,7 +43,15 @@ export class ResultFormatter {
       case OutputFormat.CSV:
         return this.formatAsCsv(results);
       case OutputFormat.HTML:
-        return this.formatAsHtml(results);
+        return this.formatAsHtml(results, assets);
+      case OutputFormat.MARKDOWN:
+        return this.formatAsMarkdown(results);
+      case OutputFormat.JSONL:
+        return this.formatAsJsonl(results);
+      case OutputFormat.CONTEXT:
+        return this.contextPackBuilder.toMarkdown(this.contextPackBuilder.build(results));
+      case OutputFormat.CONTEXT_JSON:
+        return JSON.stringify(this.contextPackBuilder.build(results), null, 2);
       default:
         throw new Error(`Unsupported output format: ${format}`);
     }
@@ -143,61 +175,310 @@ export class ResultFormatter {
   }
 
   /**
-   * Format search results as CSV
+   * Format search results as CSV (RFC 4180).
+   * Every result type shares the columns in CSV_COLUMNS.
    * 
    * @param results Search results to format
    */
   private formatAsCsv(results: SearchResults): string {
-    let csv = '';
+    const rows = Object.values(this.getCsvSections(results)).flat();
+    return this.toCsv(rows);
+  }
+
+  /**
+   * Format search results as one CSV document per result section.
+   * Sections without results are left out.
+   * 
+   * @param results Search results to format
+   * @returns CSV documents keyed by section name, e.g. "organic" or "people-also-ask"
+   */
+  formatCsvSections(results: SearchResults): Record<string, string> {
+    const documents: Record<string, string> = {};
+    
+    for (const [section, rows] of Object.entries(this.getCsvSections(results))) {
+      if (rows.length > 0) {
+        documents[section] = this.toCsv(rows);
+      }
+    }
+    
+    return documents;
+  }
+
+  /**
+   * Map every result section to CSV rows
+   * 
+   * @param results Search results to map
+   */
+  private getCsvSections(results: SearchResults): Record<string, CsvRow[]> {
+    const base = { query: results.query, timestamp: results.timestamp };
+    
+    return {
+      'organic': (results.organicResults || []).map(result => ({
+        ...base,
+        type: 'organic',
+        position: result.position,
+        title: result.title,
+        url: result.url,
+        snippet: result.snippet,
+        extra: this.csvExtra({
+          page: result.page,
+          deepLinks: result.deepLinks && result.deepLinks.length > 0
+            ? result.deepLinks.map(link => ({ text: link.text, url: link.url }))
+            : undefined
+        })
+      })),
+      'featured-snippets': (results.featuredSnippets || []).map((snippet, index) => ({
+        ...base,
+        type: 'featuredSnippet',
+        position: index + 1,
+        url: snippet.url,
+        snippet: snippet.content,
+        source: snippet.source
+      })),
+      'people-also-ask': (results.peopleAlsoAsk || []).map((question, index) => ({
+        ...base,
+        type: 'peopleAlsoAsk',
+        position: index + 1,
+        title: question
+      })),
+      'related-searches': (results.relatedSearches || []).map((search, index) => ({
+        ...base,
+        type: 'relatedSearch',
+        position: index + 1,
+        title: search
+      })),
+      'videos': (results.videos || []).map((video, index) => ({
+        ...base,
+        type: 'video',
+        position: index + 1,
+        title: video.title,
+        url: video.url,
+        source: video.source,
+        duration: video.duration
+      })),
+      'images': (results.images || []).map((image, index) => ({
+        ...base,
+        type: 'image',
+        position: index + 1,
+        title: image.title,
+        url: image.url,
+        extra: this.csvExtra({ src: image.src, alt: image.alt, dimensions: image.dimensions })
+      }))
+    };
+  }
+
+  /**
+   * Serialize type-specific fields for the extra column
+   * 
+   * @param fields Fields to serialize, null and undefined values are left out
+   */
+  private csvExtra(fields: Record<string, unknown>): string | null {
+    const defined = Object.entries(fields).filter(([, value]) => value !== null && value !== undefined);
+    return defined.length > 0 ? JSON.stringify(Object.fromEntries(defined)) : null;
+  }
+
+  /**
+   * Serialize rows as CSV with a header row and CRLF line endings
+   * 
+   * @param rows Rows to serialize
+   */
+  private toCsv(rows: CsvRow[]): string {
+    const lines = [CSV_COLUMNS.join(',')];
+    
+    rows.forEach(row => {
+      lines.push(CSV_COLUMNS.map(column => {
+        const value = row[column];
+        return value === null || value === undefined ? '' : escapeCsvField(String(value));
+      }).join(','));
+    });
     
+    return lines.join('\r\n') + '\r\n';
+  }
+
+  /**
+   * Format search results as a self-contained interactive HTML report.
+   * Sections are collapsible, a filter box hides non-matching items, and the
+   * screenshot and timing chart are included when assets provide them.
+   * Image thumbnails are only shown when they are inlined as data URLs, so the
+   * report loads nothing from the network.
+   *
+   * @param results Search results to format
+   * @param assets Screenshot and timing data to embed
+   */
+  private formatAsHtml(results: SearchResults, assets: HtmlReportAssets = {}): string {
+    const sections: { id: string; title: string; count: number; body: string }[] = [];
+
     // Add organic results
     if (results.organicResults && results.organicResults.length > 0) {
-      csv += 'Type,Position,Title,URL,Snippet\n';
-      
+      let body = '';
+
       results.organicResults.forEach(result => {
-        csv += `Organic,${result.position},"${this.escapeCsvField(result.title || '')}","${this.escapeCsvField(result.url || '')}","${this.escapeCsvField(result.snippet || '')}"\n`;
+        body += `<div class="result filterable">
+          <div class="title">${this.htmlLink(result.title || result.url || 'N/A', result.url)}</div>
+          <div class="url">${this.escapeHtml(result.url || 'N/A')}</div>
+          <div class="snippet">${this.escapeHtml(result.snippet || 'N/A')}</div>`;
+
+        if (result.deepLinks && result.deepLinks.length > 0) {
+          body += `<div class="deep-links">`;
+          result.deepLinks.forEach(link => {
+            body += `<div class="deep-link">${this.htmlLink(link.text || 'Link', link.url)}</div>`;
+          });
+          body += `</div>`;
+        }
+
+        // Add the followed-up page
+        const followUp = result.followUpResults;
+        if (followUp) {
+          const details = [
+            followUp.statusCode !== null ? `HTTP ${followUp.statusCode}` : null,
+            followUp.byline,
+            followUp.publishedAt
+          ].filter(Boolean).map(detail => this.escapeHtml(detail as string)).join(' • ');
+
+          body += `<details class="follow-up">
+            <summary>Page excerpt${details ? ` <span class="meta">${details}</span>` : ''}</summary>
+            ${followUp.error
+              ? `<p class="meta">Could not load page: ${this.escapeHtml(followUp.error)}</p>`
+              : `<p class="excerpt">${this.escapeHtml(this.excerpt(followUp.text, 1000))}</p>`}
+          </details>`;
+        }
+
+        body += `</div>`;
       });
-      
-      // Add a blank line between sections
-      csv += '\n';
+
+      sections.push({ id: 'organic', title: 'Organic Search Results', count: results.organicResults.length, body });
     }
-    
+
     // Add featured snippets
     if (results.featuredSnippets && results.featuredSnippets.length > 0) {
-      csv += 'Type,Content,Source,URL\n';
-      
-      results.featuredSnippets.forEach((snippet, index) => {
-        csv += `Featured,${index + 1},"${this.escapeCsvField(snippet.content || '')}","${this.escapeCsvField(snippet.source || '')}","${this.escapeCsvField(snippet.url || '')}"\n`;
+      let body = '';
+
+      results.featuredSnippets.forEach(snippet => {
+        body += `<div class="featured filterable">
+          <div>${this.escapeHtml(snippet.content || 'N/A')}</div>
+          ${snippet.source || snippet.url ? `<div class="meta">Source: ${this.htmlLink(snippet.source || snippet.url || '', snippet.url)}</div>` : ''}
+        </div>`;
       });
-      
-      // Add a blank line between sections
-      csv += '\n';
+
+      sections.push({ id: 'featured-snippets', title: 'Featured Snippets', count: results.featuredSnippets.length, body });
     }
-    
+
+    // Add "People Also Ask" questions
+    if (results.peopleAlsoAsk && results.peopleAlsoAsk.length > 0) {
+      let body = `<ul class="questions">`;
+
+      results.peopleAlsoAsk.forEach(question => {
+        body += `<li class="filterable">${this.escapeHtml(question)}</li>`;
+      });
+
+      body += `</ul>`;
+      sections.push({ id: 'people-also-ask', title: 'People Also Ask', count: results.peopleAlsoAsk.length, body });
+    }
+
+    // Add related searches
+    if (results.relatedSearches && results.relatedSearches.length > 0) {
+      let body = `<ul class="related">`;
+
+      results.relatedSearches.forEach(search => {
+        body += `<li class="filterable">${this.escapeHtml(search)}</li>`;
+      });
+
+      body += `</ul>`;
+      sections.push({ id: 'related-searches', title: 'Related Searches', count: results.relatedSearches.length, body });
+    }
+
     // Add video results
     if (results.videos && results.videos.length > 0) {
-      csv += 'Type,Title,Source,Duration,URL\n';
-      
-      results.videos.forEach((video, index) => {
-        csv += `Video,${index + 1},"${this.escapeCsvField(video.title || '')}","${this.escapeCsvField(video.source || '')}","${this.escapeCsvField(video.duration || '')}","${this.escapeCsvField(video.url || '')}"\n`;
+      let body = '';
+
+      results.videos.forEach(video => {
+        body += `<div class="video filterable">
+          <div class="video-thumbnail">▶</div>
+          <div class="video-info">
+            <div class="title">${this.htmlLink(video.title || 'N/A', video.url)}</div>
+            <div class="meta">
+              ${video.source ? `${this.escapeHtml(video.source)}` : ''}
+              ${video.duration ? ` • ${this.escapeHtml(video.duration)}` : ''}
+            </div>
+          </div>
+        </div>`;
       });
+
+      sections.push({ id: 'videos', title: 'Video Results', count: results.videos.length, body });
+    }
+
+    // Add image results
+    if (results.images && results.images.length > 0) {
+      let body = `<div class="image-grid">`;
+
+      results.images.forEach(image => {
+        const label = image.title || image.alt || 'Image';
+        // Only thumbnails the engine inlined are shown, remote ones would need the network
+        const thumbnail = image.src && /^data:image\//i.test(image.src.trim())
+          ? `<img class="thumbnail" src="${this.escapeHtml(image.src)}" alt="${this.escapeHtml(image.alt || '')}">`
+          : `<div class="image-placeholder">No preview</div>`;
+
+        body += `<div class="image-item filterable">
+          ${image.url && this.isSafeUrl(image.url) ? `<a href="${this.escapeHtml(image.url)}">${thumbnail}</a>` : thumbnail}
+          <div class="title">${this.escapeHtml(label)}</div>
+          ${image.dimensions ? `<div class="meta">${this.escapeHtml(image.dimensions)}</div>` : ''}
+        </div>`;
+      });
+
+      body += `</div>`;
+      sections.push({ id: 'images', title: 'Image Results', count: results.images.length, body });
+    }
+
+    // Add the screenshot of the results page
+    if (assets.screenshot) {
+      sections.push({
+        id: 'screenshot',
+        title: 'Screenshot',
+        count: 1,
+        body: `<img class="screenshot" src="data:image/png;base64,${assets.screenshot}" alt="Screenshot of the search results page">`
+      });
+    }
+
+    // Add the timing chart
+    if (assets.timingData) {
+      const groups = [
+        { label: 'Steps', values: assets.timingData.steps },
+        { label: 'Extraction steps', values: assets.timingData.extractionSteps }
+      ];
+      let body = '';
+
+      groups.forEach(group => {
+        const entries = Object.entries(group.values || {})
+          .filter((entry): entry is [string, number] => typeof entry[1] === 'number');
+        if (entries.length === 0) {
+          return;
+        }
+
+        const max = Math.max(...entries.map(([, time]) => time)) || 1;
+        body += `<h3>${group.label}</h3><div class="timing-chart">`;
+        entries.forEach(([step, time]) => {
+          // Convert camelCase to Title Case with spaces
+          const label = step.replace(/([A-Z])/g, ' $1').replace(/^./, str => str.toUpperCase());
+          body += `<div class="timing-row">
+            <span class="timing-label">${this.escapeHtml(label)}</span>
+            <span class="timing-bar"><span style="width: ${((time / max) * 100).toFixed(1)}%"></span></span>
+            <span class="timing-value">${this.formatDuration(time)}</span>
+          </div>`;
+        });
+        body += `</div>`;
+      });
+
+      if (body) {
+        sections.push({ id: 'timing', title: 'Timing', count: Object.keys(assets.timingData.steps || {}).length, body });
+      }
     }
-    
-    return csv;
-  }
 
-  /**
-   * Format search results as HTML
-   * 
-   * @param results Search results to format
-   */
-  private formatAsHtml(results: SearchResults): string {
     let html = `<!DOCTYPE html>
 <html>
 <head>
   <meta charset="UTF-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>Search Results for "${results.query}"</title>
+  <title>Search Results for "${this.escapeHtml(results.query)}"</title>
   <style>
     body {
       font-family: Arial, sans-serif;
@@ -211,9 +492,38 @@ export class ResultFormatter {
       border-bottom: 1px solid #eee;
       padding-bottom: 10px;
     }
-    h2 {
+    nav {
+      position: sticky;
+      top: 0;
+      background: #fff;
+      padding: 10px 0;
+      border-bottom: 1px solid #eee;
+      z-index: 1;
+    }
+    nav a {
+      margin-right: 15px;
       color: #1a73e8;
+      text-decoration: none;
+    }
+    #filter {
+      display: block;
+      width: 100%;
+      max-width: 400px;
+      margin-top: 10px;
+      padding: 6px 10px;
+      font-size: 14px;
+      border: 1px solid #ccc;
+      border-radius: 4px;
+    }
+    details.section > summary {
+      color: #1a73e8;
+      font-size: 1.5em;
+      font-weight: bold;
       margin-top: 30px;
+      cursor: pointer;
+    }
+    a {
+      color: #1a0dab;
     }
     .result {
       margin-bottom: 20px;
@@ -233,6 +543,7 @@ export class ResultFormatter {
       color: #006621;
       font-size: 14px;
       margin: 0 0 8px 0;
+      word-break: break-all;
     }
     .snippet {
       color: #545454;
@@ -246,6 +557,18 @@ export class ResultFormatter {
       font-size: 13px;
       color: #1a0dab;
     }
+    .follow-up {
+      margin-top: 10px;
+      font-size: 14px;
+    }
+    .follow-up summary {
+      cursor: pointer;
+      color: #1a73e8;
+    }
+    .excerpt {
+      white-space: pre-line;
+      color: #545454;
+    }
     .featured {
       background-color: #f8f9fa;
       padding: 15px;
@@ -286,6 +609,12 @@ export class ResultFormatter {
       transform: scale(1.03);
       box-shadow: 0 2px 5px rgba(0,0,0,0.1);
     }
+    .thumbnail {
+      width: 100%;
+      height: 150px;
+      object-fit: cover;
+      margin-bottom: 10px;
+    }
     .image-placeholder {
       width: 100%;
       height: 150px;
@@ -296,6 +625,10 @@ export class ResultFormatter {
       color: #70757a;
       margin-bottom: 10px;
     }
+    .screenshot {
+      max-width: 100%;
+      border: 1px solid #eee;
+    }
     .meta {
       color: #70757a;
       font-size: 13px;
@@ -308,95 +641,256 @@ export class ResultFormatter {
       padding: 8px 0;
       border-bottom: 1px solid #eee;
     }
+    .timing-row {
+      display: flex;
+      align-items: center;
+      font-size: 13px;
+      margin: 4px 0;
+    }
+    .timing-label {
+      width: 220px;
+    }
+    .timing-bar {
+      flex: 1;
+      background-color: #f1f3f4;
+      height: 12px;
+      margin: 0 10px;
+    }
+    .timing-bar span {
+      display: block;
+      height: 100%;
+      background-color: #1a73e8;
+    }
+    .timing-value {
+      width: 80px;
+      text-align: right;
+    }
+    .hidden {
+      display: none !important;
+    }
   </style>
 </head>
 <body>
   <h1>Search Results for "${this.escapeHtml(results.query)}"</h1>
-  <p>Extracted on: ${results.timestamp}</p>
+  <p>Extracted on: ${this.escapeHtml(results.timestamp)}</p>
+  <nav>
+    ${sections.map(section => `<a href="#${section.id}">${section.title} (${section.count})</a>`).join('\n    ')}
+    <input id="filter" type="search" placeholder="Filter results..." aria-label="Filter results">
+  </nav>
+`;
+
+    sections.forEach(section => {
+      html += `<details class="section" id="${section.id}" open>
+  <summary>${section.title} (${section.count})</summary>
+  ${section.body}
+</details>
 `;
+    });
 
+    html += `<script>
+    // Hide result items that don't contain the filter text
+    document.getElementById('filter').addEventListener('input', function (event) {
+      var filter = event.target.value.toLowerCase();
+      document.querySelectorAll('.filterable').forEach(function (item) {
+        item.classList.toggle('hidden', filter !== '' && item.textContent.toLowerCase().indexOf(filter) === -1);
+      });
+    });
+  </script>
+</body>
+</html>`;
+
+    return html;
+  }
+
+  /**
+   * Format search results as a Markdown report
+   * 
+   * @param results Search results to format
+   */
+  private formatAsMarkdown(results: SearchResults): string {
+    let markdown = `# Search Results for "${this.escapeMarkdown(results.query)}"\n\n`;
+    markdown += `Extracted on: ${results.timestamp}\n`;
+    
     // Add organic results
     if (results.organicResults && results.organicResults.length > 0) {
-      html += `<h2>Organic Search Results (${results.organicResults.length})</h2>`;
+      markdown += `\n## Organic Search Results (${results.organicResults.length})\n`;
       
       results.organicResults.forEach(result => {
-        html += `<div class="result">
-          <div class="title">${this.escapeHtml(result.title || 'N/A')}</div>
-          <div class="url">${this.escapeHtml(result.url || 'N/A')}</div>
-          <div class="snippet">${this.escapeHtml(result.snippet || 'N/A')}</div>`;
+        markdown += `\n### ${result.position}. ${this.markdownLink(result.title || 'N/A', result.url)}\n\n`;
+        
+        if (result.snippet) {
+          markdown += `${this.escapeMarkdown(result.snippet)}\n`;
+        }
         
         if (result.deepLinks && result.deepLinks.length > 0) {
-          html += `<div class="deep-links">`;
+          markdown += '\n';
           result.deepLinks.forEach(link => {
-            html += `<div class="deep-link">
-              <a href="${this.escapeHtml(link.url || '#')}">${this.escapeHtml(link.text || 'Link')}</a>
-            </div>`;
+            markdown += `- ${this.markdownLink(link.text || 'Link', link.url)}\n`;
           });
-          html += `</div>`;
         }
-        
-        html += `</div>`;
       });
     }
     
     // Add featured snippets
     if (results.featuredSnippets && results.featuredSnippets.length > 0) {
-      html += `<h2>Featured Snippets (${results.featuredSnippets.length})</h2>`;
+      markdown += `\n## Featured Snippets (${results.featuredSnippets.length})\n`;
       
       results.featuredSnippets.forEach(snippet => {
-        html += `<div class="featured">
-          <div>${this.escapeHtml(snippet.content || 'N/A')}</div>
-          ${snippet.source ? `<div class="meta">Source: ${this.escapeHtml(snippet.source)}</div>` : ''}
-        </div>`;
+        markdown += `\n> ${this.escapeMarkdown(snippet.content || 'N/A')}\n`;
+        if (snippet.source || snippet.url) {
+          markdown += `\nSource: ${this.markdownLink(snippet.source || snippet.url || '', snippet.url)}\n`;
+        }
       });
     }
     
     // Add "People Also Ask" questions
     if (results.peopleAlsoAsk && results.peopleAlsoAsk.length > 0) {
-      html += `<h2>People Also Ask (${results.peopleAlsoAsk.length})</h2>
-      <ul class="questions">`;
+      markdown += `\n## People Also Ask (${results.peopleAlsoAsk.length})\n\n`;
       
       results.peopleAlsoAsk.forEach(question => {
-        html += `<li>${this.escapeHtml(question)}</li>`;
+        markdown += `- ${this.escapeMarkdown(question)}\n`;
       });
-      
-      html += `</ul>`;
     }
     
     // Add related searches
     if (results.relatedSearches && results.relatedSearches.length > 0) {
-      html += `<h2>Related Searches (${results.relatedSearches.length})</h2>
-      <ul class="related">`;
+      markdown += `\n## Related Searches (${results.relatedSearches.length})\n\n`;
       
       results.relatedSearches.forEach(search => {
-        html += `<li>${this.escapeHtml(search)}</li>`;
+        markdown += `- ${this.escapeMarkdown(search)}\n`;
       });
-      
-      html += `</ul>`;
     }
     
     // Add video results
     if (results.videos && results.videos.length > 0) {
-      html += `<h2>Video Results (${results.videos.length})</h2>`;
+      markdown += `\n## Video Results (${results.videos.length})\n\n`;
+      markdown += '| # | Title | Source | Duration |\n';
+      markdown += '| --- | --- | --- | --- |\n';
       
-      results.videos.forEach(video => {
-        html += `<div class="video">
-          <div class="video-thumbnail">▶</div>
-          <div class="video-info">
-            <div class="title">${this.escapeHtml(video.title || 'N/A')}</div>
-            <div class="meta">
-              ${video.source ? `${this.escapeHtml(video.source)}` : ''}
-              ${video.duration ? ` • ${this.escapeHtml(video.duration)}` : ''}
-            </div>
-          </div>
-        </div>`;
+      results.videos.forEach((video, index) => {
+        markdown += `| ${index + 1} | ${this.markdownLink(video.title || 'N/A', video.url)} | ${this.escapeMarkdown(video.source || '')} | ${this.escapeMarkdown(video.duration || '')} |\n`;
       });
     }
     
-    html += `</body>
-</html>`;
+    // Add image results
+    if (results.images && results.images.length > 0) {
+      markdown += `\n## Image Results (${results.images.length})\n\n`;
+      markdown += '| # | Title | Alt Text | Dimensions |\n';
+      markdown += '| --- | --- | --- | --- |\n';
+      
+      results.images.forEach((image, index) => {
+        markdown += `| ${index + 1} | ${this.markdownLink(image.title || 'N/A', image.url)} | ${this.escapeMarkdown(image.alt || '')} | ${this.escapeMarkdown(image.dimensions || '')} |\n`;
+      });
+    }
     
-    return html;
+    return markdown;
+  }
+
+  /**
+   * Format search results as JSON Lines, one record per result item.
+   * Every record carries the query, the timestamp and a type discriminator.
+   * 
+   * @param results Search results to format
+   */
+  private formatAsJsonl(results: SearchResults): string {
+    const base = { query: results.query, timestamp: results.timestamp };
+    const records: object[] = [];
+    
+    (results.organicResults || []).forEach(result => {
+      records.push({ ...base, type: 'organic', ...result });
+    });
+    
+    (results.featuredSnippets || []).forEach((snippet, index) => {
+      records.push({ ...base, type: 'featuredSnippet', position: index + 1, ...snippet });
+    });
+    
+    (results.peopleAlsoAsk || []).forEach((question, index) => {
+      records.push({ ...base, type: 'peopleAlsoAsk', position: index + 1, question });
+    });
+    
+    (results.relatedSearches || []).forEach((search, index) => {
+      records.push({ ...base, type: 'relatedSearch', position: index + 1, search });
+    });
+    
+    (results.videos || []).forEach((video, index) => {
+      records.push({ ...base, type: 'video', position: index + 1, ...video });
+    });
+    
+    (results.images || []).forEach((image, index) => {
+      records.push({ ...base, type: 'image', position: index + 1, ...image });
+    });
+    
+    return records.map(record => JSON.stringify(record) + '\n').join('');
+  }
+
+  /**
+   * Format a Markdown link, or just the escaped text if there is no URL
+   * 
+   * @param text Link text
+   * @param url Link target
+   */
+  private markdownLink(text: string, url: string | null | undefined): string {
+    if (!url) {
+      return this.escapeMarkdown(text);
+    }
+    return `[${this.escapeMarkdown(text)}](${url.replace(/\(/g, '%28').replace(/\)/g, '%29').replace(/ /g, '%20')})`;
+  }
+
+  /**
+   * Format an HTML link, or just the escaped text if there is no safe URL
+   * 
+   * @param text Link text
+   * @param url Link target
+   */
+  private htmlLink(text: string, url: string | null | undefined): string {
+    if (!url || !this.isSafeUrl(url)) {
+      return this.escapeHtml(text);
+    }
+    return `<a href="${this.escapeHtml(url)}">${this.escapeHtml(text)}</a>`;
+  }
+
+  /**
+   * Check that a URL can be linked to without running script
+   * 
+   * @param url URL to check
+   */
+  private isSafeUrl(url: string): boolean {
+    return /^(https?:|data:image\/)/i.test(url.trim());
+  }
+
+  /**
+   * Shorten text to a maximum length, cutting at a word boundary
+   * 
+   * @param text Text to shorten
+   * @param maxLength Maximum length including the ellipsis
+   */
+  private excerpt(text: string, maxLength: number): string {
+    if (text.length <= maxLength) {
+      return text;
+    }
+    const cut = text.slice(0, maxLength - 1);
+    const lastSpace = cut.lastIndexOf(' ');
+    return `${lastSpace > maxLength / 2 ? cut.slice(0, lastSpace) : cut}…`;
+  }
+
+  /**
+   * Format a duration in milliseconds for the timing chart
+   * 
+   * @param ms Duration in milliseconds
+   */
+  private formatDuration(ms: number): string {
+    return ms < 1000 ? `${Math.round(ms)}ms` : `${(ms / 1000).toFixed(2)}s`;
+  }
+
+  /**
+   * Escape Markdown special characters
+   * 
+   * @param str String to escape
+   */
+  private escapeMarkdown(str: string): string {
+    return str
+      .replace(/\s+/g, ' ')
+      .replace(/([\\`*_\[\]<>|])/g, '\\$1');
   }
 
   /**
@@ -412,17 +906,4 @@ export class ResultFormatter {
       .replace(/"/g, '&quot;')
       .replace(/'/g, '&#039;');
   }
-
-  /**
-   * Escape CSV field
-   * 
-   * @param str String to escape
-   */
-  private escapeCsvField(str: string): string {
-    // If the field contains quotes, double them
-    if (str.includes('"')) {
-      str = str.replace(/"/g, '""');
-    }
-    return str;
-  }
 }
@@ -1,7 +1,7 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as puppeteer from 'puppeteer';
-import { SearchResults, OutputFormat } from '../config/types';
+import { SearchResults, OutputFormat, ContextPackOptions, TimingData, HtmlReportAssets } from '../config/types';
 import { ResultFormatter } from './result-formatter';
 
 /**
@@ -9,12 +9,17 @@ import { ResultFormatter } from './result-formatter';
  */
 export class ResultSaver {
   private formatter: ResultFormatter;
+  private csvPerSection: boolean;
   
   /**
    * Create a new ResultSaver
+   * 
+   * @param options.contextPack Budget for the context output formats
+   * @param options.csvPerSection Write one CSV file per result section instead of a single file
    */
-  constructor() {
-    this.formatter = new ResultFormatter();
+  constructor(options: { contextPack?: Partial<ContextPackOptions>; csvPerSection?: boolean } = {}) {
+    this.formatter = new ResultFormatter({ contextPack: options.contextPack });
+    this.csvPerSection = options.csvPerSection === true;
   }
   
   /**
@@ -24,24 +29,27 @@ export class ResultSaver {
    * @param outputDir Directory to save results to
    * @param formats Output formats to save
    * @param page Puppeteer page for taking screenshots
+   * @param timingData Timing data shown in the HTML report
    */
   async saveResults(
     results: SearchResults,
     outputDir: string,
     formats: OutputFormat[] = [OutputFormat.JSON, OutputFormat.TEXT],
-    page?: puppeteer.Page
+    page?: puppeteer.Page,
+    timingData?: TimingData
   ): Promise<void> {
     // Create output directory if it doesn't exist
     this.ensureDirectoryExists(outputDir);
     
-    // Save results in each format
-    for (const format of formats) {
-      await this.saveInFormat(results, outputDir, format);
+    // Take a screenshot first so the HTML report can embed it
+    const assets: HtmlReportAssets = { timingData };
+    if (page) {
+      assets.screenshot = await this.takeScreenshot(page, outputDir);
     }
     
-    // Take a screenshot if page is provided
-    if (page) {
-      await this.takeScreenshot(page, outputDir);
+    // Save results in each format
+    for (const format of formats) {
+      await this.saveInFormat(results, outputDir, format, assets);
     }
     
     console.log(`Results saved to ${outputDir}`);
@@ -53,11 +61,22 @@ export class ResultSaver {
    * @param results Search results to save
    * @param outputDir Directory to save results to
    * @param format Output format
+   * @param assets Screenshot and timing data embedded in the HTML report
    */
-  private async saveInFormat(results: SearchResults, outputDir: string, format: OutputFormat): Promise<void> {
+  private async saveInFormat(
+    results: SearchResults,
+    outputDir: string,
+    format: OutputFormat,
+    assets: HtmlReportAssets = {}
+  ): Promise<void> {
     try {
+      if (format === OutputFormat.CSV && this.csvPerSection) {
+        this.saveCsvSections(results, outputDir);
+        return;
+      }
+      
       // Format the results
-      const formattedResults = this.formatter.format(results, format);
+      const formattedResults = this.formatter.format(results, format, assets);
       
       // Determine file extension
       const extension = this.getFileExtension(format);
@@ -74,19 +93,39 @@ export class ResultSaver {
     }
   }
   
+  /**
+   * Save each result section to its own CSV file, e.g. search-results.organic.csv
+   * 
+   * @param results Search results to save
+   * @param outputDir Directory to save results to
+   */
+  private saveCsvSections(results: SearchResults, outputDir: string): void {
+    const sections = this.formatter.formatCsvSections(results);
+    
+    for (const [section, csv] of Object.entries(sections)) {
+      const filePath = path.join(outputDir, `search-results.${section}.csv`);
+      fs.writeFileSync(filePath, csv);
+      console.log(`Results saved as CSV to ${filePath}`);
+    }
+  }
+  
   /**
    * Take a screenshot of the search results page
    * 
    * @param page Puppeteer page
    * @param outputDir Directory to save screenshot to
+   * @returns The screenshot as base64, or null if it could not be taken
    */
-  private async takeScreenshot(page: puppeteer.Page, outputDir: string): Promise<void> {
+  private async takeScreenshot(page: puppeteer.Page, outputDir: string): Promise<string | null> {
     try {
       const screenshotPath = path.join(outputDir, 'search-results.png');
-      await page.screenshot({ path: screenshotPath, fullPage: true });
+      const screenshot = await page.screenshot({ fullPage: true });
+      fs.writeFileSync(screenshotPath, screenshot);
       console.log(`Screenshot saved to ${screenshotPath}`);
+      return screenshot.toString('base64');
     } catch (error) {
       console.error(`Error taking screenshot: ${error}`);
+      return null;
     }
   }
   
@@ -105,6 +144,14 @@ export class ResultSaver {
         return 'csv';
       case OutputFormat.HTML:
         return 'html';
+      case OutputFormat.MARKDOWN:
+        return 'md';
+      case OutputFormat.JSONL:
+        return 'jsonl';
+      case OutputFormat.CONTEXT:
+        return 'context.md';
+      case OutputFormat.CONTEXT_JSON:
+        return 'context.json';
       default:
         return 'txt';
     }
@@ -0,0 +1,234 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { RunArtifact, RunKind, RunManifest, ScraperConfig, SearchEngineType, StartedRun, TimingData } from '../config/types';
+
+/**
+ * Name of the manifest written into each run directory
+ */
+export const RUN_MANIFEST_FILE = 'manifest.json';
+
+/**
+ * Name of the pointer to the newest run
+ */
+export const LATEST_RUN_POINTER = 'latest';
+
+/**
+ * Gives every run its own timestamped directory below an output directory,
+ * with a manifest of what it produced and a `latest` pointer to the newest run.
+ *
+ * outputDir/
+ *   20240101-120000-1a2b3c/
+ *     manifest.json
+ *     search-results.json
+ *   latest -> 20240101-120000-1a2b3c
+ */
+export class RunHistory {
+  private rootDir: string;
+
+  /**
+   * Create a new RunHistory
+   *
+   * @param rootDir Directory the run directories are created in
+   */
+  constructor(rootDir: string) {
+    this.rootDir = rootDir;
+  }
+
+  /**
+   * Start a run by creating its directory
+   *
+   * @param startedAt Start time the run ID is based on
+   */
+  startRun(startedAt: Date = new Date()): StartedRun {
+    const runId = createRunId(startedAt);
+    const dir = path.join(this.rootDir, runId);
+    fs.mkdirSync(dir, { recursive: true });
+
+    return { runId, dir, startedAt };
+  }
+
+  /**
+   * Finish a run: write its manifest and point `latest` at it
+   *
+   * @param run Run to finish
+   * @param details Query, engine, effective configuration and timing data of a search run,
+   *   or the URLs of a crawl run
+   */
+  finishRun(
+    run: StartedRun,
+    details: {
+      kind?: RunKind;
+      query?: string;
+      engine?: SearchEngineType;
+      urls?: string[];
+      config?: ScraperConfig;
+      timingData?: TimingData;
+    }
+  ): RunManifest {
+    const manifest: RunManifest = {
+      runId: run.runId,
+      kind: details.kind || 'search',
+      query: details.query,
+      engine: details.engine,
+      urls: details.urls,
+      startedAt: run.startedAt.toISOString(),
+      finishedAt: new Date().toISOString(),
+      toolVersion: getToolVersion(),
+      config: details.config,
+      artifacts: this.listArtifacts(run.dir),
+      timingData: details.timingData
+    };
+
+    fs.writeFileSync(path.join(run.dir, RUN_MANIFEST_FILE), JSON.stringify(manifest, null, 2));
+    this.updateLatest(run.runId);
+
+    return manifest;
+  }
+
+  /**
+   * List the IDs of finished runs, oldest first
+   */
+  listRuns(): string[] {
+    if (!fs.existsSync(this.rootDir)) {
+      return [];
+    }
+
+    return fs.readdirSync(this.rootDir, { withFileTypes: true })
+      .filter(entry => entry.isDirectory() && fs.existsSync(path.join(this.rootDir, entry.name, RUN_MANIFEST_FILE)))
+      .map(entry => entry.name)
+      .sort();
+  }
+
+  /**
+   * Get the ID of the newest run from the `latest` pointer
+   *
+   * @returns The run ID, or null if there is no pointer
+   */
+  getLatestRunId(): string | null {
+    const pointerPath = path.join(this.rootDir, LATEST_RUN_POINTER);
+
+    try {
+      const stats = fs.lstatSync(pointerPath);
+      const target = stats.isSymbolicLink()
+        ? fs.readlinkSync(pointerPath)
+        : fs.readFileSync(pointerPath, 'utf-8');
+      return path.basename(target.trim());
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Read the manifest of a run
+   *
+   * @param runId Run ID, or "latest" for the newest run
+   * @returns The manifest, or null if the run does not exist
+   */
+  readManifest(runId: string): RunManifest | null {
+    const id = runId === LATEST_RUN_POINTER ? this.getLatestRunId() : runId;
+    if (!id || !isRunId(id)) {
+      return null;
+    }
+
+    const manifestPath = path.join(this.rootDir, id, RUN_MANIFEST_FILE);
+    if (!fs.existsSync(manifestPath)) {
+      return null;
+    }
+
+    return JSON.parse(fs.readFileSync(manifestPath, 'utf-8')) as RunManifest;
+  }
+
+  /**
+   * Get the directory of a run
+   *
+   * @param runId Run ID
+   */
+  getRunDir(runId: string): string {
+    return path.join(this.rootDir, runId);
+  }
+
+  /**
+   * List the files in a run directory with their sizes and checksums
+   *
+   * @param dir Run directory
+   */
+  private listArtifacts(dir: string): RunArtifact[] {
+    const artifacts: RunArtifact[] = [];
+
+    const walk = (current: string) => {
+      for (const entry of fs.readdirSync(current, { withFileTypes: true })) {
+        const filePath = path.join(current, entry.name);
+        if (entry.isDirectory()) {
+          walk(filePath);
+          continue;
+        }
+
+        const name = path.relative(dir, filePath).split(path.sep).join('/');
+        if (name === RUN_MANIFEST_FILE) {
+          continue;
+        }
+
+        const content = fs.readFileSync(filePath);
+        artifacts.push({
+          name,
+          size: content.length,
+          sha256: crypto.createHash('sha256').update(content).digest('hex')
+        });
+      }
+    };
+
+    walk(dir);
+    return artifacts.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Point `latest` at a run. Uses a symbolic link where possible and
+   * falls back to a file containing the run ID (e.g. on Windows without privileges).
+   *
+   * @param runId Run to point at
+   */
+  private updateLatest(runId: string): void {
+    const pointerPath = path.join(this.rootDir, LATEST_RUN_POINTER);
+    fs.rmSync(pointerPath, { force: true });
+
+    try {
+      fs.symlinkSync(runId, pointerPath, 'dir');
+    } catch {
+      fs.writeFileSync(pointerPath, runId);
+    }
+  }
+}
+
+/**
+ * Create a run ID from the start time, e.g. "20240101-120000-1a2b3c".
+ * IDs sort by start time; the random suffix keeps runs started in the same second apart.
+ *
+ * @param startedAt Start time of the run
+ */
+export function createRunId(startedAt: Date): string {
+  const timestamp = startedAt.toISOString().replace(/[-:]/g, '').replace('T', '-').substring(0, 15);
+  return `${timestamp}-${crypto.randomBytes(3).toString('hex')}`;
+}
+
+/**
+ * Check whether a string is a valid run ID
+ *
+ * @param value String to check
+ */
+export function isRunId(value: string): boolean {
+  return /^\d{8}-\d{6}-[0-9a-f]{6}$/.test(value);
+}
+
+/**
+ * Get the version of this tool from its package.json
+ */
+export function getToolVersion(): string {
+  try {
+    // Two levels up from both src/output and dist/output
+    const packageJson = JSON.parse(fs.readFileSync(path.join(__dirname, '..', '..', 'package.json'), 'utf-8'));
+    return packageJson.version || 'unknown';
+  } catch {
+    return 'unknown';
+  }
+}
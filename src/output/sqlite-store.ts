@@ -0,0 +1,448 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type Database from 'better-sqlite3';
+import { SearchResults, TimingData, FollowUpPage, RunInfo, DomainRank, SearchEngineType } from '../config/types';
+
+/**
+ * A schema change, applied once in order of version
+ */
+interface Migration {
+  version: number;
+  name: string;
+  sql: string;
+}
+
+/**
+ * Schema migrations. Released migrations must never be edited, add a new one instead.
+ */
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'initial schema',
+    sql: `
+      CREATE TABLE queries (
+        id INTEGER PRIMARY KEY,
+        text TEXT NOT NULL UNIQUE
+      );
+
+      CREATE TABLE runs (
+        id INTEGER PRIMARY KEY,
+        query_id INTEGER NOT NULL REFERENCES queries(id),
+        engine TEXT,
+        timestamp TEXT NOT NULL,
+        output_dir TEXT,
+        created_at TEXT NOT NULL
+      );
+      CREATE INDEX runs_query_id ON runs(query_id, timestamp);
+
+      CREATE TABLE organic_results (
+        id INTEGER PRIMARY KEY,
+        run_id INTEGER NOT NULL REFERENCES runs(id) ON DELETE CASCADE,
+        position INTEGER NOT NULL,
+        page INTEGER,
+        title TEXT,
+        url TEXT,
+        raw_url TEXT,
+        snippet TEXT
+      );
+      CREATE INDEX organic_results_run_id ON organic_results(run_id);
+      CREATE INDEX organic_results_url ON organic_results(url);
+
+      CREATE TABLE deep_links (
+        id INTEGER PRIMARY KEY,
+        result_id INTEGER NOT NULL REFERENCES organic_results(id) ON DELETE CASCADE,
+        position INTEGER NOT NULL,
+        text TEXT,
+        url TEXT
+      );
+      CREATE INDEX deep_links_result_id ON deep_links(result_id);
+
+      CREATE TABLE serp_features (
+        id INTEGER PRIMARY KEY,
+        run_id INTEGER NOT NULL REFERENCES runs(id) ON DELETE CASCADE,
+        type TEXT NOT NULL,
+        position INTEGER NOT NULL,
+        title TEXT,
+        url TEXT,
+        content TEXT,
+        source TEXT,
+        data TEXT
+      );
+      CREATE INDEX serp_features_run_id ON serp_features(run_id, type);
+
+      CREATE TABLE follow_up_pages (
+        id INTEGER PRIMARY KEY,
+        run_id INTEGER NOT NULL REFERENCES runs(id) ON DELETE CASCADE,
+        result_id INTEGER NOT NULL REFERENCES organic_results(id) ON DELETE CASCADE,
+        parent_id INTEGER REFERENCES follow_up_pages(id) ON DELETE CASCADE,
+        depth INTEGER NOT NULL,
+        url TEXT NOT NULL,
+        final_url TEXT,
+        canonical_url TEXT,
+        title TEXT,
+        text TEXT,
+        status_code INTEGER,
+        byline TEXT,
+        published_at TEXT,
+        fetched_at TEXT,
+        duration_ms REAL,
+        error TEXT
+      );
+      CREATE INDEX follow_up_pages_run_id ON follow_up_pages(run_id);
+      CREATE INDEX follow_up_pages_result_id ON follow_up_pages(result_id);
+
+      CREATE TABLE timings (
+        run_id INTEGER NOT NULL REFERENCES runs(id) ON DELETE CASCADE,
+        category TEXT NOT NULL,
+        name TEXT NOT NULL,
+        duration_ms REAL NOT NULL,
+        PRIMARY KEY (run_id, category, name)
+      );
+    `
+  },
+  {
+    version: 2,
+    name: 'domain rank history',
+    sql: `
+      CREATE TABLE domain_ranks (
+        id INTEGER PRIMARY KEY,
+        timestamp TEXT NOT NULL,
+        query TEXT NOT NULL,
+        engine TEXT,
+        domain TEXT NOT NULL,
+        best_position INTEGER,
+        best_url TEXT,
+        positions TEXT NOT NULL,
+        has_deep_links INTEGER NOT NULL,
+        owns_featured_snippet INTEGER NOT NULL
+      );
+      CREATE INDEX domain_ranks_domain ON domain_ranks(domain, query, timestamp);
+    `
+  }
+];
+
+/**
+ * Version of the newest schema migration
+ */
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Load the optional better-sqlite3 driver. It is loaded on first use, so searches
+ * that don't save to a database work without the native module.
+ */
+function loadDriver(): typeof Database {
+  try {
+    return require('better-sqlite3');
+  } catch (error) {
+    throw new Error(
+      'Saving to a SQLite database needs the optional better-sqlite3 package, install it with "npm install better-sqlite3" ' +
+      `(${error instanceof Error ? error.message : error})`
+    );
+  }
+}
+
+/**
+ * Persists search runs in a SQLite database.
+ * The schema is created and migrated when the database is opened.
+ */
+export class SqliteStore {
+  private db: Database.Database;
+
+  /**
+   * Open (or create) a database
+   *
+   * @param filePath Path of the database file, or ":memory:"
+   */
+  constructor(filePath: string) {
+    if (filePath !== ':memory:') {
+      fs.mkdirSync(path.dirname(path.resolve(filePath)), { recursive: true });
+    }
+
+    const Driver = loadDriver();
+    this.db = new Driver(filePath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('foreign_keys = ON');
+    // Batch runs write from several scrapers at once
+    this.db.pragma('busy_timeout = 5000');
+    this.migrate();
+  }
+
+  /**
+   * Apply the migrations that have not been applied yet
+   *
+   * @returns Versions of the migrations that were applied
+   */
+  migrate(): number[] {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        applied_at TEXT NOT NULL
+      )
+    `);
+
+    const row = this.db.prepare('SELECT MAX(version) AS version FROM schema_migrations').get() as { version: number | null };
+    const current = row.version || 0;
+
+    if (current > SCHEMA_VERSION) {
+      throw new Error(`Database schema version ${current} is newer than the supported version ${SCHEMA_VERSION}`);
+    }
+
+    const applied: number[] = [];
+    for (const migration of MIGRATIONS.filter(migration => migration.version > current)) {
+      this.db.transaction(() => {
+        this.db.exec(migration.sql);
+        this.db.prepare('INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)')
+          .run(migration.version, migration.name, new Date().toISOString());
+      })();
+      console.log(`Applied database migration ${migration.version}: ${migration.name}`);
+      applied.push(migration.version);
+    }
+
+    return applied;
+  }
+
+  /**
+   * Get the version of the database schema
+   */
+  getSchemaVersion(): number {
+    const row = this.db.prepare('SELECT MAX(version) AS version FROM schema_migrations').get() as { version: number | null };
+    return row.version || 0;
+  }
+
+  /**
+   * Save a search run with all of its results in one transaction
+   *
+   * @param results Search results to save
+   * @param info Engine, output directory and timing data of the run
+   * @returns ID of the new run
+   */
+  saveRun(results: SearchResults, info: RunInfo = {}): number {
+    return this.db.transaction(() => {
+      this.db.prepare('INSERT OR IGNORE INTO queries (text) VALUES (?)').run(results.query);
+      const query = this.db.prepare('SELECT id FROM queries WHERE text = ?').get(results.query) as { id: number };
+
+      const runId = Number(this.db.prepare(
+        'INSERT INTO runs (query_id, engine, timestamp, output_dir, created_at) VALUES (?, ?, ?, ?, ?)'
+      ).run(query.id, info.engine || null, results.timestamp, info.outputDir || null, new Date().toISOString()).lastInsertRowid);
+
+      this.saveOrganicResults(runId, results);
+      this.saveSerpFeatures(runId, results);
+
+      if (info.timingData) {
+        this.saveTimings(runId, info.timingData);
+      }
+
+      return runId;
+    })();
+  }
+
+  /**
+   * Append domain ranks to the rank history
+   *
+   * @param ranks Ranks to append
+   */
+  saveDomainRanks(ranks: DomainRank[]): void {
+    const insert = this.db.prepare(`
+      INSERT INTO domain_ranks (
+        timestamp, query, engine, domain, best_position, best_url, positions, has_deep_links, owns_featured_snippet
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    this.db.transaction(() => {
+      for (const rank of ranks) {
+        insert.run(
+          rank.timestamp,
+          rank.query,
+          rank.engine,
+          rank.domain,
+          rank.bestPosition,
+          rank.bestUrl,
+          JSON.stringify(rank.positions),
+          rank.hasDeepLinks ? 1 : 0,
+          rank.ownsFeaturedSnippet ? 1 : 0
+        );
+      }
+    })();
+  }
+
+  /**
+   * Read the rank history, oldest first
+   *
+   * @param filter.domains Only return ranks of these domains
+   * @param filter.queries Only return ranks for these queries
+   */
+  getDomainRanks(filter: { domains?: string[]; queries?: string[] } = {}): DomainRank[] {
+    const conditions: string[] = [];
+    const params: string[] = [];
+
+    if (filter.domains && filter.domains.length > 0) {
+      conditions.push(`domain IN (${filter.domains.map(() => '?').join(', ')})`);
+      params.push(...filter.domains);
+    }
+    if (filter.queries && filter.queries.length > 0) {
+      conditions.push(`query IN (${filter.queries.map(() => '?').join(', ')})`);
+      params.push(...filter.queries);
+    }
+
+    const rows = this.db.prepare(`
+      SELECT * FROM domain_ranks
+      ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+      ORDER BY timestamp, query, domain, id
+    `).all(...params) as {
+      timestamp: string;
+      query: string;
+      engine: string | null;
+      domain: string;
+      best_position: number | null;
+      best_url: string | null;
+      positions: string;
+      has_deep_links: number;
+      owns_featured_snippet: number;
+    }[];
+
+    return rows.map(row => ({
+      timestamp: row.timestamp,
+      query: row.query,
+      engine: row.engine as SearchEngineType | null,
+      domain: row.domain,
+      bestPosition: row.best_position,
+      bestUrl: row.best_url,
+      positions: JSON.parse(row.positions),
+      hasDeepLinks: row.has_deep_links === 1,
+      ownsFeaturedSnippet: row.owns_featured_snippet === 1
+    }));
+  }
+
+  /**
+   * Close the database
+   */
+  close(): void {
+    this.db.close();
+  }
+
+  /**
+   * Save organic results with their deep links and follow-up pages
+   *
+   * @param runId Run the results belong to
+   * @param results Search results
+   */
+  private saveOrganicResults(runId: number, results: SearchResults): void {
+    const insertResult = this.db.prepare(
+      'INSERT INTO organic_results (run_id, position, page, title, url, raw_url, snippet) VALUES (?, ?, ?, ?, ?, ?, ?)'
+    );
+    const insertDeepLink = this.db.prepare(
+      'INSERT INTO deep_links (result_id, position, text, url) VALUES (?, ?, ?, ?)'
+    );
+
+    for (const result of results.organicResults || []) {
+      const resultId = Number(insertResult.run(
+        runId,
+        result.position,
+        result.page ?? null,
+        result.title,
+        result.url,
+        result.rawUrl ?? null,
+        result.snippet
+      ).lastInsertRowid);
+
+      (result.deepLinks || []).forEach((link, index) => {
+        insertDeepLink.run(resultId, index + 1, link.text, link.url);
+      });
+
+      if (result.followUpResults) {
+        this.saveFollowUpPage(runId, resultId, null, result.followUpResults);
+      }
+    }
+  }
+
+  /**
+   * Save a follow-up page and the pages followed from it
+   *
+   * @param runId Run the page belongs to
+   * @param resultId Organic result the page was reached from
+   * @param parentId Page the page was linked from, null for the result page itself
+   * @param page Follow-up page
+   */
+  private saveFollowUpPage(runId: number, resultId: number, parentId: number | null, page: FollowUpPage): void {
+    const pageId = Number(this.db.prepare(`
+      INSERT INTO follow_up_pages (
+        run_id, result_id, parent_id, depth, url, final_url, canonical_url, title, text,
+        status_code, byline, published_at, fetched_at, duration_ms, error
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      runId,
+      resultId,
+      parentId,
+      page.depth,
+      page.url,
+      page.finalUrl,
+      page.canonicalUrl,
+      page.title,
+      page.text,
+      page.statusCode,
+      page.byline,
+      page.publishedAt,
+      page.fetchedAt,
+      page.durationMs,
+      page.error ?? null
+    ).lastInsertRowid);
+
+    for (const child of page.children || []) {
+      this.saveFollowUpPage(runId, resultId, pageId, child);
+    }
+  }
+
+  /**
+   * Save featured snippets, questions, related searches, videos and images
+   *
+   * @param runId Run the features belong to
+   * @param results Search results
+   */
+  private saveSerpFeatures(runId: number, results: SearchResults): void {
+    const insert = this.db.prepare(
+      'INSERT INTO serp_features (run_id, type, position, title, url, content, source, data) VALUES (?, ?, ?, ?, ?, ?, ?, ?)'
+    );
+
+    (results.featuredSnippets || []).forEach((snippet, index) => {
+      insert.run(runId, 'featuredSnippet', index + 1, null, snippet.url ?? null, snippet.content, snippet.source, null);
+    });
+    (results.peopleAlsoAsk || []).forEach((question, index) => {
+      insert.run(runId, 'peopleAlsoAsk', index + 1, question, null, null, null, null);
+    });
+    (results.relatedSearches || []).forEach((search, index) => {
+      insert.run(runId, 'relatedSearch', index + 1, search, null, null, null, null);
+    });
+    (results.videos || []).forEach((video, index) => {
+      insert.run(runId, 'video', index + 1, video.title, video.url ?? null, null, video.source,
+        video.duration ? JSON.stringify({ duration: video.duration }) : null);
+    });
+    (results.images || []).forEach((image, index) => {
+      insert.run(runId, 'image', index + 1, image.title, image.url, null, null,
+        JSON.stringify({ src: image.src, alt: image.alt, dimensions: image.dimensions }));
+    });
+  }
+
+  /**
+   * Save the timing data of a run
+   *
+   * @param runId Run the timings belong to
+   * @param timingData Timing data
+   */
+  private saveTimings(runId: number, timingData: TimingData): void {
+    const insert = this.db.prepare('INSERT INTO timings (run_id, category, name, duration_ms) VALUES (?, ?, ?, ?)');
+    const categories: [string, Record<string, number | undefined> | undefined][] = [
+      ['step', timingData.steps],
+      ['extraction', timingData.extractionSteps],
+      ['save', timingData.saveFormats]
+    ];
+
+    for (const [category, values] of categories) {
+      for (const [name, duration] of Object.entries(values || {})) {
+        if (typeof duration === 'number') {
+          insert.run(runId, category, name, duration);
+        }
+      }
+    }
+  }
+}
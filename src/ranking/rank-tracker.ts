@@ -0,0 +1,144 @@
+import { DomainRank, FeaturedSnippet, SearchEngineType, SearchResults } from '../config/types';
+import { escapeCsvField } from '../utils/csv';
+
+/**
+ * Columns of the rank history CSV export
+ */
+const RANK_CSV_COLUMNS = [
+  'timestamp',
+  'query',
+  'engine',
+  'domain',
+  'best_position',
+  'best_url',
+  'positions',
+  'has_deep_links',
+  'owns_featured_snippet'
+] as const;
+
+/**
+ * Finds where a set of domains rank in search results
+ */
+export class RankTracker {
+  private domains: string[];
+
+  /**
+   * Create a new RankTracker
+   *
+   * @param domains Domains to track, e.g. "example.com". Subdomains such as www.example.com count for their domain.
+   */
+  constructor(domains: string[]) {
+    this.domains = Array.from(new Set(domains.map(normalizeDomain).filter(Boolean)));
+
+    if (this.domains.length === 0) {
+      throw new Error('No domains to track');
+    }
+  }
+
+  /**
+   * Get the tracked domains
+   */
+  getDomains(): string[] {
+    return [...this.domains];
+  }
+
+  /**
+   * Find the rank of every tracked domain in one capture
+   *
+   * @param results Search results to rank
+   * @param engine Engine the results came from
+   * @returns One entry per tracked domain, also for domains that don't rank
+   */
+  track(results: SearchResults, engine: SearchEngineType | null = null): DomainRank[] {
+    return this.domains.map(domain => {
+      const ranking = (results.organicResults || [])
+        .filter(result => result.url && matchesDomain(result.url, domain))
+        .sort((a, b) => a.position - b.position);
+
+      return {
+        timestamp: results.timestamp,
+        query: results.query,
+        engine,
+        domain,
+        bestPosition: ranking.length > 0 ? ranking[0].position : null,
+        bestUrl: ranking.length > 0 ? ranking[0].url : null,
+        positions: ranking.map(result => result.position),
+        hasDeepLinks: ranking.some(result => (result.deepLinks?.length || 0) > 0),
+        ownsFeaturedSnippet: (results.featuredSnippets || []).some(snippet => this.ownsSnippet(snippet, domain))
+      };
+    });
+  }
+
+  /**
+   * Format rank history as RFC 4180 CSV, one row per query, domain and capture
+   *
+   * @param ranks Ranks to export
+   */
+  toCsv(ranks: DomainRank[]): string {
+    const lines = [RANK_CSV_COLUMNS.join(',')];
+
+    for (const rank of ranks) {
+      lines.push([
+        rank.timestamp,
+        rank.query,
+        rank.engine,
+        rank.domain,
+        rank.bestPosition,
+        rank.bestUrl,
+        rank.positions.join(' '),
+        rank.hasDeepLinks,
+        rank.ownsFeaturedSnippet
+      ].map(value => escapeCsvField(value === null ? '' : String(value))).join(','));
+    }
+
+    return lines.join('\r\n') + '\r\n';
+  }
+
+  /**
+   * Check whether a featured snippet is taken from a domain.
+   * Snippets without a URL are matched by their source label.
+   *
+   * @param snippet Featured snippet
+   * @param domain Tracked domain
+   */
+  private ownsSnippet(snippet: FeaturedSnippet, domain: string): boolean {
+    if (snippet.url) {
+      return matchesDomain(snippet.url, domain);
+    }
+    return normalizeDomain(snippet.source || '') === domain;
+  }
+}
+
+/**
+ * Check whether a URL belongs to a domain or one of its subdomains
+ *
+ * @param url URL to check
+ * @param domain Normalized domain
+ */
+function matchesDomain(url: string, domain: string): boolean {
+  try {
+    const hostname = new URL(url).hostname.toLowerCase();
+    return hostname === domain || hostname.endsWith(`.${domain}`);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Normalize a domain given as "Example.com", "www.example.com" or "https://example.com/"
+ *
+ * @param domain Domain to normalize
+ */
+function normalizeDomain(domain: string): string {
+  const trimmed = domain.trim().toLowerCase();
+  let hostname = trimmed.split('/')[0];
+  if (/^[a-z]+:\/\//.test(trimmed)) {
+    try {
+      hostname = new URL(trimmed).hostname;
+    } catch {
+      // Scraped snippet sources can be anything, they just don't match
+      return '';
+    }
+  }
+  return hostname.replace(/^www\./, '');
+}
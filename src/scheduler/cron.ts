@@ -0,0 +1,200 @@
+/**
+ * Shorthands for common schedules
+ */
+const CRON_ALIASES: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *'
+};
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+/**
+ * How far ahead to look for the next run before giving up, e.g. for "0 0 30 2 *"
+ */
+const MAX_YEARS_AHEAD = 5;
+
+/**
+ * A parsed five field cron expression: minute, hour, day of month, month and day of week.
+ * Fields accept "*", numbers, ranges ("1-5"), steps ("*\/15", "0-30/10"), lists ("1,15")
+ * and month and day names ("jan", "mon"). Times are local.
+ */
+export class CronSchedule {
+  readonly expression: string;
+  private minutes: Set<number>;
+  private hours: Set<number>;
+  private daysOfMonth: Set<number>;
+  private months: Set<number>;
+  private daysOfWeek: Set<number>;
+  // Whether the day fields were restricted, see matchesDay
+  private dayOfMonthRestricted: boolean;
+  private dayOfWeekRestricted: boolean;
+
+  /**
+   * Parse a cron expression
+   *
+   * @param expression Cron expression or alias such as "@daily"
+   * @throws Error if the expression is invalid
+   */
+  constructor(expression: string) {
+    this.expression = expression.trim();
+    const fields = (CRON_ALIASES[this.expression.toLowerCase()] || this.expression).split(/\s+/);
+
+    if (fields.length !== 5) {
+      throw new Error(`Invalid cron expression "${expression}": expected 5 fields, found ${fields.length}`);
+    }
+
+    this.minutes = parseField(fields[0], 0, 59, expression);
+    this.hours = parseField(fields[1], 0, 23, expression);
+    this.daysOfMonth = parseField(fields[2], 1, 31, expression);
+    this.months = parseField(fields[3], 1, 12, expression, MONTH_NAMES, 1);
+    // 7 is Sunday as well as 0
+    this.daysOfWeek = new Set(Array.from(parseField(fields[4], 0, 7, expression, DAY_NAMES, 0), day => day % 7));
+    this.dayOfMonthRestricted = !fields[2].startsWith('*');
+    this.dayOfWeekRestricted = !fields[4].startsWith('*');
+  }
+
+  /**
+   * Check whether the schedule runs in the minute of a date
+   *
+   * @param date Date to check
+   */
+  matches(date: Date): boolean {
+    return this.minutes.has(date.getMinutes())
+      && this.hours.has(date.getHours())
+      && this.months.has(date.getMonth() + 1)
+      && this.matchesDay(date);
+  }
+
+  /**
+   * Get the first time the schedule runs after a date
+   *
+   * @param after Date to start from; a run in the same minute is not returned
+   * @throws Error if the schedule never runs, e.g. on February 30th
+   */
+  next(after: Date = new Date()): Date {
+    const date = new Date(after.getTime());
+    date.setSeconds(0, 0);
+    date.setMinutes(date.getMinutes() + 1);
+
+    const limit = new Date(date.getTime());
+    limit.setFullYear(limit.getFullYear() + MAX_YEARS_AHEAD);
+
+    // Skip whole months, days and hours that can't match before checking minutes
+    while (date < limit) {
+      if (!this.months.has(date.getMonth() + 1)) {
+        date.setMonth(date.getMonth() + 1, 1);
+        date.setHours(0, 0, 0, 0);
+      } else if (!this.matchesDay(date)) {
+        date.setDate(date.getDate() + 1);
+        date.setHours(0, 0, 0, 0);
+      } else if (!this.hours.has(date.getHours())) {
+        date.setHours(date.getHours() + 1, 0, 0, 0);
+      } else if (!this.minutes.has(date.getMinutes())) {
+        date.setMinutes(date.getMinutes() + 1, 0, 0);
+      } else {
+        return date;
+      }
+    }
+
+    throw new Error(`Cron expression "${this.expression}" never runs`);
+  }
+
+  /**
+   * Check the day fields. As in standard cron, a day matches either field when both are restricted.
+   *
+   * @param date Date to check
+   */
+  private matchesDay(date: Date): boolean {
+    const dayOfMonth = this.daysOfMonth.has(date.getDate());
+    const dayOfWeek = this.daysOfWeek.has(date.getDay());
+
+    if (this.dayOfMonthRestricted && this.dayOfWeekRestricted) {
+      return dayOfMonth || dayOfWeek;
+    }
+    return dayOfMonth && dayOfWeek;
+  }
+}
+
+/**
+ * Parse one field of a cron expression into the values it matches
+ *
+ * @param field Field text
+ * @param min Smallest allowed value
+ * @param max Largest allowed value
+ * @param expression Whole expression, for error messages
+ * @param names Names accepted instead of numbers
+ * @param nameOffset Value of the first name
+ */
+function parseField(
+  field: string,
+  min: number,
+  max: number,
+  expression: string,
+  names: string[] = [],
+  nameOffset: number = 0
+): Set<number> {
+  const values = new Set<number>();
+  const fail = (reason: string): never => {
+    throw new Error(`Invalid cron expression "${expression}": ${reason} in "${field}"`);
+  };
+
+  const parseValue = (text: string): number => {
+    const nameIndex = names.indexOf(text.toLowerCase());
+    if (nameIndex >= 0) {
+      return nameIndex + nameOffset;
+    }
+    if (!/^\d+$/.test(text)) {
+      fail(`"${text}" is not a number`);
+    }
+    const value = parseInt(text, 10);
+    if (value < min || value > max) {
+      fail(`${value} is outside ${min}-${max}`);
+    }
+    return value;
+  };
+
+  for (const part of field.split(',')) {
+    const [range, stepText, extra] = part.split('/');
+    if (extra !== undefined) {
+      fail('too many "/"');
+    }
+
+    let step = 1;
+    if (stepText !== undefined) {
+      if (!/^\d+$/.test(stepText) || parseInt(stepText, 10) === 0) {
+        fail(`invalid step "${stepText}"`);
+      }
+      step = parseInt(stepText, 10);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = min;
+      end = max;
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      start = parseValue(from);
+      end = parseValue(to);
+      if (start > end) {
+        fail(`range ${range} is reversed`);
+      }
+    } else {
+      start = parseValue(range);
+      // "5/15" means from 5 to the end in steps of 15
+      end = stepText !== undefined ? max : start;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
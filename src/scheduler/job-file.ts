@@ -0,0 +1,138 @@
+import * as fs from 'fs';
+import { ExtractOptions, OutputFormat, ScheduledJob, SearchEngineType } from '../config/types';
+import { CronSchedule } from './cron';
+
+/**
+ * Read the jobs of a scheduler job file.
+ * The file is JSON: either an array of jobs or an object with a "jobs" array.
+ *
+ * @param filePath Path to the job file
+ */
+export function readJobFile(filePath: string): ScheduledJob[] {
+  return parseJobs(fs.readFileSync(filePath, 'utf-8'));
+}
+
+/**
+ * Parse and validate scheduler jobs
+ *
+ * @param content Job file content
+ */
+export function parseJobs(content: string): ScheduledJob[] {
+  let value: unknown;
+  try {
+    value = JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Invalid JSON in job file: ${error}`);
+  }
+
+  const entries = Array.isArray(value) ? value : (value as { jobs?: unknown } | null)?.jobs;
+  if (!Array.isArray(entries)) {
+    throw new Error('Job file must contain an array of jobs or an object with a "jobs" array');
+  }
+
+  const jobs = entries.map((entry, index) => parseJob(entry, index));
+
+  const names = new Set<string>();
+  for (const job of jobs) {
+    if (names.has(job.name)) {
+      throw new Error(`Duplicate job name "${job.name}" in job file`);
+    }
+    names.add(job.name);
+  }
+
+  return jobs;
+}
+
+/**
+ * Validate one job
+ *
+ * @param entry Job as read from the file
+ * @param index Position of the job in the file
+ */
+function parseJob(entry: unknown, index: number): ScheduledJob {
+  const label = `Job ${index + 1}`;
+  if (!entry || typeof entry !== 'object') {
+    throw new Error(`${label} must be an object`);
+  }
+
+  const raw = entry as Record<string, unknown>;
+  if (typeof raw.query !== 'string' || raw.query.trim() === '') {
+    throw new Error(`${label} has no "query"`);
+  }
+  if (typeof raw.schedule !== 'string') {
+    throw new Error(`${label} has no "schedule"`);
+  }
+
+  const job: ScheduledJob = {
+    name: typeof raw.name === 'string' && raw.name.trim() !== '' ? raw.name.trim() : slugify(raw.query),
+    query: raw.query.trim(),
+    schedule: raw.schedule
+  };
+
+  // Parsing names the bad field; finding a first run catches dates that never occur, like February 30
+  try {
+    new CronSchedule(raw.schedule).next();
+  } catch (error) {
+    throw new Error(`${label} "${job.name}" has an invalid schedule: ${error instanceof Error ? error.message : error}`);
+  }
+
+  // The name is used as a directory name
+  if (!/^[\w-][\w.-]*$/.test(job.name)) {
+    throw new Error(`${label} has an invalid name "${job.name}", use letters, digits, ".", "_" and "-"`);
+  }
+
+  if (raw.engine !== undefined) {
+    if (!(Object.values(SearchEngineType) as unknown[]).includes(raw.engine)) {
+      throw new Error(`${label} has an unknown engine "${raw.engine}"`);
+    }
+    job.engine = raw.engine as SearchEngineType;
+  }
+
+  if (raw.outputFormats !== undefined) {
+    const known = Object.values(OutputFormat) as unknown[];
+    if (!Array.isArray(raw.outputFormats) || raw.outputFormats.some(format => !known.includes(format))) {
+      throw new Error(`${label} has invalid "outputFormats", expected a list of: ${known.join(', ')}`);
+    }
+    job.outputFormats = raw.outputFormats as OutputFormat[];
+  }
+
+  if (raw.extractOptions !== undefined) {
+    if (!raw.extractOptions || typeof raw.extractOptions !== 'object') {
+      throw new Error(`${label} has invalid "extractOptions"`);
+    }
+    job.extractOptions = raw.extractOptions as Partial<ExtractOptions>;
+  }
+
+  for (const key of ['maxPages', 'maxResults'] as const) {
+    if (raw[key] !== undefined) {
+      if (typeof raw[key] !== 'number' || (raw[key] as number) <= 0) {
+        throw new Error(`${label} has invalid "${key}", expected a positive number`);
+      }
+      job[key] = raw[key] as number;
+    }
+  }
+
+  for (const key of ['outputDir', 'database'] as const) {
+    if (raw[key] !== undefined) {
+      if (typeof raw[key] !== 'string') {
+        throw new Error(`${label} has invalid "${key}", expected a path`);
+      }
+      job[key] = raw[key] as string;
+    }
+  }
+
+  return job;
+}
+
+/**
+ * Build a file system safe job name from a query
+ *
+ * @param query Search query
+ */
+function slugify(query: string): string {
+  return query
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .substring(0, 60) || 'job';
+}
@@ -0,0 +1,341 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { JobHistory, JobRunRecord, ScheduledJob, ScraperConfig, SchedulerHistory } from '../config/types';
+import { BrowserPool } from '../scraper/browser-manager';
+import { SearchResultScraper } from '../scraper/search-result-scraper';
+import { CronSchedule } from './cron';
+
+/**
+ * Default name of the history file, kept in the scheduler output directory
+ */
+export const SCHEDULER_HISTORY_FILE = 'scheduler-history.json';
+
+/**
+ * Number of runs kept in the history of each job
+ */
+export const JOB_HISTORY_LIMIT = 50;
+
+/**
+ * Longest delay setTimeout supports; later runs are waited for in several steps
+ */
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+/**
+ * A job with its parsed schedule
+ */
+interface ScheduleEntry {
+  job: ScheduledJob;
+  schedule: CronSchedule;
+  nextRunAt: Date | null;
+}
+
+/**
+ * Runs scheduled search jobs with one shared browser pool, so jobs that are due at the
+ * same time run side by side in their own pages.
+ * A job is never run twice at the same time: when its next run is due while the
+ * previous one is still going, the run is skipped and recorded as such.
+ */
+export class Scheduler {
+  private config: ScraperConfig;
+  private entries: ScheduleEntry[];
+  private historyFile: string;
+  private history: SchedulerHistory;
+  private pool: BrowserPool | null = null;
+  private timers = new Map<string, NodeJS.Timeout>();
+  private running = new Map<string, Promise<JobRunRecord>>();
+  private stopped = true;
+
+  /**
+   * Create a new Scheduler
+   *
+   * @param jobs Jobs to run
+   * @param config Configuration the jobs' settings are applied to; outputDir is the root of the job directories
+   * @param historyFile JSON file the run history is kept in, loaded if it exists
+   */
+  constructor(jobs: ScheduledJob[], config: ScraperConfig, historyFile: string) {
+    this.config = config;
+    this.entries = jobs.map(job => ({ job, schedule: new CronSchedule(job.schedule), nextRunAt: null }));
+    this.historyFile = historyFile;
+    this.history = this.loadHistory();
+  }
+
+  /**
+   * Launch the shared browser and schedule every job
+   */
+  async start(): Promise<void> {
+    this.stopped = false;
+    await this.getPool().getBrowser();
+
+    for (const entry of this.entries) {
+      this.scheduleNext(entry);
+    }
+    this.saveHistory();
+
+    console.log(`[SCHEDULER] Started ${this.entries.length} jobs`);
+  }
+
+  /**
+   * Run every job once, one after the other, without scheduling
+   *
+   * @returns The outcome of each job by job name
+   */
+  async runOnce(): Promise<Record<string, JobRunRecord>> {
+    const records: Record<string, JobRunRecord> = {};
+
+    try {
+      for (const entry of this.entries) {
+        records[entry.job.name] = await this.runJob(entry.job);
+      }
+    } finally {
+      await this.closeBrowser();
+    }
+
+    return records;
+  }
+
+  /**
+   * Stop scheduling, wait for running jobs and close the browser
+   */
+  async stop(): Promise<void> {
+    this.stopped = true;
+
+    for (const timer of this.timers.values()) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+
+    if (this.running.size > 0) {
+      console.log(`[SCHEDULER] Waiting for ${this.running.size} running jobs`);
+      await Promise.all(this.running.values());
+    }
+
+    await this.closeBrowser();
+    console.log('[SCHEDULER] Stopped');
+  }
+
+  /**
+   * Get the run history of all jobs
+   */
+  getHistory(): SchedulerHistory {
+    return this.history;
+  }
+
+  /**
+   * Set a timer for the next run of a job
+   *
+   * @param entry Job to schedule
+   */
+  private scheduleNext(entry: ScheduleEntry): void {
+    if (this.stopped) {
+      return;
+    }
+
+    const nextRunAt = entry.nextRunAt && entry.nextRunAt.getTime() > Date.now()
+      ? entry.nextRunAt
+      : entry.schedule.next(new Date());
+    entry.nextRunAt = nextRunAt;
+    this.getJobHistory(entry.job.name).nextRunAt = nextRunAt.toISOString();
+
+    const delay = Math.min(nextRunAt.getTime() - Date.now(), MAX_TIMER_DELAY);
+    this.timers.set(entry.job.name, setTimeout(() => {
+      if (Date.now() < nextRunAt.getTime()) {
+        // Woke up early because of the timer limit
+        this.scheduleNext(entry);
+        return;
+      }
+
+      entry.nextRunAt = null;
+      this.trigger(entry);
+      this.scheduleNext(entry);
+      this.saveHistory();
+    }, Math.max(0, delay)));
+
+    console.log(`[SCHEDULER] Next run of "${entry.job.name}" at ${nextRunAt.toISOString()}`);
+  }
+
+  /**
+   * Start a due run of a job unless its previous run is still going
+   *
+   * @param entry Job to run
+   */
+  private trigger(entry: ScheduleEntry): void {
+    const name = entry.job.name;
+
+    if (this.running.has(name)) {
+      console.log(`[SCHEDULER] Skipping "${name}", the previous run is still going`);
+      this.record(name, { startedAt: new Date().toISOString(), durationMs: 0, status: 'skipped' });
+      return;
+    }
+
+    const run = this.runJob(entry.job).finally(() => this.running.delete(name));
+    this.running.set(name, run);
+  }
+
+  /**
+   * Run a job and record the outcome. Never throws.
+   *
+   * @param job Job to run
+   */
+  private async runJob(job: ScheduledJob): Promise<JobRunRecord> {
+    const startedAt = new Date();
+    const startTime = performance.now();
+    console.log(`[SCHEDULER] Running "${job.name}": "${job.query}"`);
+
+    let record: JobRunRecord;
+    try {
+      const scraper = new SearchResultScraper(this.buildJobConfig(job), { pool: this.getPool() });
+      const results = await scraper.run();
+
+      record = {
+        startedAt: startedAt.toISOString(),
+        durationMs: performance.now() - startTime,
+        status: 'success',
+        runId: scraper.getLastRun()?.runId,
+        organicResults: results.organicResults?.length || 0
+      };
+      console.log(`[SCHEDULER] "${job.name}" succeeded with ${record.organicResults} organic results`);
+    } catch (error) {
+      record = {
+        startedAt: startedAt.toISOString(),
+        durationMs: performance.now() - startTime,
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error)
+      };
+      console.error(`[SCHEDULER] "${job.name}" failed: ${record.error}`);
+    }
+
+    this.record(job.name, record);
+    return record;
+  }
+
+  /**
+   * Apply a job's settings to the scheduler configuration
+   *
+   * @param job Job to configure
+   */
+  private buildJobConfig(job: ScheduledJob): ScraperConfig {
+    return {
+      ...this.config,
+      searchQuery: job.query,
+      engine: job.engine ?? this.config.engine,
+      extractOptions: { ...this.config.extractOptions, ...job.extractOptions },
+      maxPages: job.maxPages ?? this.config.maxPages,
+      maxResults: job.maxResults ?? this.config.maxResults,
+      outputDir: job.outputDir || path.join(this.config.outputDir, job.name),
+      outputFormats: job.outputFormats ?? this.config.outputFormats,
+      database: job.database ?? this.config.database
+    };
+  }
+
+  /**
+   * Get the shared browser pool, creating it after the scheduler was stopped.
+   * The pool launches the browser again if it crashed.
+   */
+  private getPool(): BrowserPool {
+    if (!this.pool) {
+      this.pool = new BrowserPool({ headless: this.config.headless, slowMo: this.config.slowMo });
+    }
+    return this.pool;
+  }
+
+  /**
+   * Close the shared browser
+   */
+  private async closeBrowser(): Promise<void> {
+    if (this.pool) {
+      await this.pool.close();
+      this.pool = null;
+    }
+  }
+
+  /**
+   * Add a run to the history of a job and save the history
+   *
+   * @param name Job name
+   * @param record Outcome of the run
+   */
+  private record(name: string, record: JobRunRecord): void {
+    const history = this.getJobHistory(name);
+
+    history.runs.push(record);
+    history.runs = history.runs.slice(-JOB_HISTORY_LIMIT);
+    history.lastRunAt = record.startedAt;
+    history.lastStatus = record.status;
+
+    if (record.status === 'success') {
+      history.successCount++;
+    } else if (record.status === 'failed') {
+      history.failureCount++;
+      history.lastError = record.error || null;
+    } else {
+      history.skippedCount++;
+    }
+
+    this.saveHistory();
+  }
+
+  /**
+   * Get the history of a job, creating an empty one for new jobs
+   *
+   * @param name Job name
+   */
+  private getJobHistory(name: string): JobHistory {
+    if (!this.history.jobs[name]) {
+      this.history.jobs[name] = {
+        lastRunAt: null,
+        lastStatus: null,
+        lastError: null,
+        nextRunAt: null,
+        successCount: 0,
+        failureCount: 0,
+        skippedCount: 0,
+        runs: []
+      };
+    }
+    return this.history.jobs[name];
+  }
+
+  /**
+   * Load the history file, starting a new history if it doesn't exist
+   */
+  private loadHistory(): SchedulerHistory {
+    if (fs.existsSync(this.historyFile)) {
+      try {
+        const history: unknown = JSON.parse(fs.readFileSync(this.historyFile, 'utf-8'));
+        if (isSchedulerHistory(history)) {
+          return history;
+        }
+        console.error(`Scheduler history ${this.historyFile} has no "jobs" object, starting a new one`);
+      } catch (error) {
+        console.error(`Error reading scheduler history ${this.historyFile}, starting a new one: ${error}`);
+      }
+    }
+    return { updatedAt: new Date().toISOString(), jobs: {} };
+  }
+
+  /**
+   * Write the history file
+   */
+  private saveHistory(): void {
+    try {
+      this.history.updatedAt = new Date().toISOString();
+      fs.mkdirSync(path.dirname(path.resolve(this.historyFile)), { recursive: true });
+      fs.writeFileSync(this.historyFile, JSON.stringify(this.history, null, 2));
+    } catch (error) {
+      console.error(`Error saving scheduler history to ${this.historyFile}: ${error}`);
+    }
+  }
+}
+
+/**
+ * Check that parsed JSON has the shape of a scheduler history
+ *
+ * @param value Parsed history file
+ */
+function isSchedulerHistory(value: unknown): value is SchedulerHistory {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return false;
+  }
+  const jobs = (value as Record<string, unknown>).jobs;
+  return !!jobs && typeof jobs === 'object' && !Array.isArray(jobs);
+}
@@ -1,5 +1,6 @@
 import * as puppeteer from 'puppeteer';
-import { BROWSER_CONFIG, DEFAULT_USER_AGENT } from '../config/default-config';
+import { BrowserPoolOptions } from '../config/types';
+import { BROWSER_CONFIG, BROWSER_POOL_DEFAULTS, DEFAULT_USER_AGENT } from '../config/default-config';
 
 /**
  * Manages browser initialization and cleanup
@@ -9,35 +10,107 @@ export class BrowserManager {
   private page: puppeteer.Page | null = null;
   private headless: boolean;
   private slowMo: number;
+  private sharedBrowser: puppeteer.Browser | null;
+  private pool: BrowserPool | null;
+  // Pages from newPage() that belong to the pool
+  private nestedPages = new Set<puppeteer.Page>();
+  // Pages with JavaScript and network access disabled can't go back to a pool
+  private staticContent = false;
 
   /**
    * Create a new BrowserManager
    * 
    * @param headless Whether to run the browser in headless mode
    * @param slowMo Slow down operations by the specified amount of milliseconds
+   * @param shared Already running browser to open a page in, or pool to take the page from;
+   *   it is left running on close
    */
-  constructor(headless: boolean = false, slowMo: number = 0) {
+  constructor(headless: boolean = false, slowMo: number = 0, shared?: puppeteer.Browser | BrowserPool) {
     this.headless = headless;
     this.slowMo = slowMo;
+    this.pool = shared instanceof BrowserPool ? shared : null;
+    this.sharedBrowser = shared && !(shared instanceof BrowserPool) ? shared : null;
   }
 
   /**
    * Initialize the browser and page
    */
   async initialize(): Promise<void> {
-    console.log('Initializing browser...');
+    if (this.pool) {
+      this.page = await this.pool.acquire();
+      this.browser = this.page.browser();
+      this.staticContent = false;
+      return;
+    }
     
-    this.browser = await puppeteer.launch({
-      headless: this.headless,
-      slowMo: this.slowMo,
-      ...BROWSER_CONFIG
-    });
+    if (this.sharedBrowser) {
+      console.log('Opening page in shared browser...');
+      this.browser = this.sharedBrowser;
+    } else {
+      console.log('Initializing browser...');
+      
+      this.browser = await puppeteer.launch({
+        headless: this.headless,
+        slowMo: this.slowMo,
+        ...BROWSER_CONFIG
+      });
+    }
+    
+    this.page = await this.newPage();
+  }
+
+  /**
+   * Open an additional page with the default viewport and user agent.
+   * With a pool the page is taken from the pool as a nested page, so it counts against its limits.
+   * Give it back with closePage().
+   */
+  async newPage(): Promise<puppeteer.Page> {
+    if (this.pool && this.page) {
+      const page = await this.pool.acquire({ nested: true });
+      this.nestedPages.add(page);
+      return page;
+    }
+
+    // Extra pages join the context of the main page
+    const page = this.page
+      ? await this.page.browserContext().newPage()
+      : await this.getBrowser().newPage();
+    await preparePage(page);
+    
+    return page;
+  }
+
+  /**
+   * Close a page from newPage(), or give it back to the pool it was taken from
+   * 
+   * @param page Page from newPage()
+   */
+  async closePage(page: puppeteer.Page): Promise<void> {
+    if (this.pool && this.nestedPages.delete(page)) {
+      await this.pool.release(page);
+    } else if (!page.isClosed()) {
+      await page.close();
+    }
+  }
+
+  /**
+   * Load static HTML into the page with JavaScript and all network requests disabled
+   * 
+   * @param html HTML to load
+   * @param timeout Timeout in milliseconds
+   */
+  async loadStaticContent(html: string, timeout: number = 30000): Promise<void> {
+    const page = this.getPage();
     
-    this.page = await this.browser.newPage();
-    await this.page.setViewport(BROWSER_CONFIG.defaultViewport);
+    // Block every request so images, scripts and tracking pixels stay offline
+    this.staticContent = true;
+    await page.setJavaScriptEnabled(false);
+    await page.setRequestInterception(true);
+    page.on('request', request => {
+      request.abort().catch(() => undefined);
+    });
     
-    // Set user agent to avoid detection
-    await this.page.setUserAgent(DEFAULT_USER_AGENT);
+    await page.setContent(html, { waitUntil: 'load', timeout });
   }
 
   /**
@@ -69,9 +142,29 @@ export class BrowserManager {
 
   /**
    * Close the browser and clean up resources
+   * 
+   * @param options.discard Close a pooled page instead of giving it back for reuse,
+   *   e.g. to stop a search that is still running on it
    */
-  async close(): Promise<void> {
-    if (this.browser) {
+  async close(options: { discard?: boolean } = {}): Promise<void> {
+    if (this.pool) {
+      const nested = [...this.nestedPages];
+      this.nestedPages.clear();
+      await Promise.all(nested.map(page => this.pool?.release(page)));
+      if (this.page) {
+        await this.pool.release(this.page, { discard: options.discard || this.staticContent });
+      }
+      this.browser = null;
+      this.page = null;
+    } else if (this.sharedBrowser) {
+      // Only close our own page, the shared browser belongs to someone else
+      if (this.page && !this.page.isClosed()) {
+        await this.page.close();
+      }
+      this.browser = null;
+      this.page = null;
+      console.log('Page closed');
+    } else if (this.browser) {
       await this.browser.close();
       this.browser = null;
       this.page = null;
@@ -79,3 +172,339 @@ export class BrowserManager {
     }
   }
 }
+
+/**
+ * A page handed out by a BrowserPool
+ */
+interface PooledPage {
+  page: puppeteer.Page;
+  // Incognito context the page was opened in, if contexts are isolated
+  context: puppeteer.BrowserContext | null;
+  browser: puppeteer.Browser;
+  uses: number;
+}
+
+/**
+ * Kind of slot a page is handed out in
+ */
+type SlotKind = 'page' | 'nested';
+
+/**
+ * Hands out pages of one browser to concurrent users.
+ * At most maxPages pages are in use at a time; further callers wait for a page to be released.
+ * Users that already hold a page and need a second one, like a search following up on its results,
+ * acquire it as nested. Nested pages have their own nestedPages slots, so they never wait for
+ * pages held by other users that may be waiting for nested pages themselves.
+ * Released pages are reused until they reach maxUsesPerPage, then replaced by fresh ones.
+ * A browser that crashes or disconnects is launched again on the next acquire().
+ */
+export class BrowserPool {
+  private options: BrowserPoolOptions;
+  private browser: puppeteer.Browser | null = null;
+  private launching: Promise<puppeteer.Browser> | null = null;
+  private pages = new Map<puppeteer.Page, PooledPage>();
+  private idle: PooledPage[] = [];
+  // Pages handed out and not yet released, by the slot they take
+  private held = new Map<puppeteer.Page, SlotKind>();
+  // Slots taken, including those of pages that are still being opened
+  private slots: Record<SlotKind, number> = { page: 0, nested: 0 };
+  private waiters: Record<SlotKind, (() => void)[]> = { page: [], nested: [] };
+  private closed = false;
+
+  /**
+   * Create a new BrowserPool. The browser is launched with the first acquire().
+   *
+   * @param options Pool settings, defaults to BROWSER_POOL_DEFAULTS
+   */
+  constructor(options: Partial<BrowserPoolOptions> = {}) {
+    // Options left undefined keep their defaults
+    const given = Object.fromEntries(Object.entries(options).filter(([, value]) => value !== undefined));
+    this.options = { ...BROWSER_POOL_DEFAULTS, ...given };
+    this.options.maxPages = Math.max(1, Math.floor(this.options.maxPages));
+    this.options.nestedPages = Math.max(0, Math.floor(this.options.nestedPages));
+    this.options.maxUsesPerPage = Math.max(1, Math.floor(this.options.maxUsesPerPage));
+  }
+
+  /**
+   * Take a page, waiting while all pages are in use.
+   * The page must be given back with release().
+   *
+   * @param options.nested Take one of the nestedPages slots, for a caller that already holds a page
+   * @throws Error if the pool is closed, or a nested page is asked for and nestedPages is 0
+   */
+  async acquire(options: { nested?: boolean } = {}): Promise<puppeteer.Page> {
+    const kind: SlotKind = options.nested ? 'nested' : 'page';
+    const limit = kind === 'nested' ? this.options.nestedPages : this.options.maxPages;
+    if (limit === 0) {
+      // Waiting would never end
+      throw new Error('Browser pool has no nested pages, set nestedPages to open a second page');
+    }
+
+    while (true) {
+      if (this.closed) {
+        throw new Error('Browser pool is closed');
+      }
+
+      if (this.slots[kind] < limit) {
+        this.slots[kind]++;
+        try {
+          const page = await this.takePage();
+          this.held.set(page, kind);
+          return page;
+        } catch (error) {
+          // The slot is free again
+          this.slots[kind]--;
+          this.wakeWaiter(kind);
+          throw error;
+        }
+      }
+
+      await new Promise<void>(resolve => this.waiters[kind].push(resolve));
+    }
+  }
+
+  /**
+   * Give a page back to the pool
+   *
+   * @param page Page from acquire()
+   * @param options.discard Close the page instead of reusing it, e.g. after an error
+   */
+  async release(page: puppeteer.Page, options: { discard?: boolean } = {}): Promise<void> {
+    const kind = this.held.get(page);
+    if (!kind) {
+      return;
+    }
+    this.held.delete(page);
+
+    try {
+      const entry = this.pages.get(page);
+      if (!entry) {
+        // Its browser crashed and the pool already forgot it
+        return;
+      }
+
+      const reusable = !options.discard
+        && !this.closed
+        && entry.browser === this.browser
+        && entry.uses < this.options.maxUsesPerPage
+        && !page.isClosed();
+
+      if (reusable) {
+        try {
+          // Leave the previous site so it stops running in the background
+          await page.goto('about:blank');
+          this.idle.push(entry);
+        } catch {
+          await this.discard(entry);
+        }
+      } else {
+        await this.discard(entry);
+      }
+    } finally {
+      this.slots[kind]--;
+      this.wakeWaiter(kind);
+    }
+  }
+
+  /**
+   * Run a function with a page from the pool. The page is discarded if the function fails.
+   *
+   * @param task Function to run
+   */
+  async withPage<T>(task: (page: puppeteer.Page) => Promise<T>): Promise<T> {
+    const page = await this.acquire();
+    let failed = false;
+
+    try {
+      return await task(page);
+    } catch (error) {
+      failed = true;
+      throw error;
+    } finally {
+      await this.release(page, { discard: failed });
+    }
+  }
+
+  /**
+   * Get the browser, launching it if it is not running
+   */
+  async getBrowser(): Promise<puppeteer.Browser> {
+    if (this.browser && this.browser.isConnected()) {
+      return this.browser;
+    }
+
+    // Concurrent callers wait for the same launch
+    if (!this.launching) {
+      this.launching = this.launch().finally(() => {
+        this.launching = null;
+      });
+    }
+    return this.launching;
+  }
+
+  /**
+   * Get the number of open, used and idle pages and of callers waiting for one
+   */
+  getStats(): { open: number; inUse: number; idle: number; waiting: number } {
+    return {
+      open: this.pages.size,
+      inUse: this.held.size,
+      idle: this.idle.length,
+      waiting: this.waiters.page.length + this.waiters.nested.length
+    };
+  }
+
+  /**
+   * Close the browser. Waiting and later acquire() calls fail.
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+    this.wakeAll();
+
+    if (this.launching) {
+      await this.launching.catch(() => undefined);
+    }
+
+    const browser = this.browser;
+    this.browser = null;
+    this.pages.clear();
+    this.idle = [];
+
+    if (browser) {
+      await browser.close().catch(() => undefined);
+      console.log('Browser pool closed');
+    }
+  }
+
+  /**
+   * Reuse an idle page of the running browser or open a new one
+   */
+  private async takePage(): Promise<puppeteer.Page> {
+    const browser = await this.getBrowser();
+
+    let idle = this.idle.pop();
+    while (idle) {
+      if (idle.browser === browser && !idle.page.isClosed()) {
+        idle.uses++;
+        return idle.page;
+      }
+      await this.discard(idle);
+      idle = this.idle.pop();
+    }
+
+    const entry = await this.openPage(browser);
+    this.pages.set(entry.page, entry);
+    return entry.page;
+  }
+
+  /**
+   * Launch the browser and watch for crashes
+   */
+  private async launch(): Promise<puppeteer.Browser> {
+    if (this.browser) {
+      console.warn('Browser disconnected, launching a new one');
+      this.forgetBrowser(this.browser);
+    }
+
+    console.log('Initializing browser pool...');
+    const browser = await puppeteer.launch({
+      headless: this.options.headless,
+      slowMo: this.options.slowMo,
+      ...BROWSER_CONFIG
+    });
+
+    browser.on('disconnected', () => {
+      if (this.browser === browser && !this.closed) {
+        console.warn('Browser disconnected');
+        this.forgetBrowser(browser);
+      }
+    });
+
+    this.browser = browser;
+    return browser;
+  }
+
+  /**
+   * Drop the pages of a browser that is gone. Pages still held keep their slot until released.
+   *
+   * @param browser Browser that disconnected
+   */
+  private forgetBrowser(browser: puppeteer.Browser): void {
+    if (this.browser === browser) {
+      this.browser = null;
+    }
+    for (const [page, entry] of this.pages) {
+      if (entry.browser === browser) {
+        this.pages.delete(page);
+      }
+    }
+    this.idle = this.idle.filter(entry => entry.browser !== browser);
+  }
+
+  /**
+   * Open a page, in its own incognito context if contexts are isolated
+   *
+   * @param browser Browser to open the page in
+   */
+  private async openPage(browser: puppeteer.Browser): Promise<PooledPage> {
+    const context = this.options.isolateContexts ? await browser.createIncognitoBrowserContext() : null;
+
+    try {
+      const page = context ? await context.newPage() : await browser.newPage();
+      await preparePage(page);
+      return { page, context, browser, uses: 1 };
+    } catch (error) {
+      await context?.close().catch(() => undefined);
+      throw error;
+    }
+  }
+
+  /**
+   * Close a page for good
+   *
+   * @param entry Page to close
+   */
+  private async discard(entry: PooledPage): Promise<void> {
+    this.pages.delete(entry.page);
+
+    try {
+      if (entry.context) {
+        await entry.context.close();
+      } else if (!entry.page.isClosed()) {
+        await entry.page.close();
+      }
+    } catch {
+      // The browser may already be gone
+    }
+  }
+
+  /**
+   * Let the longest waiting caller for a kind of slot try again
+   *
+   * @param kind Kind of slot that was freed
+   */
+  private wakeWaiter(kind: SlotKind): void {
+    this.waiters[kind].shift()?.();
+  }
+
+  /**
+   * Let every waiting caller try again
+   */
+  private wakeAll(): void {
+    for (const kind of ['page', 'nested'] as const) {
+      this.waiters[kind].splice(0).forEach(resolve => resolve());
+    }
+  }
+}
+
+/**
+ * Apply the default viewport and user agent to a new page
+ *
+ * @param page Page to set up
+ */
+async function preparePage(page: puppeteer.Page): Promise<void> {
+  await page.setViewport(BROWSER_CONFIG.defaultViewport);
+  
+  // Set user agent to avoid detection
+  await page.setUserAgent(DEFAULT_USER_AGENT);
+}
@@ -0,0 +1,79 @@
+import { TimeoutError } from 'puppeteer';
+import { CrawlOutcome, CrawlRetryOptions } from '../config/types';
+
+/**
+ * HTTP statuses that may go away on their own and are worth retrying
+ */
+const RETRYABLE_STATUS_CODES = [408, 425, 429];
+
+/**
+ * Error of a failed crawl with the outcome it is reported as
+ */
+export class CrawlError extends Error {
+  readonly outcome: Exclude<CrawlOutcome, 'success'>;
+  readonly statusCode: number | null;
+
+  /**
+   * Create a new CrawlError
+   *
+   * @param outcome How the crawl failed
+   * @param message Error message
+   * @param statusCode HTTP status of the response, null if there was none
+   */
+  constructor(outcome: Exclude<CrawlOutcome, 'success'>, message: string, statusCode: number | null = null) {
+    super(message);
+    this.name = 'CrawlError';
+    this.outcome = outcome;
+    this.statusCode = statusCode;
+  }
+}
+
+/**
+ * Turn an error thrown while crawling into a CrawlError.
+ * Puppeteer timeouts become "timeout", anything else that isn't a CrawlError yet "navigation-error".
+ *
+ * @param error Error to classify
+ */
+export function toCrawlError(error: unknown): CrawlError {
+  if (error instanceof CrawlError) {
+    return error;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  if (error instanceof TimeoutError) {
+    return new CrawlError('timeout', message);
+  }
+  return new CrawlError('navigation-error', message);
+}
+
+/**
+ * Check whether a failed crawl may succeed when tried again.
+ * Timeouts, navigation errors, server errors and rate limiting are retried; other client errors are not.
+ *
+ * @param error Error of the failed attempt
+ */
+export function isRetryable(error: CrawlError): boolean {
+  if (error.outcome !== 'http-error') {
+    return true;
+  }
+  return error.statusCode !== null && (error.statusCode >= 500 || RETRYABLE_STATUS_CODES.includes(error.statusCode));
+}
+
+/**
+ * Get the delay before a retry: exponential backoff with jitter
+ *
+ * @param retry Number of the retry, starting at 1
+ * @param options Retry settings
+ * @param random Source of random numbers in [0, 1)
+ * @returns Delay in milliseconds
+ */
+export function getRetryDelay(
+  retry: number,
+  options: CrawlRetryOptions,
+  random: () => number = Math.random
+): number {
+  const delay = Math.min(options.maxDelay, options.baseDelay * 2 ** (retry - 1));
+  const jitter = Math.min(Math.max(options.jitter, 0), 1);
+
+  return Math.round(delay * (1 - jitter + 2 * jitter * random()));
+}
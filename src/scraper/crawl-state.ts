@@ -0,0 +1,206 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { CrawlStateEntry, CrawlStateFile, CrawlUrlResult } from '../config/types';
+
+/**
+ * Name of the crawl state file in the output folder
+ */
+export const CRAWL_STATE_FILE = 'crawl-state.json';
+
+/**
+ * Version of the crawl state file format
+ */
+export const CRAWL_STATE_VERSION = 1;
+
+/**
+ * Progress of a crawl, kept in the output folder so a crawl that was interrupted
+ * or had failures can be run again without repeating the URLs that completed.
+ * The file is rewritten after every URL.
+ */
+export class CrawlState {
+  private outputFolder: string;
+  private statePath: string;
+  private state: CrawlStateFile;
+
+  /**
+   * Create a new CrawlState with no progress; call load() to continue an earlier crawl
+   *
+   * @param outputFolder Output folder of the crawl
+   */
+  constructor(outputFolder: string) {
+    this.outputFolder = outputFolder;
+    this.statePath = path.join(outputFolder, CRAWL_STATE_FILE);
+    this.state = createState();
+  }
+
+  /**
+   * Check whether an output folder has a crawl state file
+   *
+   * @param outputFolder Output folder of the crawl
+   */
+  static exists(outputFolder: string): boolean {
+    return fs.existsSync(path.join(outputFolder, CRAWL_STATE_FILE));
+  }
+
+  /**
+   * Load the progress of an earlier crawl into the output folder
+   *
+   * @returns Whether there was a state file to load
+   * @throws Error if the state file can't be read
+   */
+  load(): boolean {
+    if (!fs.existsSync(this.statePath)) {
+      return false;
+    }
+
+    let state: CrawlStateFile;
+    try {
+      state = JSON.parse(fs.readFileSync(this.statePath, 'utf-8'));
+    } catch (error) {
+      throw new Error(`Invalid crawl state file ${this.statePath}: ${error instanceof Error ? error.message : error}`);
+    }
+    if (!state || state.version !== CRAWL_STATE_VERSION || typeof state.urls !== 'object' || !state.urls) {
+      throw new Error(`Unsupported crawl state file ${this.statePath}, use a new output folder or restart the crawl`);
+    }
+
+    this.state = state;
+    return true;
+  }
+
+  /**
+   * Add the URLs of a crawl that aren't known yet as pending, so a crawl that is stopped
+   * before reaching them can still be resumed with them. Call save() to write them.
+   *
+   * @param urls URLs of the crawl
+   */
+  addPending(urls: string[]): void {
+    const now = new Date().toISOString();
+    for (const url of urls) {
+      if (!this.getEntry(url)) {
+        this.state.urls[url] = { status: 'pending', statusCode: null, attempts: 0, updatedAt: now };
+      }
+    }
+  }
+
+  /**
+   * Get the URLs of the crawl in the order they were added
+   */
+  getUrls(): string[] {
+    return Object.keys(this.state.urls);
+  }
+
+  /**
+   * Get the progress of a URL
+   *
+   * @param url URL to look up
+   */
+  getEntry(url: string): CrawlStateEntry | undefined {
+    return Object.prototype.hasOwnProperty.call(this.state.urls, url) ? this.state.urls[url] : undefined;
+  }
+
+  /**
+   * Check whether a URL was crawled successfully and its HTML file is still as saved
+   *
+   * @param url URL to check
+   */
+  isCompleted(url: string): boolean {
+    const entry = this.getEntry(url);
+    if (!entry || entry.status !== 'success' || !entry.filePath) {
+      return false;
+    }
+
+    const filePath = this.resolve(entry.filePath);
+    if (!fs.existsSync(filePath)) {
+      return false;
+    }
+    return !entry.contentHash || hashContent(fs.readFileSync(filePath)) === entry.contentHash;
+  }
+
+  /**
+   * Get the result of a URL that completed in an earlier run
+   *
+   * @param url Completed URL
+   */
+  getCompletedResult(url: string): CrawlUrlResult {
+    const entry = this.getEntry(url);
+    if (!entry || !entry.filePath) {
+      throw new Error(`${url} has not been crawled`);
+    }
+
+    return {
+      url,
+      outcome: 'success',
+      statusCode: entry.statusCode,
+      attempts: 0,
+      filePath: this.resolve(entry.filePath),
+      contentHash: entry.contentHash,
+      skipped: true,
+      durationMs: 0
+    };
+  }
+
+  /**
+   * Record the result of a URL and save the state file
+   *
+   * @param result Result of crawling the URL
+   */
+  record(result: CrawlUrlResult): void {
+    const previous = this.getEntry(result.url);
+
+    const entry: CrawlStateEntry = {
+      status: result.outcome,
+      statusCode: result.statusCode,
+      attempts: (previous?.attempts || 0) + result.attempts,
+      updatedAt: new Date().toISOString()
+    };
+    if (result.filePath) {
+      entry.filePath = path.relative(this.outputFolder, result.filePath);
+      entry.contentHash = result.contentHash;
+    }
+    if (result.error) {
+      entry.error = result.error;
+    }
+
+    this.state.urls[result.url] = entry;
+    this.save();
+  }
+
+  /**
+   * Write the state file. It is replaced in one step, so an interrupted write leaves the previous one.
+   */
+  save(): void {
+    this.state.updatedAt = new Date().toISOString();
+    fs.mkdirSync(this.outputFolder, { recursive: true });
+
+    const tempPath = `${this.statePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(this.state, null, 2));
+    fs.renameSync(tempPath, this.statePath);
+  }
+
+  /**
+   * Get the path of a file stored relative to the output folder
+   *
+   * @param filePath Stored path
+   */
+  private resolve(filePath: string): string {
+    return path.join(this.outputFolder, filePath);
+  }
+}
+
+/**
+ * Get the SHA-256 hash of saved content
+ *
+ * @param content Content to hash
+ */
+export function hashContent(content: string | Buffer): string {
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Create an empty crawl state
+ */
+function createState(): CrawlStateFile {
+  const now = new Date().toISOString();
+  return { version: CRAWL_STATE_VERSION, createdAt: now, updatedAt: now, urls: {} };
+}
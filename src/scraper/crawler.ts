@@ -1,8 +1,13 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as puppeteer from 'puppeteer';
-import { BrowserManager } from './browser-manager';
-import { TimingData } from '../config/types';
+import { BrowserPool } from './browser-manager';
+import { TimingData, ExtractedContent, CrawlReport, CrawlRetryOptions, CrawlUrlResult } from '../config/types';
+import { CRAWL_RETRY_DEFAULTS } from '../config/default-config';
+import { extractContent } from '../content/content-extractor';
+import { pageToMarkdown } from '../content/markdown-converter';
+import { CrawlError, getRetryDelay, isRetryable, toCrawlError } from './crawl-retry';
+import { CRAWL_STATE_FILE, CrawlState, hashContent } from './crawl-state';
 
 /**
  * Format milliseconds to a readable string
@@ -52,24 +57,62 @@ function displayTimingSummary(timingData: any, totalTime: number): void {
   console.log('');
 }
 
+/**
+ * Format the final report of a multiple crawl, listing every failed URL
+ * @param results Results of all URLs
+ * @returns Report text
+ */
+function formatCrawlReport(results: CrawlUrlResult[]): string {
+  const failures = results.filter(result => result.outcome !== 'success');
+  const skipped = results.filter(result => result.skipped).length;
+  const lines = ['\n=== CRAWL REPORT ===\n', `Succeeded: ${results.length - failures.length} of ${results.length}`];
+  
+  if (skipped > 0) {
+    lines.push(`Skipped: ${skipped} completed in an earlier run`);
+  }
+  
+  if (failures.length > 0) {
+    lines.push(`Failed: ${failures.length}`);
+    for (const failure of failures) {
+      const status = failure.statusCode !== null ? ` ${failure.statusCode}` : '';
+      const attempts = `${failure.attempts} attempt${failure.attempts === 1 ? '' : 's'}`;
+      lines.push(`- ${failure.url}: ${failure.outcome}${status} after ${attempts} (${failure.error})`);
+    }
+  }
+  
+  return lines.join('\n') + '\n';
+}
+
 /**
  * Simple crawler that downloads HTML content from a URL
  */
 export class Crawler {
-  private browserManager: BrowserManager;
+  private pool: BrowserPool;
+  // Whether the pool was created by this crawler and is closed with it
+  private ownsPool: boolean;
+  // Pages of crawls that are running, closed when the crawler is closed
+  private activePages = new Set<puppeteer.Page>();
   private headless: boolean;
   private slowMo: number;
 
   /**
-   * Create a new Crawler
+   * Create a new Crawler. Every crawl() takes its own page from a browser pool,
+   * so concurrent crawls don't navigate the same tab.
    * 
    * @param headless Whether to run the browser in headless mode
    * @param slowMo Slow down operations by the specified amount of milliseconds
+   * @param options.pool Shared browser pool to take pages from instead of launching a browser
+   * @param options.maxPages Number of pages crawled at the same time when the crawler launches its own browser
    */
-  constructor(headless: boolean = true, slowMo: number = 0) {
+  constructor(
+    headless: boolean = true,
+    slowMo: number = 0,
+    options: { pool?: BrowserPool; maxPages?: number } = {}
+  ) {
     this.headless = headless;
     this.slowMo = slowMo;
-    this.browserManager = new BrowserManager(headless, slowMo);
+    this.ownsPool = !options.pool;
+    this.pool = options.pool || new BrowserPool({ headless, slowMo, maxPages: options.maxPages });
   }
 
   /**
@@ -78,7 +121,14 @@ export class Crawler {
    * @param url URL to crawl
    * @param outputFolder Folder to save the output to
    * @param options Additional options for crawling
-   * @returns Path to the saved HTML file and timing data
+   * @param options.extractContent Also save the main content without boilerplate to <filename>.content.json
+   * @param options.markdown Also save the page as Markdown with front matter to <filename>.md
+   * @param options.failOnHttpError Fail without saving anything when the page answers with a status of 400 or more;
+   *   by default error pages are saved like any other page
+   * @returns Path to the saved HTML file, the main content if requested, the HTTP status,
+   *   the hash of the HTML and timing data
+   * @throws CrawlError when the page times out or fails to load, or answers with an HTTP error and
+   *   failOnHttpError is set
    */
   async crawl(
     url: string, 
@@ -88,8 +138,18 @@ export class Crawler {
       waitForSelector?: string;
       timeout?: number;
       filename?: string;
+      extractContent?: boolean;
+      markdown?: boolean;
+      failOnHttpError?: boolean;
     } = {}
-  ): Promise<{ filePath: string; timingData: TimingData }> {
+  ): Promise<{
+    filePath: string;
+    markdownFilePath?: string;
+    content?: ExtractedContent;
+    statusCode: number | null;
+    contentHash: string;
+    timingData: TimingData;
+  }> {
     const timingData: TimingData = {
       steps: {},
       extractionSteps: {}
@@ -98,26 +158,27 @@ export class Crawler {
     const startTime = performance.now();
     console.log(`[TIMER] Start: ${new Date().toISOString()}`);
     
+    let page: puppeteer.Page | null = null;
+    let failed = true;
+    
     try {
-      // Initialize browser if not already initialized
+      // Take a page from the pool, launching the browser if needed
       console.log('[TIMER] Starting browser initialization');
       const browserStartTime = performance.now();
-      if (!this.browserManager.isInitialized()) {
-        await this.browserManager.initialize();
-      }
+      page = await this.pool.acquire();
+      this.activePages.add(page);
       const browserEndTime = performance.now();
       const browserTime = browserEndTime - browserStartTime;
       timingData.steps.browserInitialization = browserTime;
       console.log(`[TIMER] Browser initialization: ${browserTime.toFixed(2)}ms`);
       
-      const page = this.browserManager.getPage();
-      
       console.log(`Navigating to ${url}...`);
       console.log('[TIMER] Starting page navigation');
       const navigationStartTime = performance.now();
       
       // Navigate to the URL
-      await page.goto(url, {
+      const fetchedAt = new Date().toISOString();
+      const response = await page.goto(url, {
         waitUntil: 'networkidle2',
         timeout: options.timeout || 30000
       });
@@ -127,6 +188,11 @@ export class Crawler {
       timingData.steps.pageNavigation = navigationTime;
       console.log(`[TIMER] Page navigation: ${navigationTime.toFixed(2)}ms`);
       
+      const statusCode = response ? response.status() : null;
+      if (options.failOnHttpError && statusCode !== null && statusCode >= 400) {
+        throw new CrawlError('http-error', `HTTP ${statusCode} for ${url}`, statusCode);
+      }
+      
       // Wait for a specific selector if provided
       if (options.waitForSelector) {
         console.log(`Waiting for selector: ${options.waitForSelector}...`);
@@ -171,6 +237,39 @@ export class Crawler {
       console.log(`[TIMER] HTML save: ${saveTime.toFixed(2)}ms`);
       console.log(`HTML content saved to ${htmlFilePath}`);
       
+      // Extract the main content if requested
+      let content: ExtractedContent | undefined;
+      if (options.extractContent) {
+        console.log('[TIMER] Starting main content extraction');
+        const mainContentStartTime = performance.now();
+        content = await extractContent(page);
+        const contentFilePath = path.join(outputFolder, `${filename}.content.json`);
+        fs.writeFileSync(contentFilePath, JSON.stringify({ url, ...content }, null, 2));
+        const mainContentEndTime = performance.now();
+        const mainContentTime = mainContentEndTime - mainContentStartTime;
+        timingData.steps.mainContentExtraction = mainContentTime;
+        console.log(`[TIMER] Main content extraction: ${mainContentTime.toFixed(2)}ms`);
+        console.log(`Main content saved to ${contentFilePath}`);
+      }
+      
+      // Save the page as Markdown if requested
+      let markdownFilePath: string | undefined;
+      if (options.markdown) {
+        console.log('[TIMER] Starting Markdown conversion');
+        const markdownStartTime = performance.now();
+        const markdown = await pageToMarkdown(page, {
+          fetchedAt,
+          statusCode
+        });
+        markdownFilePath = path.join(outputFolder, `${filename}.md`);
+        fs.writeFileSync(markdownFilePath, markdown);
+        const markdownEndTime = performance.now();
+        const markdownTime = markdownEndTime - markdownStartTime;
+        timingData.steps.markdownConversion = markdownTime;
+        console.log(`[TIMER] Markdown conversion: ${markdownTime.toFixed(2)}ms`);
+        console.log(`Markdown saved to ${markdownFilePath}`);
+      }
+      
       // Take a screenshot if requested
       if (options.takeScreenshot) {
         console.log('[TIMER] Starting screenshot capture');
@@ -192,20 +291,41 @@ export class Crawler {
       // Display timing summary
       displayTimingSummary(timingData, totalTime);
       
-      return { filePath: htmlFilePath, timingData };
+      failed = false;
+      return {
+        filePath: htmlFilePath,
+        markdownFilePath,
+        content,
+        statusCode,
+        contentHash: hashContent(htmlContent),
+        timingData
+      };
     } catch (error) {
       console.error(`Error crawling ${url}:`, error);
-      throw error;
+      throw toCrawlError(error);
+    } finally {
+      if (page) {
+        this.activePages.delete(page);
+        // A page that failed may be in any state, so it is not reused
+        await this.pool.release(page, { discard: failed });
+      }
     }
   }
   
   /**
-   * Crawl multiple URLs and save their HTML content
+   * Crawl multiple URLs and save their HTML content.
+   * Every URL is crawled on its own: a failing URL is retried with exponential backoff
+   * and then reported, without affecting the others.
+   * Progress is kept in a crawl state file in the output folder, so running the same
+   * crawl again skips the URLs that completed and only retries the failed ones.
    * 
    * @param urls URLs to crawl
    * @param outputFolder Folder to save the output to
    * @param options Additional options for crawling
-   * @returns Paths to the saved HTML files and timing data
+   * @param options.concurrency Number of URLs to crawl at the same time
+   * @param options.retry Retry settings, defaults to CRAWL_RETRY_DEFAULTS
+   * @param options.resume Continue from the crawl state file (default), or false to crawl every URL again
+   * @returns The outcome of every URL, the failed ones and timing data
    */
   async crawlMultiple(
     urls: string[], 
@@ -215,54 +335,142 @@ export class Crawler {
       waitForSelector?: string;
       timeout?: number;
       concurrency?: number;
+      extractContent?: boolean;
+      markdown?: boolean;
+      retry?: Partial<CrawlRetryOptions>;
+      resume?: boolean;
     } = {}
-  ): Promise<{ filePaths: string[]; timingData: TimingData }> {
+  ): Promise<CrawlReport> {
     const startTime = performance.now();
     console.log(`[TIMER] Starting multiple crawl of ${urls.length} URLs`);
     
-    const concurrency = options.concurrency || 1;
-    const results: { filePath: string; timingData: TimingData }[] = [];
-    const timingData: TimingData = {
-      steps: { totalCrawlTime: 0 },
-      extractionSteps: {}
-    };
+    const concurrency = Math.max(1, Math.floor(options.concurrency || 1));
+    const retry = { ...CRAWL_RETRY_DEFAULTS, ...options.retry };
+    const results: CrawlUrlResult[] = new Array(urls.length);
     
-    // Process URLs in batches based on concurrency
-    for (let i = 0; i < urls.length; i += concurrency) {
-      console.log(`[TIMER] Processing batch ${Math.floor(i / concurrency) + 1} of ${Math.ceil(urls.length / concurrency)}`);
-      const batchStartTime = performance.now();
-      
-      const batch = urls.slice(i, i + concurrency);
-      const promises = batch.map(url => this.crawl(url, outputFolder, options));
-      
-      const batchResults = await Promise.all(promises);
-      results.push(...batchResults);
-      
-      const batchEndTime = performance.now();
-      const batchTime = batchEndTime - batchStartTime;
-      console.log(`[TIMER] Batch processing time: ${batchTime.toFixed(2)}ms`);
-      
-      timingData.steps.totalCrawlTime = (timingData.steps.totalCrawlTime || 0) + batchTime;
+    const state = new CrawlState(outputFolder);
+    if (options.resume !== false && state.load()) {
+      console.log(`Resuming crawl from ${CRAWL_STATE_FILE}`);
+    }
+    // Every URL is on record before the first one starts, and a restarted crawl
+    // replaces the earlier state right away
+    state.addPending(urls);
+    state.save();
+    
+    // URLs that completed in an earlier run keep their files
+    const pending: number[] = [];
+    urls.forEach((url, index) => {
+      if (state.isCompleted(url)) {
+        results[index] = state.getCompletedResult(url);
+      } else {
+        pending.push(index);
+      }
+    });
+    if (pending.length < urls.length) {
+      console.log(`Skipping ${urls.length - pending.length} URLs completed earlier`);
     }
     
+    let nextIndex = 0;
+    
+    // Each worker takes the next URL until none are left
+    const worker = async () => {
+      while (nextIndex < pending.length) {
+        const index = pending[nextIndex++];
+        results[index] = await this.crawlWithRetries(urls[index], outputFolder, options, retry);
+        state.record(results[index]);
+      }
+    };
+    
+    const workerCount = Math.min(concurrency, pending.length);
+    await Promise.all(Array.from({ length: workerCount }, () => worker()));
+    
     const endTime = performance.now();
     const totalTime = endTime - startTime;
     console.log(`[TIMER] Multiple crawl completed in: ${totalTime.toFixed(2)}ms (${(totalTime / 1000).toFixed(2)}s)`);
     
+    const timingData: TimingData = {
+      steps: { totalCrawlTime: totalTime },
+      extractionSteps: {}
+    };
+    
     // Display timing summary
     displayTimingSummary(timingData, totalTime);
     
+    const failures = results.filter(result => result.outcome !== 'success');
+    console.log(formatCrawlReport(results));
+    
     return { 
-      filePaths: results.map(r => r.filePath),
+      filePaths: results.filter(result => result.filePath).map(result => result.filePath as string),
+      results,
+      failures,
       timingData 
     };
   }
   
   /**
-   * Close the browser
+   * Crawl one URL of crawlMultiple, retrying failures that may go away
+   * 
+   * @param url URL to crawl
+   * @param outputFolder Folder to save the output to
+   * @param options Crawl options
+   * @param retry Retry settings
+   */
+  private async crawlWithRetries(
+    url: string,
+    outputFolder: string,
+    options: Parameters<Crawler['crawl']>[2],
+    retry: CrawlRetryOptions
+  ): Promise<CrawlUrlResult> {
+    const startTime = performance.now();
+    let attempts = 0;
+    
+    while (true) {
+      attempts++;
+      
+      try {
+        // Error pages count as failures, so they can be retried and reported
+        const result = await this.crawl(url, outputFolder, { ...options, failOnHttpError: true });
+        return {
+          url,
+          outcome: 'success',
+          statusCode: result.statusCode,
+          attempts,
+          filePath: result.filePath,
+          markdownFilePath: result.markdownFilePath,
+          contentHash: result.contentHash,
+          durationMs: performance.now() - startTime
+        };
+      } catch (caught) {
+        const error = toCrawlError(caught);
+        
+        if (attempts > retry.retries || !isRetryable(error)) {
+          return {
+            url,
+            outcome: error.outcome,
+            statusCode: error.statusCode,
+            attempts,
+            error: error.message,
+            durationMs: performance.now() - startTime
+          };
+        }
+        
+        const delay = getRetryDelay(attempts, retry);
+        console.log(`Retrying ${url} in ${delay}ms (${error.outcome}, retry ${attempts} of ${retry.retries})`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+  
+  /**
+   * Close the browser. With a shared pool only the pages of running crawls are closed,
+   * which makes those crawls fail.
    */
   async close(): Promise<void> {
-    await this.browserManager.close();
+    if (this.ownsPool) {
+      await this.pool.close();
+    } else {
+      await Promise.all([...this.activePages].map(page => page.close().catch(() => undefined)));
+    }
   }
   
   /**
@@ -298,18 +506,19 @@ if (require.main === module) {
   const args = process.argv.slice(2);
   
   if (args.length < 2) {
-    console.log('Usage: npx ts-node src/scraper/crawler.ts <url> <output-folder> [--screenshot]');
+    console.log('Usage: npx ts-node src/scraper/crawler.ts <url> <output-folder> [--screenshot] [--markdown]');
     process.exit(1);
   }
   
   const url = args[0];
   const outputFolder = args[1];
   const takeScreenshot = args.includes('--screenshot');
+  const markdown = args.includes('--markdown');
   
   // Create and run the crawler
   const crawler = new Crawler(true, 0);
   
-  crawler.crawl(url, outputFolder, { takeScreenshot })
+  crawler.crawl(url, outputFolder, { takeScreenshot, markdown })
     .then(result => {
       console.log(`Crawling completed successfully. Output saved to ${result.filePath}`);
       return crawler.close();
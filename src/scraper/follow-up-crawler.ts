@@ -0,0 +1,241 @@
+import * as puppeteer from 'puppeteer';
+import { OrganicResult, FollowUpPage, FollowUpOptions, OutboundLink } from '../config/types';
+import { FOLLOW_UP_DEFAULTS } from '../config/default-config';
+import { extractContent } from '../content/content-extractor';
+
+/**
+ * Visits search results and, up to a configurable depth, the pages they link to.
+ * Pages are visited one after another on a single Puppeteer page; everything
+ * needed from a page is extracted before navigating away from it.
+ */
+export class FollowUpCrawler {
+  private page: puppeteer.Page;
+  private options: FollowUpOptions;
+  private visited: Set<string> = new Set();
+  private domainCounts: Map<string, number> = new Map();
+
+  /**
+   * Create a new FollowUpCrawler
+   *
+   * @param page Puppeteer page to visit the results in
+   * @param options Follow-up options, missing values use FOLLOW_UP_DEFAULTS
+   */
+  constructor(page: puppeteer.Page, options: Partial<FollowUpOptions> = {}) {
+    this.page = page;
+    this.options = { ...FOLLOW_UP_DEFAULTS, ...options };
+  }
+
+  /**
+   * Follow up on the top results, storing the visited pages on each result
+   *
+   * @param results Organic results in ranking order
+   * @returns Number of results that were followed up
+   */
+  async followResults(results: OrganicResult[]): Promise<number> {
+    let followed = 0;
+
+    for (const result of results.slice(0, this.options.maxResults)) {
+      const followUpPage = await this.followResult(result);
+      if (followUpPage) {
+        followed++;
+      }
+    }
+
+    return followed;
+  }
+
+  /**
+   * Follow up on a single result, storing the visited page on the result
+   *
+   * @param result Result to follow up on
+   * @returns The visited page (the one stored earlier if the result was already followed),
+   *   or null if the result has no URL, the depth is 0 or the page couldn't be visited
+   */
+  async followResult(result: OrganicResult): Promise<FollowUpPage | null> {
+    if (result.followUpSearched) {
+      return result.followUpResults ?? null;
+    }
+    if (!result.url || this.options.depth <= 0) {
+      return null;
+    }
+
+    console.log(`Following up on result ${result.position}: ${result.url}`);
+
+    const followUpPage = await this.crawl(result.url, 1);
+    if (!followUpPage) {
+      return null;
+    }
+
+    result.followUpSearched = true;
+    result.followUpResults = followUpPage;
+    return followUpPage;
+  }
+
+  /**
+   * Visit a URL and, while below the maximum depth, the pages it links to
+   *
+   * @param url URL to visit
+   * @param depth Depth of the URL (1 for result pages)
+   */
+  private async crawl(url: string, depth: number): Promise<FollowUpPage | null> {
+    if (!this.claim(url)) {
+      return null;
+    }
+
+    const followUpPage = await this.visit(url, depth);
+
+    if (depth < this.options.depth && !followUpPage.error) {
+      const children: FollowUpPage[] = [];
+
+      for (const link of this.selectLinks(followUpPage)) {
+        const child = await this.crawl(link.url, depth + 1);
+        if (child) {
+          children.push(child);
+        }
+      }
+
+      followUpPage.children = children;
+    }
+
+    return followUpPage;
+  }
+
+  /**
+   * Mark a URL as visited if it was not visited before and its domain is below the limit
+   *
+   * @param url URL to claim
+   * @returns Whether the URL should be visited
+   */
+  private claim(url: string): boolean {
+    const key = stripFragment(url);
+    const domain = getDomain(url);
+
+    if (this.visited.has(key) || domain === null) {
+      return false;
+    }
+
+    const count = this.domainCounts.get(domain) || 0;
+    if (count >= this.options.maxPagesPerDomain) {
+      console.log(`Skipping ${url}: page limit for ${domain} reached`);
+      return false;
+    }
+
+    this.visited.add(key);
+    this.domainCounts.set(domain, count + 1);
+    return true;
+  }
+
+  /**
+   * Choose which links of a page to follow
+   *
+   * @param followUpPage Page to choose links from
+   */
+  private selectLinks(followUpPage: FollowUpPage): OutboundLink[] {
+    const pageDomain = getDomain(followUpPage.finalUrl);
+
+    return followUpPage.links
+      .filter(link => !this.options.sameDomainOnly || getDomain(link.url) === pageDomain)
+      .filter(link => !this.visited.has(stripFragment(link.url)))
+      .slice(0, this.options.maxLinksPerPage);
+  }
+
+  /**
+   * Load a page and extract its title, canonical URL, main content and links
+   *
+   * @param url URL to visit
+   * @param depth Depth of the URL
+   */
+  private async visit(url: string, depth: number): Promise<FollowUpPage> {
+    const fetchedAt = new Date().toISOString();
+    const startTime = performance.now();
+
+    const followUpPage: FollowUpPage = {
+      url,
+      finalUrl: url,
+      canonicalUrl: null,
+      title: null,
+      text: '',
+      links: [],
+      statusCode: null,
+      byline: null,
+      publishedAt: null,
+      blocks: [],
+      depth,
+      fetchedAt,
+      durationMs: 0
+    };
+
+    try {
+      const response = await this.page.goto(url, { waitUntil: 'networkidle2', timeout: this.options.timeout });
+
+      followUpPage.statusCode = response ? response.status() : null;
+      followUpPage.finalUrl = this.page.url();
+      followUpPage.title = (await this.page.title()) || null;
+
+      const pageInfo = await this.page.evaluate(() => {
+        const canonical = document.querySelector('link[rel="canonical"]') as HTMLLinkElement | null;
+
+        const links: { text: string | null; url: string }[] = [];
+        const seen = new Set<string>();
+        document.querySelectorAll('a[href]').forEach(element => {
+          const anchor = element as HTMLAnchorElement;
+          const href = anchor.href.split('#')[0];
+          if (!/^https?:/i.test(href) || seen.has(href)) {
+            return;
+          }
+          seen.add(href);
+          links.push({ text: anchor.textContent?.trim() || null, url: href });
+        });
+
+        return {
+          canonicalUrl: canonical?.href || null,
+          links
+        };
+      });
+
+      const content = await extractContent(this.page);
+
+      followUpPage.canonicalUrl = pageInfo.canonicalUrl;
+      followUpPage.text = content.text;
+      followUpPage.byline = content.byline;
+      followUpPage.publishedAt = content.publishedAt;
+      followUpPage.blocks = content.blocks;
+      followUpPage.links = pageInfo.links.filter(link => stripFragment(link.url) !== stripFragment(followUpPage.finalUrl));
+    } catch (error) {
+      console.error(`Error following up on ${url}: ${error}`);
+      followUpPage.error = String(error);
+    }
+
+    followUpPage.durationMs = performance.now() - startTime;
+    console.log(`[TIMER] Follow-up ${url}: ${followUpPage.durationMs.toFixed(2)}ms`);
+
+    return followUpPage;
+  }
+}
+
+/**
+ * Remove the fragment from a URL
+ *
+ * @param url URL to strip
+ */
+function stripFragment(url: string): string {
+  return url.split('#')[0];
+}
+
+/**
+ * Get the host name of a URL without a leading "www."
+ *
+ * @param url URL to get the domain of
+ * @returns The domain, or null if the URL is not an http(s) URL
+ */
+function getDomain(url: string): string | null {
+  try {
+    const parsed = new URL(url);
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+      return null;
+    }
+    return parsed.hostname.replace(/^www\./, '').toLowerCase();
+  } catch {
+    return null;
+  }
+}
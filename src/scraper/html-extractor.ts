@@ -0,0 +1,39 @@
+import { ExtractOptions, SearchEngineType, SearchResults, ScraperConfig, TimingData } from '../config/types';
+import { DEFAULT_CONFIG } from '../config/default-config';
+import { SearchResultScraper } from './search-result-scraper';
+
+/**
+ * Options for extracting results from a saved search results page
+ */
+export interface HtmlExtractionOptions {
+  // Engine whose selectors match the saved page (defaults to Bing)
+  engine?: SearchEngineType;
+  // Query the page was captured for; detected from the search box when omitted
+  query?: string;
+  // Save the results to this directory when provided
+  outputDir?: string;
+}
+
+/**
+ * Run the extractors on a saved search results page without network access
+ * 
+ * @param html HTML of the saved search results page
+ * @param extractOptions Options for what to extract
+ * @param options Engine, query and output options
+ */
+export async function extractFromHtml(
+  html: string,
+  extractOptions: ExtractOptions = DEFAULT_CONFIG.extractOptions as ExtractOptions,
+  options: HtmlExtractionOptions = {}
+): Promise<SearchResults & { timingData?: TimingData }> {
+  const config: ScraperConfig = {
+    ...DEFAULT_CONFIG,
+    searchQuery: options.query || '',
+    outputDir: options.outputDir || '',
+    engine: options.engine || DEFAULT_CONFIG.engine,
+    extractOptions
+  } as ScraperConfig;
+  
+  const scraper = new SearchResultScraper(config);
+  return scraper.runFromHtml(html, { save: !!options.outputDir });
+}
@@ -1,7 +1,10 @@
 import * as puppeteer from 'puppeteer';
-import { BrowserManager } from './browser-manager';
-import { ScraperConfig, SearchResults, OutputFormat, TimingData } from '../config/types';
-import { SEARCH_ENGINE_URL, SEARCH_INPUT_SELECTORS, SELECTORS, TIMEOUTS } from '../config/default-config';
+import { BrowserManager, BrowserPool } from './browser-manager';
+import { ScraperConfig, SearchResults, OutputFormat, TimingData, FollowUpPage, FollowUpOptions, SearchEngineType, RunManifest } from '../config/types';
+import { DEFAULT_OUTPUT_FORMATS, PAGINATION } from '../config/default-config';
+import { SearchEngine } from '../engines/search-engine';
+import { createSearchEngine } from '../engines/engine-factory';
+import { BaseExtractor } from '../extractors/base-extractor';
 import { OrganicResultsExtractor } from '../extractors/organic-results-extractor';
 import { FeaturedSnippetsExtractor } from '../extractors/featured-snippets-extractor';
 import { PeopleAlsoAskExtractor } from '../extractors/people-also-ask-extractor';
@@ -9,39 +12,227 @@ import { RelatedSearchesExtractor } from '../extractors/related-searches-extract
 import { VideoResultsExtractor } from '../extractors/video-results-extractor';
 import { ImageResultsExtractor } from '../extractors/image-results-extractor';
 import { ResultSaver } from '../output/result-saver';
-
-/**
- * Utility function to sleep for a specified number of milliseconds
- */
-const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+import { SqliteStore } from '../output/sqlite-store';
+import { RunHistory } from '../output/run-history';
+import { FollowUpCrawler } from './follow-up-crawler';
 
 /**
  * Main scraper class for extracting search results
  */
 export class SearchResultScraper {
   private config: ScraperConfig;
+  private engine: SearchEngine;
   private browserManager: BrowserManager;
   private resultSaver: ResultSaver;
+  private waitForContent: boolean = true;
+  private lastResults: SearchResults | null = null;
+  private resultsPageUrl: string | null = null;
+  private lastRun: RunManifest | null = null;
 
   /**
    * Create a new SearchResultScraper
    * 
    * @param config Configuration options
+   * @param options.browser Shared browser to open a page in instead of launching one
+   * @param options.pool Browser pool to take the page from instead of launching a browser
    */
-  constructor(config: ScraperConfig) {
+  constructor(config: ScraperConfig, options: { browser?: puppeteer.Browser; pool?: BrowserPool } = {}) {
     this.config = {
       ...config,
       outputDir: config.outputDir || './output'
     };
     
-    this.browserManager = new BrowserManager(config.headless, config.slowMo);
-    this.resultSaver = new ResultSaver();
+    this.engine = createSearchEngine(config);
+    this.browserManager = new BrowserManager(config.headless, config.slowMo, options.pool || options.browser);
+    this.resultSaver = new ResultSaver({
+      contextPack: config.contextPack,
+      csvPerSection: config.csvPerSection
+    });
   }
 
   /**
-   * Run the scraper to extract search results
+   * Run the scraper to extract search results.
+   * Opens the browser, searches, saves the results and closes the browser again.
    */
   async run(): Promise<SearchResults & { timingData?: TimingData }> {
+    this.waitForContent = true;
+    return this.execute('searchExecution', 'Search execution', () => this.performSearch(), true);
+  }
+
+  /**
+   * Run the extractors on a saved search results page instead of a live search.
+   * The page is loaded with JavaScript and network access disabled.
+   * 
+   * @param html HTML of a saved search results page
+   * @param options.save Whether to save the results to the output directory
+   */
+  async runFromHtml(
+    html: string,
+    options: { save?: boolean } = {}
+  ): Promise<SearchResults & { timingData?: TimingData }> {
+    this.waitForContent = false;
+    return this.execute('htmlLoad', 'HTML load', () => this.loadHtml(html), options.save !== false);
+  }
+
+  /**
+   * Open the browser for a search session.
+   * The browser stays open across search(), followUp(), expandQuestion()
+   * and relatedSearch() calls until close() is called.
+   */
+  async open(): Promise<void> {
+    if (!this.browserManager.isInitialized()) {
+      await this.browserManager.initialize();
+    }
+  }
+
+  /**
+   * Search within the session, save the results and keep the results page open
+   * 
+   * @param query Query to search for (defaults to the configured query)
+   */
+  async search(query?: string): Promise<SearchResults & { timingData?: TimingData }> {
+    if (query !== undefined) {
+      this.config.searchQuery = query;
+    }
+    
+    this.waitForContent = true;
+    await this.open();
+    
+    const timingData: TimingData = {
+      steps: {},
+      extractionSteps: {}
+    };
+    
+    await this.timeStep(timingData, 'searchExecution', 'Search execution', () => this.performSearch());
+    return this.captureResults(timingData, true);
+  }
+
+  /**
+   * Visit an organic result of the last search in a separate page,
+   * leaving the search results page untouched
+   * 
+   * @param resultIndex Index of the organic result to visit
+   * @param depth Maximum depth of follow-up searches (1 visits only the result page)
+   */
+  async followUp(resultIndex: number, depth: number = 1): Promise<FollowUpPage | null> {
+    const results = this.getLastResultsOrThrow();
+    const result = results.organicResults?.[resultIndex];
+    
+    if (!result) {
+      console.warn(`Result index ${resultIndex} out of range`);
+      return null;
+    }
+    
+    await this.open();
+    const page = await this.browserManager.newPage();
+    
+    try {
+      // Updates the cached result with the follow-up data
+      const organicExtractor = this.createExtractor(OrganicResultsExtractor, page);
+      return await organicExtractor.performFollowUpSearch(result, depth);
+    } finally {
+      await this.browserManager.closePage(page);
+    }
+  }
+
+  /**
+   * Visit the top organic results of the last search in a separate page,
+   * following their links up to the configured depth.
+   * The visited pages are stored on the cached results.
+   * 
+   * @param options Follow-up options, defaults to the configured followUp options
+   * @returns Number of results that were followed up
+   */
+  async followUpResults(options: Partial<FollowUpOptions> = this.config.followUp || {}): Promise<number> {
+    const results = this.getLastResultsOrThrow();
+    await this.open();
+    return this.followUpTopResults(results, options);
+  }
+
+  /**
+   * Expand a "People Also Ask" question of the last search
+   * 
+   * @param questionIndex Index of the question to expand
+   * @returns The answer text, or null if it could not be found
+   */
+  async expandQuestion(questionIndex: number): Promise<string | null> {
+    const page = await this.getResultsPage();
+    const peopleAlsoAskExtractor = this.createExtractor(PeopleAlsoAskExtractor, page);
+    return peopleAlsoAskExtractor.expandQuestion(questionIndex);
+  }
+
+  /**
+   * Follow a related search of the last search.
+   * The new results replace the cached results but are not saved.
+   * 
+   * @param searchIndex Index of the related search to follow
+   * @returns Results of the related search, or null if the index is out of range
+   */
+  async relatedSearch(searchIndex: number): Promise<(SearchResults & { timingData?: TimingData }) | null> {
+    const page = await this.getResultsPage();
+    const relatedSearchesExtractor = this.createExtractor(RelatedSearchesExtractor, page);
+    const relatedSearches = await relatedSearchesExtractor.extract();
+    
+    if (searchIndex >= relatedSearches.length) {
+      console.warn(`Related search index ${searchIndex} out of range`);
+      return null;
+    }
+    
+    const timingData: TimingData = {
+      steps: {},
+      extractionSteps: {}
+    };
+    
+    await this.timeStep(timingData, 'searchExecution', 'Related search execution', async () => {
+      await Promise.all([
+        page.waitForNavigation({ waitUntil: 'networkidle2', timeout: this.engine.navigationTimeout })
+          .catch(() => console.warn('Timeout waiting for related search navigation')),
+        relatedSearchesExtractor.performRelatedSearch(searchIndex)
+      ]);
+      await this.engine.waitForResults(page);
+    });
+    
+    this.config.searchQuery = relatedSearches[searchIndex];
+    return this.captureResults(timingData, false);
+  }
+
+  /**
+   * Get the results of the last search, or null if nothing was searched yet
+   */
+  getLastResults(): SearchResults | null {
+    return this.lastResults;
+  }
+
+  /**
+   * Get the manifest of the last saved run, or null if no run was saved in its own directory
+   */
+  getLastRun(): RunManifest | null {
+    return this.lastRun;
+  }
+
+  /**
+   * Close the browser and end the session
+   * 
+   * @param options.discard Close a page taken from a pool instead of giving it back for reuse
+   */
+  async close(options: { discard?: boolean } = {}): Promise<void> {
+    await this.browserManager.close(options);
+  }
+
+  /**
+   * Initialize the browser, load the search results page, extract and save the results
+   * 
+   * @param loadStep Name of the timing step for loading the page
+   * @param loadLabel Label used when logging the load time
+   * @param loadPage Function that loads the search results page
+   * @param save Whether to save the results
+   */
+  private async execute(
+    loadStep: string,
+    loadLabel: string,
+    loadPage: () => Promise<void>,
+    save: boolean
+  ): Promise<SearchResults & { timingData?: TimingData }> {
     const timingData: TimingData = {
       steps: {},
       extractionSteps: {}
@@ -49,36 +240,56 @@ export class SearchResultScraper {
     
     try {
       // Initialize browser
-      console.log('[TIMER] Starting browser initialization');
-      const browserStartTime = performance.now();
-      await this.browserManager.initialize();
-      const browserEndTime = performance.now();
-      const browserTime = browserEndTime - browserStartTime;
-      timingData.steps.browserInitialization = browserTime;
-      console.log(`[TIMER] Browser initialization: ${browserTime.toFixed(2)}ms`);
+      await this.timeStep(timingData, 'browserInitialization', 'Browser initialization', () => this.open());
       
-      // Perform search
-      console.log('[TIMER] Starting search');
-      const searchStartTime = performance.now();
-      await this.performSearch();
-      const searchEndTime = performance.now();
-      const searchTime = searchEndTime - searchStartTime;
-      timingData.steps.searchExecution = searchTime;
-      console.log(`[TIMER] Search execution: ${searchTime.toFixed(2)}ms`);
+      // Load the search results page
+      await this.timeStep(timingData, loadStep, loadLabel, loadPage);
       
-      // Extract results
-      console.log('[TIMER] Starting extraction');
-      const extractionStartTime = performance.now();
-      const results = await this.extractSearchResults(timingData);
-      const extractionEndTime = performance.now();
-      const extractionTime = extractionEndTime - extractionStartTime;
-      timingData.steps.totalExtraction = extractionTime;
-      console.log(`[TIMER] Total extraction: ${extractionTime.toFixed(2)}ms`);
+      return await this.captureResults(timingData, save);
+    } finally {
+      // Clean up
+      await this.timeStep(timingData, 'browserCleanup', 'Browser cleanup', () => this.close());
+    }
+  }
+
+  /**
+   * Extract the results from the current page, optionally save them, and cache them
+   * 
+   * @param timingData Timing data to record the steps in
+   * @param save Whether to save the results
+   */
+  private async captureResults(
+    timingData: TimingData,
+    save: boolean
+  ): Promise<SearchResults & { timingData?: TimingData }> {
+    // Extract results
+    console.log('[TIMER] Starting extraction');
+    const extractionStartTime = performance.now();
+    const results = await this.extractSearchResults(timingData);
+    const extractionEndTime = performance.now();
+    const extractionTime = extractionEndTime - extractionStartTime;
+    timingData.steps.totalExtraction = extractionTime;
+    console.log(`[TIMER] Total extraction: ${extractionTime.toFixed(2)}ms`);
+    
+    // Follow up on the top results before saving so the pages are included
+    if (this.config.followUp) {
+      const followUpOptions = this.config.followUp;
+      await this.timeStep(timingData, 'followUp', 'Follow-up', async () => {
+        const followed = await this.followUpTopResults(results, followUpOptions);
+        console.log(`Followed up on ${followed} results`);
+      });
+    }
+    
+    // Save results
+    if (save) {
+      // Give the run its own directory unless run history is turned off
+      const runHistory = this.config.runHistory !== false ? new RunHistory(this.config.outputDir) : null;
+      const run = runHistory ? runHistory.startRun() : null;
+      const outputDir = run ? run.dir : this.config.outputDir;
       
-      // Save results
       console.log('[TIMER] Starting save');
       const saveStartTime = performance.now();
-      const saveFormats = await this.saveResults(results);
+      const saveFormats = await this.saveResults(results, outputDir, this.config.outputFormats, timingData);
       const saveEndTime = performance.now();
       const saveTime = saveEndTime - saveStartTime;
       timingData.steps.saveResults = saveTime;
@@ -90,73 +301,155 @@ export class SearchResultScraper {
       
       console.log(`[TIMER] Save results: ${saveTime.toFixed(2)}ms`);
       
-      // Add timing data to results
-      return { ...results, timingData };
+      // Record the run in the database
+      if (this.config.database) {
+        const databasePath = this.config.database;
+        await this.timeStep(timingData, 'databaseSave', 'Database save', async () => {
+          this.saveToDatabase(databasePath, results, outputDir, timingData);
+        });
+      }
+      
+      // Write the manifest last so it lists every file of the run
+      if (runHistory && run) {
+        this.lastRun = runHistory.finishRun(run, {
+          query: results.query,
+          engine: this.config.engine || SearchEngineType.BING,
+          config: { ...this.config, searchQuery: results.query },
+          timingData
+        });
+        console.log(`Run ${run.runId} saved to ${run.dir}`);
+      }
+    }
+    
+    // Remember the results page so session calls can return to it
+    const pageUrl = this.browserManager.getPage().url();
+    this.resultsPageUrl = /^https?:/i.test(pageUrl) ? pageUrl : null;
+    this.lastResults = results;
+    
+    // Add timing data to results
+    return { ...results, timingData };
+  }
+
+  /**
+   * Follow up on the top organic results in a separate page
+   * 
+   * @param results Results to follow up on
+   * @param options Follow-up options
+   * @returns Number of results that were followed up
+   */
+  private async followUpTopResults(results: SearchResults, options: Partial<FollowUpOptions>): Promise<number> {
+    const page = await this.browserManager.newPage();
+    
+    try {
+      const crawler = new FollowUpCrawler(page, options);
+      return await crawler.followResults(results.organicResults || []);
     } finally {
-      // Clean up
-      console.log('[TIMER] Starting browser cleanup');
-      const cleanupStartTime = performance.now();
-      await this.browserManager.close();
-      const cleanupEndTime = performance.now();
-      const cleanupTime = cleanupEndTime - cleanupStartTime;
-      timingData.steps.browserCleanup = cleanupTime;
-      console.log(`[TIMER] Browser cleanup: ${cleanupTime.toFixed(2)}ms`);
+      await this.browserManager.closePage(page);
     }
   }
 
+  /**
+   * Run a step and record its duration
+   * 
+   * @param timingData Timing data to record the step in
+   * @param step Name of the timing step
+   * @param label Label used when logging the step
+   * @param fn Step to run
+   */
+  private async timeStep(
+    timingData: TimingData,
+    step: string,
+    label: string,
+    fn: () => Promise<void>
+  ): Promise<void> {
+    console.log(`[TIMER] Starting ${label.toLowerCase()}`);
+    const startTime = performance.now();
+    try {
+      await fn();
+    } finally {
+      const time = performance.now() - startTime;
+      timingData.steps[step] = time;
+      console.log(`[TIMER] ${label}: ${time.toFixed(2)}ms`);
+    }
+  }
+
+  /**
+   * Get the cached results of the last search
+   */
+  private getLastResultsOrThrow(): SearchResults {
+    if (!this.lastResults) {
+      throw new Error('No search results yet, call search() or run() first');
+    }
+    return this.lastResults;
+  }
+
+  /**
+   * Get the page showing the last search results, reopening it if needed
+   */
+  private async getResultsPage(): Promise<puppeteer.Page> {
+    this.getLastResultsOrThrow();
+    if (!this.resultsPageUrl) {
+      throw new Error('The last results were not loaded from a live search results page');
+    }
+    
+    await this.open();
+    const page = this.browserManager.getPage();
+    
+    // The browser may have been closed by run() or moved on by a related search
+    if (page.url() !== this.resultsPageUrl) {
+      await page.goto(this.resultsPageUrl, {
+        waitUntil: 'networkidle2',
+        timeout: this.engine.navigationTimeout
+      });
+      await this.engine.waitForResults(page);
+    }
+    
+    return page;
+  }
+
   /**
    * Navigate to search engine and perform search
    */
   private async performSearch(): Promise<void> {
     const page = this.browserManager.getPage();
     
-    console.log(`Navigating to search engine and searching for "${this.config.searchQuery}"...`);
+    console.log(`Navigating to ${this.engine.name} and searching for "${this.config.searchQuery}"...`);
     
     // Navigate to search engine
-    await page.goto(SEARCH_ENGINE_URL, {
-      waitUntil: 'networkidle2',
-      timeout: TIMEOUTS.navigation
-    });
-    
-    // Wait for page to stabilize
-    await sleep(1000);
-    
-    // Find and use the search input
-    const searchInput = await this.findSearchInput();
-    if (!searchInput) {
-      throw new Error('Could not find search input');
-    }
+    await this.engine.navigate(page);
     
     // Type search query and submit
-    await searchInput.type(this.config.searchQuery);
-    await page.keyboard.press('Enter');
+    await this.engine.submitSearch(page, this.config.searchQuery);
     
     // Wait for search results to load
     console.log('Waiting for search results to load...');
-    await page.waitForSelector(SELECTORS.searchResults, { timeout: TIMEOUTS.searchResults })
-      .catch(() => console.log('Warning: Search results selector not found, but continuing...'));
-    
-    // Additional wait to ensure all dynamic content loads
-    await sleep(TIMEOUTS.stabilization);
+    const hasResults = await this.engine.waitForResults(page);
+    if (!hasResults) {
+      console.log('Warning: Search results selector not found, but continuing...');
+    }
   }
 
   /**
-   * Find the search input element using multiple possible selectors
+   * Load a saved search results page without touching the network
+   * 
+   * @param html HTML of the saved page
    */
-  private async findSearchInput(): Promise<puppeteer.ElementHandle | null> {
+  private async loadHtml(html: string): Promise<void> {
     const page = this.browserManager.getPage();
     
-    console.log('Looking for search input...');
+    console.log('Loading search results page from HTML...');
     
-    for (const selector of SEARCH_INPUT_SELECTORS) {
-      const element = await page.$(selector).catch(() => null);
-      if (element) {
-        console.log(`Found search input with selector: ${selector}`);
-        return element;
-      }
-    }
+    await this.browserManager.loadStaticContent(html, this.engine.navigationTimeout);
     
-    return null;
+    // Recover the query from the search box when none was configured
+    if (!this.config.searchQuery) {
+      const searchInput = await this.engine.findSearchInput(page);
+      const query = searchInput
+        ? await searchInput.evaluate(element => (element as HTMLInputElement).value)
+        : '';
+      this.config.searchQuery = query.trim();
+      console.log(`Detected search query: "${this.config.searchQuery}"`);
+    }
   }
 
   /**
@@ -175,8 +468,11 @@ export class SearchResultScraper {
     if (this.config.extractOptions.organicResults) {
       console.log('[TIMER] Starting organic results extraction');
       const organicStartTime = performance.now();
-      const organicExtractor = new OrganicResultsExtractor(page);
-      results.organicResults = await organicExtractor.extract();
+      const organicExtractor = this.createExtractor(OrganicResultsExtractor, page);
+      const { maxPages, maxResults } = this.getPaginationLimits();
+      results.organicResults = maxPages > 1
+        ? await organicExtractor.extractPages(this.engine, { maxPages, maxResults }, timingData)
+        : (await organicExtractor.extract()).slice(0, maxResults);
       const organicEndTime = performance.now();
       const organicTime = organicEndTime - organicStartTime;
       timingData.extractionSteps.organicResults = organicTime;
@@ -187,7 +483,7 @@ export class SearchResultScraper {
     if (this.config.extractOptions.featuredSnippets) {
       console.log('[TIMER] Starting featured snippets extraction');
       const snippetsStartTime = performance.now();
-      const snippetsExtractor = new FeaturedSnippetsExtractor(page);
+      const snippetsExtractor = this.createExtractor(FeaturedSnippetsExtractor, page);
       results.featuredSnippets = await snippetsExtractor.extract();
       const snippetsEndTime = performance.now();
       const snippetsTime = snippetsEndTime - snippetsStartTime;
@@ -199,7 +495,7 @@ export class SearchResultScraper {
     if (this.config.extractOptions.peopleAlsoAsk) {
       console.log('[TIMER] Starting people also ask extraction');
       const paaStartTime = performance.now();
-      const peopleAlsoAskExtractor = new PeopleAlsoAskExtractor(page);
+      const peopleAlsoAskExtractor = this.createExtractor(PeopleAlsoAskExtractor, page);
       results.peopleAlsoAsk = await peopleAlsoAskExtractor.extract();
       const paaEndTime = performance.now();
       const paaTime = paaEndTime - paaStartTime;
@@ -211,7 +507,7 @@ export class SearchResultScraper {
     if (this.config.extractOptions.relatedSearches) {
       console.log('[TIMER] Starting related searches extraction');
       const relatedStartTime = performance.now();
-      const relatedSearchesExtractor = new RelatedSearchesExtractor(page);
+      const relatedSearchesExtractor = this.createExtractor(RelatedSearchesExtractor, page);
       results.relatedSearches = await relatedSearchesExtractor.extract();
       const relatedEndTime = performance.now();
       const relatedTime = relatedEndTime - relatedStartTime;
@@ -223,7 +519,7 @@ export class SearchResultScraper {
     if (this.config.extractOptions.videos) {
       console.log('[TIMER] Starting video results extraction');
       const videoStartTime = performance.now();
-      const videoExtractor = new VideoResultsExtractor(page);
+      const videoExtractor = this.createExtractor(VideoResultsExtractor, page);
       results.videos = await videoExtractor.extract();
       const videoEndTime = performance.now();
       const videoTime = videoEndTime - videoStartTime;
@@ -235,7 +531,7 @@ export class SearchResultScraper {
     if (this.config.extractOptions.images) {
       console.log('[TIMER] Starting image results extraction');
       const imageStartTime = performance.now();
-      const imageExtractor = new ImageResultsExtractor(page);
+      const imageExtractor = this.createExtractor(ImageResultsExtractor, page);
       results.images = await imageExtractor.extract();
       const imageEndTime = performance.now();
       const imageTime = imageEndTime - imageStartTime;
@@ -257,54 +553,85 @@ export class SearchResultScraper {
     return results;
   }
 
+  /**
+   * Create an extractor bound to the active engine's selectors
+   * 
+   * @param extractorClass Extractor class to instantiate
+   * @param page Page to extract content from
+   */
+  private createExtractor<T extends BaseExtractor>(
+    extractorClass: new (...args: ConstructorParameters<typeof BaseExtractor>) => T,
+    page: puppeteer.Page
+  ): T {
+    return new extractorClass(page, this.engine.selectors, {
+      waitForContent: this.waitForContent,
+      baseUrl: this.engine.homeUrl
+    });
+  }
+
+  /**
+   * Resolve the organic result page limits from the configuration
+   */
+  private getPaginationLimits(): { maxPages: number; maxResults?: number } {
+    const { maxPages, maxResults } = this.config;
+    
+    if (maxPages !== undefined) {
+      return { maxPages: Math.max(1, maxPages), maxResults };
+    }
+    
+    return {
+      maxPages: maxResults !== undefined ? PAGINATION.maxPagesForMaxResults : 1,
+      maxResults
+    };
+  }
+
   /**
    * Extract all text from the page for comprehensive analysis
    */
   private async extractAllPageText(): Promise<string> {
     const page = this.browserManager.getPage();
     
-    return page.evaluate(() => {
+    return page.evaluate((selector: string) => {
       // Get the main content area
-      const mainContent = document.querySelector('#b_content');
+      const mainContent = document.querySelector(selector);
       return mainContent ? mainContent.textContent?.trim() || '' : '';
-    });
+    }, this.engine.selectors.mainContent);
   }
 
   /**
-   * Perform a follow-up search on a specific result
+   * Perform a follow-up search on a specific result of the last search.
+   * Works after run() has closed the browser; the browser is reopened and
+   * stays open until close() is called.
    * 
    * @param resultIndex Index of the result to perform a follow-up search on
    * @param depth Maximum depth of follow-up searches
    */
-  async performFollowUpSearch(resultIndex: number, depth: number = 1): Promise<any> {
-    if (!this.browserManager.isInitialized()) {
-      await this.browserManager.initialize();
-    }
-    
-    const page = this.browserManager.getPage();
-    
-    // Extract organic results if not already done
-    if (!this.config.extractOptions.organicResults) {
-      const organicExtractor = new OrganicResultsExtractor(page);
-      const organicResults = await organicExtractor.extract();
-      
-      if (resultIndex >= organicResults.length) {
-        console.warn(`Result index ${resultIndex} out of range`);
-        return null;
-      }
-      
-      return organicExtractor.performFollowUpSearch(organicResults[resultIndex], depth);
-    } else {
-      // Re-extract results to get the latest state
-      const organicExtractor = new OrganicResultsExtractor(page);
-      const organicResults = await organicExtractor.extract();
-      
-      if (resultIndex >= organicResults.length) {
-        console.warn(`Result index ${resultIndex} out of range`);
-        return null;
-      }
-      
-      return organicExtractor.performFollowUpSearch(organicResults[resultIndex], depth);
+  async performFollowUpSearch(resultIndex: number, depth: number = 1): Promise<FollowUpPage | null> {
+    return this.followUp(resultIndex, depth);
+  }
+
+  /**
+   * Save a run to the SQLite database. Errors are logged so they don't fail the search.
+   * 
+   * @param databasePath Path of the database file
+   * @param results Search results to save
+   * @param outputDir Directory the run's files were saved to
+   * @param timingData Timing data of the run
+   */
+  private saveToDatabase(databasePath: string, results: SearchResults, outputDir: string, timingData: TimingData): void {
+    let store: SqliteStore | null = null;
+    try {
+      store = new SqliteStore(databasePath);
+      const runId = store.saveRun(results, {
+        engine: this.config.engine || SearchEngineType.BING,
+        outputDir,
+        timingData
+      });
+      console.log(`Run ${runId} saved to ${databasePath}`);
+    } catch (error) {
+      console.error(`Error saving results to database ${databasePath}: ${error}`);
+    } finally {
+      store?.close();
     }
   }
 
@@ -312,12 +639,16 @@ export class SearchResultScraper {
    * Save results to files
    * 
    * @param results Search results to save
+   * @param outputDir Directory to save the files to
    * @param formats Output formats to save
+   * @param timingData Timing data shown in the HTML report
    * @returns Object with timing data for each format
    */
   private async saveResults(
     results: SearchResults,
-    formats: OutputFormat[] = [OutputFormat.JSON, OutputFormat.TEXT]
+    outputDir: string,
+    formats: OutputFormat[] = DEFAULT_OUTPUT_FORMATS,
+    timingData?: TimingData
   ): Promise<Record<string, number>> {
     const page = this.browserManager.getPage();
     const formatTimings: Record<string, number> = {};
@@ -329,9 +660,10 @@ export class SearchResultScraper {
       
       await this.resultSaver.saveResults(
         results,
-        this.config.outputDir,
+        outputDir,
         [format],
-        page
+        page,
+        timingData
       );
       
       const formatEndTime = performance.now();
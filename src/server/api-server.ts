@@ -0,0 +1,390 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import * as path from 'path';
+import * as stream from 'stream';
+import { ApiServerOptions, ScraperConfig } from '../config/types';
+import { API_SERVER_DEFAULTS } from '../config/default-config';
+import { BrowserPool } from '../scraper/browser-manager';
+import { Crawler } from '../scraper/crawler';
+import { SearchResultScraper } from '../scraper/search-result-scraper';
+import { RunHistory } from '../output/run-history';
+import { HttpError } from './http-error';
+import { JobQueue } from './job-queue';
+import { parseCrawlRequest, parseSearchRequest } from './request-validation';
+
+/**
+ * Content types of the artifact files a run can produce
+ */
+const CONTENT_TYPES: Record<string, string> = {
+  '.json': 'application/json; charset=utf-8',
+  '.jsonl': 'application/x-ndjson; charset=utf-8',
+  '.txt': 'text/plain; charset=utf-8',
+  '.csv': 'text/csv; charset=utf-8',
+  '.html': 'text/html; charset=utf-8',
+  '.md': 'text/markdown; charset=utf-8',
+  '.png': 'image/png'
+};
+
+/**
+ * Lets a timed out request stop the search or crawl it started
+ */
+interface JobCancellation {
+  cancelled: boolean;
+  onCancel?: () => Promise<void>;
+}
+
+/**
+ * HTTP API for running searches and crawls from other services.
+ *
+ * POST /search                    Body: partial ScraperConfig with a searchQuery
+ * POST /crawl                     Body: { url | urls, waitForSelector?, timeout?, takeScreenshot?, markdown?, extractContent? }
+ * GET  /runs/:id                  Manifest of a run, or of the newest one with "latest"
+ * GET  /runs/:id/artifacts/:name  A file listed in the manifest of a run
+ *
+ * Searches and crawls go through a queue that runs a limited number at a time,
+ * each in its own page of a shared browser pool.
+ * Every search and crawl is saved as a run below the configured output directory.
+ * Errors are answered with { "error": message } and a matching status code.
+ */
+export class ApiServer {
+  private config: ScraperConfig;
+  private options: ApiServerOptions;
+  private history: RunHistory;
+  private queue: JobQueue;
+  private server: http.Server | null = null;
+  private pool: BrowserPool;
+
+  /**
+   * Create a new ApiServer
+   *
+   * @param config Configuration requests are applied to; outputDir is the root of the saved runs
+   * @param options Server settings, defaults to API_SERVER_DEFAULTS
+   */
+  constructor(config: ScraperConfig, options: Partial<ApiServerOptions> = {}) {
+    this.config = { ...config, runHistory: true };
+    this.options = { ...API_SERVER_DEFAULTS, ...options };
+    this.history = new RunHistory(config.outputDir);
+    this.queue = new JobQueue(this.options.concurrency, this.options.maxQueueSize);
+    this.pool = new BrowserPool({ headless: config.headless, slowMo: config.slowMo, maxPages: this.options.concurrency });
+  }
+
+  /**
+   * Start listening. The browser is launched with the first search or crawl.
+   *
+   * @returns The port the server listens on, useful when port 0 picks a free one
+   */
+  async start(): Promise<number> {
+    const server = http.createServer((req, res) => {
+      this.handleRequest(req, res);
+    });
+    this.server = server;
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.options.port, this.options.host, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+
+    const address = server.address();
+    const port = address && typeof address === 'object' ? address.port : this.options.port;
+    console.log(`[API] Listening on http://${this.options.host}:${port}`);
+    return port;
+  }
+
+  /**
+   * Stop accepting requests, wait for running and queued jobs and close the browser
+   */
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (server) {
+      const closed = new Promise<void>(resolve => server.close(() => resolve()));
+      server.closeIdleConnections();
+      await this.queue.onIdle();
+      // Keep-alive connections of the last responses
+      server.closeIdleConnections();
+      await closed;
+      this.server = null;
+    }
+
+    await this.pool.close();
+    console.log('[API] Stopped');
+  }
+
+  /**
+   * Route a request and answer errors as JSON
+   *
+   * @param req Incoming request
+   * @param res Response to write
+   */
+  private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const startTime = performance.now();
+
+    try {
+      await this.route(req, res);
+    } catch (error) {
+      const status = error instanceof HttpError ? error.status : 500;
+      const message = error instanceof Error ? error.message : String(error);
+      if (status >= 500) {
+        console.error(`[API] ${req.method} ${req.url} failed: ${message}`);
+      }
+      if (!res.headersSent) {
+        if (!req.complete) {
+          // The rest of the body is never read, so the connection can't be reused
+          res.setHeader('Connection', 'close');
+        }
+        sendJson(res, status, { error: message });
+      } else {
+        res.destroy();
+      }
+    }
+
+    console.log(`[API] ${req.method} ${req.url} ${res.statusCode} ${(performance.now() - startTime).toFixed(2)}ms`);
+  }
+
+  /**
+   * Dispatch a request to its handler
+   *
+   * @param req Incoming request
+   * @param res Response to write
+   */
+  private async route(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const { pathname } = new URL(req.url || '/', 'http://localhost');
+    let segments: string[];
+    try {
+      segments = pathname.split('/').filter(Boolean).map(segment => decodeURIComponent(segment));
+    } catch {
+      throw new HttpError(400, 'Malformed URL');
+    }
+
+    if (segments.length === 1 && (segments[0] === 'search' || segments[0] === 'crawl')) {
+      requireMethod(req, 'POST');
+      const body = await readJsonBody(req, this.options.maxBodySize);
+      const response = segments[0] === 'search' ? await this.search(body) : await this.crawl(body);
+      sendJson(res, 200, response);
+      return;
+    }
+
+    if (segments[0] === 'runs' && segments.length === 2) {
+      requireMethod(req, 'GET');
+      sendJson(res, 200, this.getManifest(segments[1]));
+      return;
+    }
+
+    if (segments[0] === 'runs' && segments[2] === 'artifacts' && segments.length > 3) {
+      requireMethod(req, 'GET');
+      await this.sendArtifact(res, segments[1], segments.slice(3).join('/'));
+      return;
+    }
+
+    throw new HttpError(404, `No route for ${req.method} ${pathname}`);
+  }
+
+  /**
+   * Run a search and save it as a run
+   *
+   * @param body Request body
+   */
+  private async search(body: unknown): Promise<object> {
+    const config = parseSearchRequest(body, this.config);
+
+    return this.runJob(async cancellation => {
+      const scraper = new SearchResultScraper(config, { pool: this.pool });
+      cancellation.onCancel = () => scraper.close({ discard: true });
+
+      const { timingData, ...results } = await scraper.run();
+      return { runId: scraper.getLastRun()?.runId ?? null, results, timingData };
+    });
+  }
+
+  /**
+   * Crawl one or more URLs into a new run
+   *
+   * @param body Request body
+   */
+  private async crawl(body: unknown): Promise<object> {
+    const request = parseCrawlRequest(body);
+
+    return this.runJob(async cancellation => {
+      const crawler = new Crawler(this.config.headless, this.config.slowMo, { pool: this.pool });
+      cancellation.onCancel = () => crawler.close();
+      const run = this.history.startRun();
+
+      try {
+        const pages = [];
+        for (const url of request.urls) {
+          if (cancellation.cancelled) {
+            throw new Error('Crawl cancelled');
+          }
+
+          const result = await crawler.crawl(url, run.dir, {
+            waitForSelector: request.waitForSelector,
+            timeout: request.timeout ?? this.config.timeout,
+            takeScreenshot: request.takeScreenshot,
+            markdown: request.markdown,
+            extractContent: request.extractContent
+          });
+          pages.push({
+            url,
+            file: path.basename(result.filePath),
+            markdownFile: result.markdownFilePath ? path.basename(result.markdownFilePath) : undefined,
+            content: result.content
+          });
+        }
+
+        const manifest = this.history.finishRun(run, { kind: 'crawl', urls: request.urls });
+        return { runId: run.runId, pages, artifacts: manifest.artifacts };
+      } catch (error) {
+        // Unfinished runs have no manifest and are never served
+        fs.rmSync(run.dir, { recursive: true, force: true });
+        throw error;
+      } finally {
+        await crawler.close();
+      }
+    });
+  }
+
+  /**
+   * Get the manifest of a run
+   *
+   * @param runId Run ID or "latest"
+   */
+  private getManifest(runId: string): object {
+    const manifest = this.history.readManifest(runId);
+    if (!manifest) {
+      throw new HttpError(404, `Run not found: ${runId}`);
+    }
+    return manifest;
+  }
+
+  /**
+   * Send a file of a run. Only files listed in the run's manifest are served.
+   *
+   * @param res Response to write
+   * @param runId Run ID or "latest"
+   * @param name Artifact name from the manifest
+   */
+  private async sendArtifact(res: http.ServerResponse, runId: string, name: string): Promise<void> {
+    const manifest = this.history.readManifest(runId);
+    if (!manifest) {
+      throw new HttpError(404, `Run not found: ${runId}`);
+    }
+
+    const artifact = manifest.artifacts.find(candidate => candidate.name === name);
+    if (!artifact) {
+      throw new HttpError(404, `Artifact not found: ${name}`);
+    }
+
+    const filePath = path.join(this.history.getRunDir(manifest.runId), artifact.name);
+    const stats = await fs.promises.stat(filePath).catch(() => null);
+    if (!stats || !stats.isFile()) {
+      throw new HttpError(404, `Artifact not found: ${name}`);
+    }
+
+    res.writeHead(200, {
+      'Content-Type': CONTENT_TYPES[path.extname(name).toLowerCase()] || 'application/octet-stream',
+      'Content-Length': stats.size
+    });
+    // The status is already sent, so a file that can't be read any more ends the connection
+    stream.pipeline(fs.createReadStream(filePath), res, error => {
+      if (error) {
+        console.error(`[API] Failed to send ${filePath}: ${error.message}`);
+      }
+    });
+  }
+
+  /**
+   * Run a job through the queue. The timeout counts from the moment the request is queued;
+   * a job that times out is answered with 504 and asked to stop.
+   *
+   * @param job Job to run; it can set onCancel to stop its work
+   */
+  private async runJob<T>(job: (cancellation: JobCancellation) => Promise<T>): Promise<T> {
+    const cancellation: JobCancellation = { cancelled: false };
+    const timeout = this.options.requestTimeout;
+
+    const result = this.queue.add(() => {
+      if (cancellation.cancelled) {
+        // Timed out while waiting, don't start the work at all
+        return Promise.reject(new HttpError(504, 'Request timed out in the queue'));
+      }
+      return job(cancellation);
+    });
+    // The result is ignored once the request has timed out
+    result.catch(() => undefined);
+
+    let timer: NodeJS.Timeout | undefined;
+    const timedOut = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        cancellation.cancelled = true;
+        cancellation.onCancel?.().catch(() => undefined);
+        reject(new HttpError(504, `Request timed out after ${timeout}ms`));
+      }, timeout);
+    });
+
+    try {
+      return await Promise.race([result, timedOut]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+/**
+ * Reject requests with the wrong method
+ *
+ * @param req Incoming request
+ * @param method Allowed method
+ */
+function requireMethod(req: http.IncomingMessage, method: string): void {
+  if (req.method !== method) {
+    throw new HttpError(405, `Method ${req.method} not allowed, use ${method}`);
+  }
+}
+
+/**
+ * Read and parse a JSON request body
+ *
+ * @param req Incoming request
+ * @param maxSize Largest accepted body in bytes
+ */
+async function readJsonBody(req: http.IncomingMessage, maxSize: number): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > maxSize) {
+      throw new HttpError(413, `Request body larger than ${maxSize} bytes`);
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  const text = Buffer.concat(chunks).toString('utf-8');
+  if (text.trim() === '') {
+    throw new HttpError(400, 'Request body must be a JSON object');
+  }
+
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    throw new HttpError(400, `Invalid JSON: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+/**
+ * Send a JSON response
+ *
+ * @param res Response to write
+ * @param status HTTP status code
+ * @param body Response body
+ */
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  const json = JSON.stringify(body, null, 2);
+  res.writeHead(status, {
+    'Content-Type': 'application/json; charset=utf-8',
+    'Content-Length': Buffer.byteLength(json)
+  });
+  res.end(json);
+}
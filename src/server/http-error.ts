@@ -0,0 +1,18 @@
+/**
+ * Error answered with an HTTP status and a JSON error body
+ */
+export class HttpError extends Error {
+  readonly status: number;
+
+  /**
+   * Create a new HttpError
+   *
+   * @param status HTTP status code
+   * @param message Message returned to the client
+   */
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+  }
+}
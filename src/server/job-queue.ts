@@ -0,0 +1,87 @@
+import { HttpError } from './http-error';
+
+/**
+ * A task waiting for a free slot
+ */
+interface QueuedTask {
+  run: () => Promise<void>;
+}
+
+/**
+ * Runs at most a fixed number of tasks at a time; the rest wait in order.
+ * Tasks beyond the queue limit are rejected with a 503 HttpError.
+ */
+export class JobQueue {
+  private concurrency: number;
+  private maxQueueSize: number;
+  private running = 0;
+  private queue: QueuedTask[] = [];
+  private idleWaiters: (() => void)[] = [];
+
+  /**
+   * Create a new JobQueue
+   *
+   * @param concurrency Number of tasks run at the same time
+   * @param maxQueueSize Number of tasks that may wait for a slot
+   */
+  constructor(concurrency: number, maxQueueSize: number) {
+    this.concurrency = Math.max(1, Math.floor(concurrency));
+    this.maxQueueSize = Math.max(0, Math.floor(maxQueueSize));
+  }
+
+  /**
+   * Run a task as soon as a slot is free
+   *
+   * @param task Task to run
+   * @returns The result of the task
+   * @throws HttpError with status 503 if the queue is full
+   */
+  add<T>(task: () => Promise<T>): Promise<T> {
+    if (this.running >= this.concurrency && this.queue.length >= this.maxQueueSize) {
+      return Promise.reject(new HttpError(503, `Server busy: ${this.queue.length} requests are already waiting`));
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      this.queue.push({
+        run: () => task().then(resolve, reject)
+      });
+      this.next();
+    });
+  }
+
+  /**
+   * Get the number of running and waiting tasks
+   */
+  getStats(): { running: number; queued: number } {
+    return { running: this.running, queued: this.queue.length };
+  }
+
+  /**
+   * Wait until no task is running or waiting
+   */
+  onIdle(): Promise<void> {
+    if (this.running === 0 && this.queue.length === 0) {
+      return Promise.resolve();
+    }
+    return new Promise(resolve => this.idleWaiters.push(resolve));
+  }
+
+  /**
+   * Start waiting tasks while slots are free
+   */
+  private next(): void {
+    while (this.running < this.concurrency && this.queue.length > 0) {
+      const task = this.queue.shift() as QueuedTask;
+      this.running++;
+
+      task.run().finally(() => {
+        this.running--;
+        this.next();
+
+        if (this.running === 0 && this.queue.length === 0) {
+          this.idleWaiters.splice(0).forEach(resolve => resolve());
+        }
+      });
+    }
+  }
+}
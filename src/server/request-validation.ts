@@ -0,0 +1,225 @@
+import { CrawlRequest, ExtractOptions, OutputFormat, ScraperConfig, SearchEngineType } from '../config/types';
+import { CONTEXT_PACK_DEFAULTS, DEFAULT_CONFIG, FOLLOW_UP_DEFAULTS } from '../config/default-config';
+import { HttpError } from './http-error';
+
+/**
+ * Settings that belong to the server and can't be changed per request
+ */
+const SERVER_SETTINGS = ['headless', 'slowMo', 'outputDir', 'database', 'runHistory'];
+
+/**
+ * Check a POST /search body and apply it to the server configuration.
+ * The body is a partial ScraperConfig with at least a searchQuery.
+ *
+ * @param body Parsed request body
+ * @param baseConfig Server configuration the request is applied to
+ * @throws HttpError with status 400 if the body is invalid
+ */
+export function parseSearchRequest(body: unknown, baseConfig: ScraperConfig): ScraperConfig {
+  const raw = requireObject(body, 'Request body');
+  const config: ScraperConfig = { ...baseConfig };
+
+  for (const [key, value] of Object.entries(raw)) {
+    if (SERVER_SETTINGS.includes(key)) {
+      throw new HttpError(400, `"${key}" is set by the server and can't be changed per request`);
+    }
+
+    switch (key) {
+      case 'searchQuery':
+        if (typeof value !== 'string' || value.trim() === '') {
+          throw new HttpError(400, '"searchQuery" must be a non-empty string');
+        }
+        config.searchQuery = value.trim();
+        break;
+      case 'engine':
+        if (!(Object.values(SearchEngineType) as unknown[]).includes(value)) {
+          throw new HttpError(400, `"engine" must be one of: ${Object.values(SearchEngineType).join(', ')}`);
+        }
+        config.engine = value as SearchEngineType;
+        break;
+      case 'engineBaseUrl':
+        if (typeof value !== 'string' || !/^https?:\/\//i.test(value)) {
+          throw new HttpError(400, '"engineBaseUrl" must be an http(s) URL');
+        }
+        config.engineBaseUrl = value;
+        break;
+      case 'maxPages':
+      case 'maxResults':
+      case 'timeout':
+        config[key] = requirePositiveNumber(value, key);
+        break;
+      case 'outputFormats': {
+        const known = Object.values(OutputFormat) as unknown[];
+        if (!Array.isArray(value) || value.length === 0 || value.some(format => !known.includes(format))) {
+          throw new HttpError(400, `"outputFormats" must be a list of: ${known.join(', ')}`);
+        }
+        config.outputFormats = value as OutputFormat[];
+        break;
+      }
+      case 'csvPerSection':
+        if (typeof value !== 'boolean') {
+          throw new HttpError(400, '"csvPerSection" must be a boolean');
+        }
+        config.csvPerSection = value;
+        break;
+      case 'extractOptions':
+        config.extractOptions = {
+          ...baseConfig.extractOptions,
+          ...parseOptionObject(value, key, DEFAULT_CONFIG.extractOptions as ExtractOptions)
+        };
+        break;
+      case 'followUp':
+        config.followUp = {
+          ...baseConfig.followUp,
+          ...parseOptionObject(value, key, FOLLOW_UP_DEFAULTS)
+        };
+        break;
+      case 'contextPack':
+        config.contextPack = {
+          ...baseConfig.contextPack,
+          ...parseOptionObject(value, key, CONTEXT_PACK_DEFAULTS, ['maxChars', 'maxTokens'])
+        };
+        break;
+      default:
+        throw new HttpError(400, `Unknown setting "${key}"`);
+    }
+  }
+
+  if (!raw.searchQuery) {
+    throw new HttpError(400, '"searchQuery" is required');
+  }
+
+  return config;
+}
+
+/**
+ * Check a POST /crawl body: `url` or `urls` plus crawler options
+ *
+ * @param body Parsed request body
+ * @param maxUrls Largest number of URLs accepted in one request
+ * @throws HttpError with status 400 if the body is invalid
+ */
+export function parseCrawlRequest(body: unknown, maxUrls: number = 20): CrawlRequest {
+  const raw = requireObject(body, 'Request body');
+  const known = ['url', 'urls', 'waitForSelector', 'timeout', 'takeScreenshot', 'markdown', 'extractContent'];
+  const unknown = Object.keys(raw).find(key => !known.includes(key));
+  if (unknown) {
+    throw new HttpError(400, `Unknown setting "${unknown}"`);
+  }
+
+  if ((raw.url === undefined) === (raw.urls === undefined)) {
+    throw new HttpError(400, 'Expected either "url" or "urls"');
+  }
+
+  const urls = raw.url !== undefined ? [raw.url] : raw.urls;
+  if (!Array.isArray(urls) || urls.length === 0) {
+    throw new HttpError(400, '"urls" must be a non-empty list');
+  }
+  if (urls.length > maxUrls) {
+    throw new HttpError(400, `At most ${maxUrls} URLs can be crawled per request`);
+  }
+  for (const url of urls) {
+    if (typeof url !== 'string' || !isHttpUrl(url)) {
+      throw new HttpError(400, `Invalid URL ${JSON.stringify(url)}, expected an http(s) URL`);
+    }
+  }
+
+  const request: CrawlRequest = { urls: urls as string[] };
+
+  if (raw.waitForSelector !== undefined) {
+    if (typeof raw.waitForSelector !== 'string' || raw.waitForSelector.trim() === '') {
+      throw new HttpError(400, '"waitForSelector" must be a non-empty string');
+    }
+    request.waitForSelector = raw.waitForSelector;
+  }
+  if (raw.timeout !== undefined) {
+    request.timeout = requirePositiveNumber(raw.timeout, 'timeout');
+  }
+  for (const key of ['takeScreenshot', 'markdown', 'extractContent'] as const) {
+    if (raw[key] !== undefined) {
+      if (typeof raw[key] !== 'boolean') {
+        throw new HttpError(400, `"${key}" must be a boolean`);
+      }
+      request[key] = raw[key] as boolean;
+    }
+  }
+
+  return request;
+}
+
+/**
+ * Check a nested options object against the keys and value types of its defaults
+ *
+ * @param value Value from the request
+ * @param name Setting name, for error messages
+ * @param defaults Default options the accepted keys and types are taken from
+ * @param nullable Numeric options that also accept null for no limit
+ */
+function parseOptionObject<T extends object>(
+  value: unknown,
+  name: string,
+  defaults: T,
+  nullable: (keyof T)[] = []
+): Partial<T> {
+  const raw = requireObject(value, `"${name}"`);
+  const keys = Object.keys(defaults) as (keyof T)[];
+  const options: Partial<T> = {};
+
+  for (const [rawKey, option] of Object.entries(raw)) {
+    const key = keys.find(candidate => candidate === rawKey);
+    if (key === undefined) {
+      throw new HttpError(400, `Unknown setting "${name}.${rawKey}"`);
+    }
+
+    const expected = nullable.includes(key) ? 'number' : typeof defaults[key];
+    const valid = expected === 'number'
+      ? (option === null && nullable.includes(key)) || (typeof option === 'number' && option >= 0)
+      : typeof option === expected;
+    if (!valid) {
+      throw new HttpError(400, `"${name}.${rawKey}" must be a ${expected === 'number' ? 'non-negative number' : expected}`);
+    }
+
+    options[key] = option as T[keyof T];
+  }
+
+  return options;
+}
+
+/**
+ * Check that a value is a plain object
+ *
+ * @param value Value to check
+ * @param label Name of the value, for error messages
+ */
+function requireObject(value: unknown, label: string): Record<string, unknown> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new HttpError(400, `${label} must be a JSON object`);
+  }
+  return value as Record<string, unknown>;
+}
+
+/**
+ * Check that a value is a positive number
+ *
+ * @param value Value to check
+ * @param name Setting name, for error messages
+ */
+function requirePositiveNumber(value: unknown, name: string): number {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+    throw new HttpError(400, `"${name}" must be a positive number`);
+  }
+  return value;
+}
+
+/**
+ * Check whether a string is an absolute http(s) URL
+ *
+ * @param value String to check
+ */
+function isHttpUrl(value: string): boolean {
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
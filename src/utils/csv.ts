@@ -0,0 +1,12 @@
+/**
+ * Escape a CSV field as described in RFC 4180.
+ * Fields containing commas, quotes or line breaks are quoted and their quotes doubled.
+ * 
+ * @param str String to escape
+ */
+export function escapeCsvField(str: string): string {
+  if (/[",\r\n]/.test(str)) {
+    return `"${str.replace(/"/g, '""')}"`;
+  }
+  return str;
+}
@@ -0,0 +1,17 @@
+import { ResultCounts, SearchResults } from '../config/types';
+
+/**
+ * Count the items found per result type
+ * 
+ * @param results Search results to count
+ */
+export function countResults(results: SearchResults): ResultCounts {
+  return {
+    organicResults: results.organicResults?.length || 0,
+    featuredSnippets: results.featuredSnippets?.length || 0,
+    peopleAlsoAsk: results.peopleAlsoAsk?.length || 0,
+    relatedSearches: results.relatedSearches?.length || 0,
+    videos: results.videos?.length || 0,
+    images: results.images?.length || 0
+  };
+}
@@ -0,0 +1,109 @@
+import { TRACKING_PARAMETERS } from '../config/default-config';
+
+/**
+ * Maximum number of nested redirect wrappers to unwrap
+ */
+const MAX_REDIRECT_DEPTH = 3;
+
+/**
+ * Normalize a URL captured from a search results page.
+ * Resolves relative URLs, unwraps click-tracking redirects and strips tracking parameters.
+ * 
+ * @param url URL as found in the page
+ * @param baseUrl URL to resolve relative URLs against
+ * @returns The normalized URL, or the input unchanged if it can't be parsed
+ */
+export function normalizeUrl(url: string | null, baseUrl?: string): string | null {
+  if (!url) {
+    return url;
+  }
+  
+  let parsed: URL;
+  try {
+    parsed = new URL(url, baseUrl);
+  } catch {
+    return url;
+  }
+  
+  // Unwrap nested redirect wrappers
+  for (let depth = 0; depth < MAX_REDIRECT_DEPTH; depth++) {
+    const target = decodeRedirectUrl(parsed);
+    if (!target) {
+      break;
+    }
+    parsed = target;
+  }
+  
+  stripTrackingParameters(parsed);
+  return parsed.toString();
+}
+
+/**
+ * Decode the destination of a known click-tracking redirect URL
+ * 
+ * @param url Parsed URL
+ * @returns The destination URL, or null if the URL is not a redirect wrapper
+ */
+export function decodeRedirectUrl(url: URL): URL | null {
+  const host = url.hostname.toLowerCase();
+  let target: string | null = null;
+  
+  if (isHost(host, 'bing.com') && url.pathname === '/ck/a') {
+    // Bing encodes the destination as "a1" followed by URL-safe base64
+    const encoded = url.searchParams.get('u');
+    if (encoded && encoded.startsWith('a1')) {
+      target = decodeBase64Url(encoded.slice(2));
+    }
+  } else if (isHost(host, 'duckduckgo.com') && url.pathname === '/l/') {
+    target = url.searchParams.get('uddg');
+  } else if (isHost(host, 'google.com') && url.pathname === '/url') {
+    target = url.searchParams.get('q') || url.searchParams.get('url');
+  }
+  
+  if (!target || !/^https?:\/\//i.test(target)) {
+    return null;
+  }
+  
+  try {
+    return new URL(target);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Remove tracking parameters such as utm_* and fbclid from a URL in place
+ * 
+ * @param url Parsed URL
+ */
+export function stripTrackingParameters(url: URL): void {
+  for (const name of Array.from(url.searchParams.keys())) {
+    const lowerName = name.toLowerCase();
+    const isTracking = TRACKING_PARAMETERS.some(pattern =>
+      pattern.endsWith('*') ? lowerName.startsWith(pattern.slice(0, -1)) : lowerName === pattern
+    );
+    
+    if (isTracking) {
+      url.searchParams.delete(name);
+    }
+  }
+}
+
+/**
+ * Check whether a host name is a domain or one of its subdomains
+ */
+function isHost(host: string, domain: string): boolean {
+  return host === domain || host.endsWith(`.${domain}`);
+}
+
+/**
+ * Decode URL-safe base64 with or without padding
+ */
+function decodeBase64Url(value: string): string | null {
+  try {
+    const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+    return Buffer.from(base64, 'base64').toString('utf-8');
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,143 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { ApiServer } from '../src/server/api-server';
+import { JobQueue } from '../src/server/job-queue';
+import { RunHistory } from '../src/output/run-history';
+import { ScraperConfig, SearchEngineType } from '../src/config/types';
+
+/**
+ * Send a request to the test server
+ */
+function request(port: number, method: string, urlPath: string, body?: string): Promise<{ status: number; type?: string; body: string }> {
+  return new Promise((resolve, reject) => {
+    const req = http.request({ host: '127.0.0.1', port, method, path: urlPath }, res => {
+      const chunks: Buffer[] = [];
+      res.on('data', chunk => chunks.push(chunk));
+      res.on('end', () => resolve({
+        status: res.statusCode || 0,
+        type: res.headers['content-type'],
+        body: Buffer.concat(chunks).toString('utf-8')
+      }));
+    });
+    req.on('error', reject);
+    req.end(body);
+  });
+}
+
+describe('ApiServer', () => {
+  let dir: string;
+  let server: ApiServer;
+  let port: number;
+  let runId: string;
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'api-server-'));
+
+    const history = new RunHistory(dir);
+    const run = history.startRun(new Date('2024-01-01T00:00:00.000Z'));
+    fs.writeFileSync(path.join(run.dir, 'search-results.json'), '{"query":"q"}');
+    fs.mkdirSync(path.join(run.dir, 'pages'));
+    fs.writeFileSync(path.join(run.dir, 'pages', 'a.md'), '# A');
+    fs.writeFileSync(path.join(dir, 'secret.txt'), 'secret');
+    runId = history.finishRun(run, {
+      query: 'q',
+      engine: SearchEngineType.BING,
+      config: { searchQuery: 'q', outputDir: dir } as ScraperConfig
+    }).runId;
+
+    server = new ApiServer({ searchQuery: '', outputDir: dir } as ScraperConfig, { port: 0 });
+    port = await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+    fs.rmSync(dir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  it('serves run manifests', async () => {
+    const response = await request(port, 'GET', `/runs/${runId}`);
+
+    expect(response.status).toBe(200);
+    expect(response.type).toContain('application/json');
+    expect(JSON.parse(response.body)).toMatchObject({ runId, kind: 'search', query: 'q' });
+    expect(JSON.parse((await request(port, 'GET', '/runs/latest')).body).runId).toBe(runId);
+  });
+
+  it('serves only the artifacts listed in the manifest', async () => {
+    const nested = await request(port, 'GET', `/runs/${runId}/artifacts/pages/a.md`);
+    expect(nested).toMatchObject({ status: 200, body: '# A' });
+    expect(nested.type).toContain('text/markdown');
+
+    const encoded = await request(port, 'GET', `/runs/${runId}/artifacts/pages%2Fa.md`);
+    expect(encoded.status).toBe(200);
+
+    for (const name of ['manifest.json', '..%2F..%2Fsecret.txt', 'missing.json']) {
+      expect((await request(port, 'GET', `/runs/${runId}/artifacts/${name}`)).status).toBe(404);
+    }
+  });
+
+  it('answers errors with JSON', async () => {
+    const cases: [string, string, string | undefined, number, string][] = [
+      ['GET', '/runs/20990101-000000-abcdef', undefined, 404, 'Run not found'],
+      ['GET', '/runs/..%2Fetc', undefined, 404, 'Run not found'],
+      ['GET', '/unknown', undefined, 404, 'No route for GET /unknown'],
+      ['GET', '/search', undefined, 405, 'use POST'],
+      ['POST', '/search', '{"searchQuery":', 400, 'Invalid JSON'],
+      ['POST', '/search', '{"searchQuery": "q", "outputDir": "/tmp"}', 400, '"outputDir" is set by the server'],
+      ['POST', '/crawl', '{"url": "ftp://example.com/"}', 400, 'expected an http(s) URL']
+    ];
+
+    for (const [method, urlPath, body, status, message] of cases) {
+      const response = await request(port, method, urlPath, body);
+      expect(response.status).toBe(status);
+      expect(JSON.parse(response.body).error).toContain(message);
+    }
+  });
+
+  it('rejects bodies over the size limit', async () => {
+    const response = await request(port, 'POST', '/search', JSON.stringify({ searchQuery: 'x'.repeat(2 * 1024 * 1024) }));
+
+    expect(response.status).toBe(413);
+  });
+});
+
+describe('JobQueue', () => {
+  it('runs a limited number of tasks at a time in order', async () => {
+    const queue = new JobQueue(2, 10);
+    const started: number[] = [];
+    let running = 0;
+    let maxRunning = 0;
+
+    const results = await Promise.all([1, 2, 3, 4, 5].map(id => queue.add(async () => {
+      started.push(id);
+      maxRunning = Math.max(maxRunning, ++running);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      running--;
+      return id * 10;
+    })));
+
+    expect(results).toEqual([10, 20, 30, 40, 50]);
+    expect(started).toEqual([1, 2, 3, 4, 5]);
+    expect(maxRunning).toBe(2);
+    await queue.onIdle();
+  });
+
+  it('rejects tasks when the queue is full and keeps going after failures', async () => {
+    const queue = new JobQueue(1, 1);
+    let release: () => void = () => undefined;
+
+    const first = queue.add(() => new Promise<void>(resolve => { release = resolve; }));
+    const second = queue.add(() => Promise.reject(new Error('boom')));
+    await expect(queue.add(async () => 'third')).rejects.toMatchObject({ status: 503 });
+    expect(queue.getStats()).toEqual({ running: 1, queued: 1 });
+
+    release();
+    await first;
+    await expect(second).rejects.toThrow('boom');
+    await expect(queue.add(async () => 'fourth')).resolves.toBe('fourth');
+  });
+});
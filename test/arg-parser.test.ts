@@ -0,0 +1,36 @@
+import { parseArgs, CliUsageError, OptionSpec } from '../src/cli/arg-parser';
+
+const specs: OptionSpec[] = [
+  { name: 'format', alias: 'f', type: 'string', description: 'Formats' },
+  { name: 'slow-mo', type: 'number', description: 'Delay' },
+  { name: 'videos', type: 'boolean', description: 'Videos' },
+  { name: 'help', alias: 'h', type: 'boolean', description: 'Help' }
+];
+
+describe('parseArgs', () => {
+  it('separates positional arguments from options', () => {
+    expect(parseArgs(['puppeteer tutorial', '--format', 'json,csv', './out', '-h'], specs)).toEqual({
+      positional: ['puppeteer tutorial', './out'],
+      options: { format: 'json,csv', help: true }
+    });
+  });
+
+  it('supports inline values, numbers and negated booleans', () => {
+    expect(parseArgs(['--slow-mo=25', '--no-videos', '-f', 'html'], specs).options).toEqual({
+      'slow-mo': 25,
+      videos: false,
+      format: 'html'
+    });
+  });
+
+  it('treats everything after -- as positional', () => {
+    expect(parseArgs(['--', '--videos'], specs).positional).toEqual(['--videos']);
+  });
+
+  it('rejects unknown options, missing values and invalid numbers', () => {
+    expect(() => parseArgs(['--bogus'], specs)).toThrow(CliUsageError);
+    expect(() => parseArgs(['--format'], specs)).toThrow('Option --format requires a value');
+    expect(() => parseArgs(['--slow-mo', 'fast'], specs)).toThrow('expects a number');
+    expect(() => parseArgs(['--no-format'], specs)).toThrow('Unknown option: --no-format');
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * @jest-environment jsdom
+ */
+import { extractContentFromDocument } from '../src/content/content-extractor';
+import { expectGolden, readFixture, toGoldenJson } from './helpers/golden';
+
+function parse(html: string): Document {
+  return new DOMParser().parseFromString(html, 'text/html');
+}
+
+describe('extractContentFromDocument', () => {
+  it('extracts the article from a blog post', () => {
+    const content = extractContentFromDocument(parse(readFixture('article.html')));
+
+    expectGolden('article/content.json', toGoldenJson(content));
+  });
+
+  it('leaves out navigation, banners, sidebars and comments', () => {
+    const { text } = extractContentFromDocument(parse(readFixture('article.html')));
+
+    expect(text).not.toMatch(/cookies|Popular posts|Great post|All rights reserved|Share on Twitter|window\.analytics/);
+  });
+
+  it('does not modify the document', () => {
+    const doc = parse(readFixture('article.html'));
+    const before = doc.documentElement.outerHTML;
+
+    extractContentFromDocument(doc);
+
+    expect(doc.documentElement.outerHTML).toBe(before);
+  });
+
+  it('scores paragraph containers when there is no article element', () => {
+    const paragraph = 'The container with the most prose wins, even without semantic markup, because every paragraph adds to its score.';
+    const doc = parse(`
+      <html><head><title>Plain page</title></head><body>
+        <div id="menu"><a href="/">Home</a> <a href="/about">About</a></div>
+        <div id="links"><p><a href="/a">First link</a>, <a href="/b">second link</a>, <a href="/c">third link</a></p></div>
+        <div id="story"><p>${paragraph}</p><p>${paragraph}</p><p>${paragraph}</p></div>
+      </body></html>
+    `);
+
+    const content = extractContentFromDocument(doc);
+
+    expect(content.title).toBe('Plain page');
+    expect(content.blocks).toEqual([
+      { type: 'paragraph', text: paragraph },
+      { type: 'paragraph', text: paragraph },
+      { type: 'paragraph', text: paragraph }
+    ]);
+  });
+});
@@ -0,0 +1,115 @@
+import { ContextPackBuilder } from '../src/output/context-pack';
+import { FollowUpPage, OrganicResult, SearchResults } from '../src/config/types';
+import { FIXED_TIMESTAMP } from './helpers/golden';
+
+function organic(position: number, snippet: string, followUpText?: string): OrganicResult {
+  const url = `https://example.com/${position}`;
+  const result: OrganicResult = { position, title: `Result ${position}`, url, snippet, deepLinks: [] };
+
+  if (followUpText !== undefined) {
+    result.followUpResults = {
+      url,
+      finalUrl: url,
+      canonicalUrl: null,
+      title: `Result ${position}`,
+      text: followUpText,
+      links: [],
+      statusCode: 200,
+      byline: null,
+      publishedAt: null,
+      blocks: [],
+      depth: 1,
+      fetchedAt: FIXED_TIMESTAMP,
+      durationMs: 0
+    } as FollowUpPage;
+  }
+
+  return result;
+}
+
+function searchResults(overrides: Partial<SearchResults> = {}): SearchResults {
+  return {
+    query: 'event loop',
+    timestamp: FIXED_TIMESTAMP,
+    organicResults: [],
+    featuredSnippets: [],
+    peopleAlsoAsk: [],
+    relatedSearches: [],
+    ...overrides
+  };
+}
+
+describe('ContextPackBuilder', () => {
+  it('numbers sources by rank and cites them from answers', () => {
+    const pack = new ContextPackBuilder().build(searchResults({
+      organicResults: [organic(1, 'First snippet.'), organic(2, 'Second snippet.')],
+      featuredSnippets: [{ content: 'The answer.', source: 'Example', url: 'https://example.com/2' }]
+    }));
+
+    expect(pack.sources.map(source => source.id)).toEqual([1, 2]);
+    expect(pack.answers).toEqual([{ text: 'The answer.', sourceId: 2 }]);
+    expect(new ContextPackBuilder().toMarkdown(pack)).toContain('- The answer. [2]');
+    expect(pack.truncated).toBe(false);
+  });
+
+  it('drops snippets that repeat an answer or an earlier snippet', () => {
+    const pack = new ContextPackBuilder().build(searchResults({
+      organicResults: [organic(1, 'The answer...'), organic(2, 'Unique.'), organic(3, 'unique.')],
+      featuredSnippets: [{ content: 'The answer', source: null }]
+    }));
+
+    expect(pack.sources.map(source => source.snippet)).toEqual([null, 'Unique.', null]);
+  });
+
+  it('stops adding sources when the budget is used up', () => {
+    const builder = new ContextPackBuilder({ maxTokens: null, maxChars: 300 });
+    const results = searchResults({
+      organicResults: [1, 2, 3, 4, 5].map(position => organic(position, 'A snippet of about forty characters.')),
+      relatedSearches: ['event loop node', 'event loop browser']
+    });
+
+    const pack = builder.build(results);
+
+    expect(pack.sources.length).toBeGreaterThan(0);
+    expect(pack.sources.length).toBeLessThan(5);
+    expect(pack.sources.map(source => source.id)).toEqual(pack.sources.map((_, index) => index + 1));
+    expect(pack.truncated).toBe(true);
+    expect(pack.budget.usedChars).toBeLessThanOrEqual(300);
+    expect(builder.toMarkdown(pack).length).toBe(pack.budget.usedChars);
+  });
+
+  it('removes citations of sources left out of the pack', () => {
+    const pack = new ContextPackBuilder({ maxTokens: null, maxChars: 260 }).build(searchResults({
+      organicResults: [1, 2, 3, 4].map(position => organic(position, `Snippet number ${position}.`)),
+      featuredSnippets: [{ content: 'The answer.', source: null, url: 'https://example.com/4' }]
+    }));
+
+    expect(pack.sources.length).toBeLessThan(4);
+    expect(pack.answers).toEqual([{ text: 'The answer.', sourceId: null }]);
+  });
+
+  it('gives follow-up excerpts to top-ranked sources first', () => {
+    const longText = 'word '.repeat(400).trim();
+    const builder = new ContextPackBuilder({ maxTokens: null, maxChars: 1500, maxSourceChars: 1000 });
+
+    const pack = builder.build(searchResults({
+      organicResults: [organic(1, 'First.', longText), organic(2, 'Second.', longText)]
+    }));
+
+    expect(pack.sources[0].content!.length).toBeLessThanOrEqual(1000);
+    expect(pack.sources[0].content!.length).toBeGreaterThan(900);
+    expect(pack.sources[0].content?.endsWith('…')).toBe(true);
+    expect(pack.sources[0].contentTruncated).toBe(true);
+    expect(pack.sources[1].content!.length).toBeLessThan(1000);
+    expect(pack.budget.usedChars).toBeLessThanOrEqual(1500);
+  });
+
+  it('estimates tokens from the character count', () => {
+    const pack = new ContextPackBuilder({ charsPerToken: 4 }).build(searchResults({
+      organicResults: [organic(1, 'Snippet.')]
+    }));
+
+    expect(pack.budget.maxChars).toBe(16000);
+    expect(pack.budget.estimatedTokens).toBe(Math.ceil(pack.budget.usedChars / 4));
+  });
+});
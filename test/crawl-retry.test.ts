@@ -0,0 +1,50 @@
+import { TimeoutError } from 'puppeteer';
+import { CrawlError, getRetryDelay, isRetryable, toCrawlError } from '../src/scraper/crawl-retry';
+
+describe('toCrawlError', () => {
+  it('reports puppeteer timeouts as timeouts', () => {
+    const error = toCrawlError(new TimeoutError('Navigation timeout of 30000 ms exceeded'));
+    expect(error.outcome).toBe('timeout');
+    expect(error.message).toBe('Navigation timeout of 30000 ms exceeded');
+    expect(error.statusCode).toBeNull();
+  });
+
+  it('reports other errors as navigation errors', () => {
+    expect(toCrawlError(new Error('net::ERR_NAME_NOT_RESOLVED')).outcome).toBe('navigation-error');
+    expect(toCrawlError('closed').message).toBe('closed');
+  });
+
+  it('keeps crawl errors as they are', () => {
+    const error = new CrawlError('http-error', 'HTTP 404', 404);
+    expect(toCrawlError(error)).toBe(error);
+  });
+});
+
+describe('isRetryable', () => {
+  it('retries timeouts, navigation errors, server errors and rate limiting', () => {
+    expect(isRetryable(new CrawlError('timeout', 'timeout'))).toBe(true);
+    expect(isRetryable(new CrawlError('navigation-error', 'reset'))).toBe(true);
+    expect(isRetryable(new CrawlError('http-error', 'HTTP 503', 503))).toBe(true);
+    expect(isRetryable(new CrawlError('http-error', 'HTTP 429', 429))).toBe(true);
+  });
+
+  it('does not retry client errors', () => {
+    expect(isRetryable(new CrawlError('http-error', 'HTTP 404', 404))).toBe(false);
+    expect(isRetryable(new CrawlError('http-error', 'HTTP 403', 403))).toBe(false);
+  });
+});
+
+describe('getRetryDelay', () => {
+  const options = { retries: 5, baseDelay: 1000, maxDelay: 5000, jitter: 0.5 };
+
+  it('doubles the delay for every retry up to the maximum', () => {
+    const noJitter = { ...options, jitter: 0 };
+    expect([1, 2, 3, 4].map(retry => getRetryDelay(retry, noJitter))).toEqual([1000, 2000, 4000, 5000]);
+  });
+
+  it('varies the delay by the jitter fraction', () => {
+    expect(getRetryDelay(2, options, () => 0)).toBe(1000);
+    expect(getRetryDelay(2, options, () => 0.5)).toBe(2000);
+    expect(getRetryDelay(2, options, () => 0.999)).toBe(2998);
+  });
+});
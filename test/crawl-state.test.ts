@@ -0,0 +1,106 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CRAWL_STATE_FILE, CrawlState, hashContent } from '../src/scraper/crawl-state';
+import { CrawlUrlResult } from '../src/config/types';
+
+describe('CrawlState', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'crawl-state-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  // Save a page like the crawler does and return its result
+  const crawled = (url: string, name: string, html: string): CrawlUrlResult => {
+    const filePath = path.join(dir, `${name}.html`);
+    fs.writeFileSync(filePath, html);
+    return { url, outcome: 'success', statusCode: 200, attempts: 1, filePath, contentHash: hashContent(html), durationMs: 5 };
+  };
+
+  it('has nothing to load in a new output folder', () => {
+    expect(CrawlState.exists(dir)).toBe(false);
+    expect(new CrawlState(dir).load()).toBe(false);
+  });
+
+  it('saves every result and reads them back in a new run', () => {
+    const state = new CrawlState(dir);
+    state.record(crawled('https://example.org/', 'example.org', '<p>Hi</p>'));
+    state.record({
+      url: 'https://example.net/missing',
+      outcome: 'http-error',
+      statusCode: 404,
+      attempts: 1,
+      error: 'HTTP 404 for https://example.net/missing',
+      durationMs: 5
+    });
+
+    expect(CrawlState.exists(dir)).toBe(true);
+
+    const resumed = new CrawlState(dir);
+    expect(resumed.load()).toBe(true);
+    expect(resumed.getUrls()).toEqual(['https://example.org/', 'https://example.net/missing']);
+    expect(resumed.getEntry('https://example.org/')).toMatchObject({
+      status: 'success',
+      statusCode: 200,
+      attempts: 1,
+      filePath: 'example.org.html',
+      contentHash: hashContent('<p>Hi</p>')
+    });
+    expect(resumed.isCompleted('https://example.org/')).toBe(true);
+    expect(resumed.isCompleted('https://example.net/missing')).toBe(false);
+    expect(resumed.isCompleted('https://example.com/')).toBe(false);
+
+    expect(resumed.getCompletedResult('https://example.org/')).toMatchObject({
+      outcome: 'success',
+      attempts: 0,
+      skipped: true,
+      filePath: path.join(dir, 'example.org.html')
+    });
+  });
+
+  it('crawls a URL again when its file is gone or changed', () => {
+    const state = new CrawlState(dir);
+    state.record(crawled('https://example.org/', 'example.org', '<p>Hi</p>'));
+    state.record(crawled('https://example.net/', 'example.net', '<p>Hello</p>'));
+
+    fs.unlinkSync(path.join(dir, 'example.org.html'));
+    fs.writeFileSync(path.join(dir, 'example.net.html'), '<p>Edited</p>');
+
+    expect(state.isCompleted('https://example.org/')).toBe(false);
+    expect(state.isCompleted('https://example.net/')).toBe(false);
+  });
+
+  it('adds up the attempts of all runs', () => {
+    const failed: CrawlUrlResult = {
+      url: 'https://example.org/',
+      outcome: 'timeout',
+      statusCode: null,
+      attempts: 3,
+      error: 'Navigation timeout',
+      durationMs: 5
+    };
+    new CrawlState(dir).record(failed);
+
+    const resumed = new CrawlState(dir);
+    resumed.load();
+    resumed.record({ ...crawled('https://example.org/', 'example.org', '<p>Hi</p>'), attempts: 2 });
+
+    const entry = resumed.getEntry('https://example.org/');
+    expect(entry?.attempts).toBe(5);
+    expect(entry?.status).toBe('success');
+    expect(entry?.error).toBeUndefined();
+  });
+
+  it('rejects state files it does not understand', () => {
+    fs.writeFileSync(path.join(dir, CRAWL_STATE_FILE), '{"version": 99, "urls": {}}');
+    expect(() => new CrawlState(dir).load()).toThrow('Unsupported crawl state file');
+
+    fs.writeFileSync(path.join(dir, CRAWL_STATE_FILE), 'not json');
+    expect(() => new CrawlState(dir).load()).toThrow('Invalid crawl state file');
+  });
+});
@@ -0,0 +1,111 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Crawler } from '../src/scraper/crawler';
+import { CrawlError } from '../src/scraper/crawl-retry';
+import { CrawlState, hashContent } from '../src/scraper/crawl-state';
+
+type CrawlResult = Awaited<ReturnType<Crawler['crawl']>>;
+
+describe('Crawler.crawlMultiple', () => {
+  let dir: string;
+  let crawler: Crawler;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'crawler-'));
+    // The browser is never launched, crawl() is replaced per test
+    crawler = new Crawler(true, 0);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    await crawler.close();
+    jest.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  // Save a page the way crawl() does
+  const savePage = (url: string): CrawlResult => {
+    const html = `<p>${url}</p>`;
+    const filePath = path.join(dir, `${new URL(url).hostname}.html`);
+    fs.writeFileSync(filePath, html);
+    return { filePath, statusCode: 200, contentHash: hashContent(html), timingData: { steps: {}, extractionSteps: {} } };
+  };
+
+  const urls = ['https://a.example/', 'https://b.example/', 'https://c.example/'];
+
+  it('records every URL as pending before crawling and resumes a stopped crawl', async () => {
+    // The first run is stopped while crawling the second URL
+    let stalled!: () => void;
+    const reachedSecond = new Promise<void>(resolve => {
+      stalled = resolve;
+    });
+    jest.spyOn(crawler, 'crawl').mockImplementation(async url => {
+      if (url === urls[0]) {
+        return savePage(url);
+      }
+      stalled();
+      return new Promise<CrawlResult>(() => undefined);
+    });
+    void crawler.crawlMultiple(urls, dir);
+    await reachedSecond;
+
+    const stopped = new CrawlState(dir);
+    stopped.load();
+    expect(stopped.getUrls()).toEqual(urls);
+    expect(stopped.getEntry(urls[0])?.status).toBe('success');
+    expect(stopped.getEntry(urls[1])).toMatchObject({ status: 'pending', attempts: 0 });
+    expect(stopped.getEntry(urls[2])).toMatchObject({ status: 'pending', attempts: 0 });
+
+    // The second run only crawls the URLs that didn't complete
+    const resumed = new Crawler(true, 0);
+    const crawl = jest.spyOn(resumed, 'crawl').mockImplementation(async url => savePage(url));
+    const report = await resumed.crawlMultiple(urls, dir);
+    await resumed.close();
+
+    expect(crawl.mock.calls.map(call => call[0])).toEqual([urls[1], urls[2]]);
+    expect(report.results.map(result => [result.outcome, result.skipped === true])).toEqual([
+      ['success', true],
+      ['success', false],
+      ['success', false]
+    ]);
+    expect(report.filePaths).toHaveLength(3);
+    expect(new CrawlState(dir).load()).toBe(true);
+  });
+
+  it('crawls every URL again on restart', async () => {
+    const crawl = jest.spyOn(crawler, 'crawl').mockImplementation(async url => savePage(url));
+    await crawler.crawlMultiple(urls, dir);
+    await crawler.crawlMultiple(urls, dir, { resume: false });
+
+    expect(crawl).toHaveBeenCalledTimes(6);
+  });
+
+  it('retries errors that may go away and reports the rest without stopping the crawl', async () => {
+    let serverErrors = 0;
+    const crawl = jest.spyOn(crawler, 'crawl').mockImplementation(async url => {
+      if (url === urls[0]) {
+        throw new CrawlError('http-error', `HTTP 404 for ${url}`, 404);
+      }
+      if (url === urls[1] && serverErrors++ === 0) {
+        throw new CrawlError('http-error', `HTTP 503 for ${url}`, 503);
+      }
+      return savePage(url);
+    });
+
+    const report = await crawler.crawlMultiple(urls, dir, { retry: { retries: 2, baseDelay: 1 } });
+
+    expect(crawl.mock.calls.every(call => call[2]?.failOnHttpError === true)).toBe(true);
+    expect(report.results.map(result => [result.outcome, result.statusCode, result.attempts])).toEqual([
+      ['http-error', 404, 1],
+      ['success', 200, 2],
+      ['success', 200, 1]
+    ]);
+    expect(report.failures.map(failure => failure.url)).toEqual([urls[0]]);
+    expect(report.filePaths).toHaveLength(2);
+
+    const state = new CrawlState(dir);
+    state.load();
+    expect(state.getEntry(urls[0])).toMatchObject({ status: 'http-error', statusCode: 404, attempts: 1 });
+  });
+});
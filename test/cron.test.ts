@@ -0,0 +1,50 @@
+import { CronSchedule } from '../src/scheduler/cron';
+
+// Local times, as cron schedules are in local time
+const at = (year: number, month: number, day: number, hour = 0, minute = 0) => new Date(year, month - 1, day, hour, minute);
+
+describe('CronSchedule', () => {
+  it('finds the next run of simple schedules', () => {
+    expect(new CronSchedule('*/15 * * * *').next(at(2024, 1, 1, 10, 7))).toEqual(at(2024, 1, 1, 10, 15));
+    expect(new CronSchedule('30 9 * * *').next(at(2024, 1, 1, 10, 0))).toEqual(at(2024, 1, 2, 9, 30));
+    expect(new CronSchedule('@hourly').next(at(2024, 1, 1, 23, 0))).toEqual(at(2024, 1, 2, 0, 0));
+    expect(new CronSchedule('@monthly').next(at(2024, 12, 15))).toEqual(at(2025, 1, 1));
+  });
+
+  it('never returns the minute it starts from', () => {
+    expect(new CronSchedule('0 12 * * *').next(at(2024, 1, 1, 12, 0))).toEqual(at(2024, 1, 2, 12, 0));
+  });
+
+  it('accepts names, ranges, steps, lists and 7 for Sunday', () => {
+    const weekdays = new CronSchedule('0 8 * * mon-fri');
+    // 2024-01-06 is a Saturday
+    expect(weekdays.next(at(2024, 1, 6))).toEqual(at(2024, 1, 8, 8, 0));
+
+    expect(new CronSchedule('0 0 * * 7').next(at(2024, 1, 1))).toEqual(at(2024, 1, 7));
+    expect(new CronSchedule('5/20 * * * *').next(at(2024, 1, 1, 0, 30))).toEqual(at(2024, 1, 1, 0, 45));
+    expect(new CronSchedule('0 0 1 jan,jul *').next(at(2024, 2, 1))).toEqual(at(2024, 7, 1));
+  });
+
+  it('matches either day field when both are restricted', () => {
+    const schedule = new CronSchedule('0 0 13 * fri');
+
+    // 2024-01-05 is a Friday, 2024-01-13 a Saturday
+    expect(schedule.matches(at(2024, 1, 5))).toBe(true);
+    expect(schedule.matches(at(2024, 1, 13))).toBe(true);
+    expect(schedule.matches(at(2024, 1, 14))).toBe(false);
+    expect(schedule.next(at(2024, 1, 5))).toEqual(at(2024, 1, 12));
+  });
+
+  it('finds leap days and rejects schedules that never run', () => {
+    expect(new CronSchedule('0 0 29 2 *').next(at(2025, 1, 1))).toEqual(at(2028, 2, 29));
+    expect(() => new CronSchedule('0 0 30 2 *').next(at(2024, 1, 1))).toThrow('never runs');
+  });
+
+  it('rejects invalid expressions', () => {
+    expect(() => new CronSchedule('* * * *')).toThrow('expected 5 fields');
+    expect(() => new CronSchedule('60 * * * *')).toThrow('60 is outside 0-59');
+    expect(() => new CronSchedule('* * * * */0')).toThrow('invalid step');
+    expect(() => new CronSchedule('5-1 * * * *')).toThrow('reversed');
+    expect(() => new CronSchedule('* * * foo *')).toThrow('"foo" is not a number');
+  });
+});
@@ -0,0 +1,94 @@
+import * as puppeteer from 'puppeteer';
+import { BrowserManager } from '../src/scraper/browser-manager';
+import { extractFromHtml } from '../src/scraper/html-extractor';
+import { BingEngine } from '../src/engines/bing-engine';
+import { DEFAULT_CONFIG } from '../src/config/default-config';
+import { ExtractOptions, SearchEngineType } from '../src/config/types';
+import { OrganicResultsExtractor } from '../src/extractors/organic-results-extractor';
+import { FeaturedSnippetsExtractor } from '../src/extractors/featured-snippets-extractor';
+import { PeopleAlsoAskExtractor } from '../src/extractors/people-also-ask-extractor';
+import { RelatedSearchesExtractor } from '../src/extractors/related-searches-extractor';
+import { VideoResultsExtractor } from '../src/extractors/video-results-extractor';
+import { ImageResultsExtractor } from '../src/extractors/image-results-extractor';
+import { expectGolden, readFixture, toGoldenJson, FIXED_TIMESTAMP } from './helpers/golden';
+
+const BROWSER_TIMEOUT = 60000;
+
+const fixture = readFixture('bing-serp.html');
+const engine = new BingEngine();
+const selectors = engine.selectors;
+const extractorOptions = { waitForContent: false, baseUrl: engine.homeUrl };
+
+describe('extractors on a saved Bing SERP', () => {
+  const browserManager = new BrowserManager(true, 0);
+  let page: puppeteer.Page;
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    await browserManager.initialize();
+    await browserManager.loadStaticContent(fixture);
+    page = browserManager.getPage();
+  }, BROWSER_TIMEOUT);
+
+  afterAll(async () => {
+    await browserManager.close();
+    jest.restoreAllMocks();
+  });
+
+  it('extracts organic results with deep links', async () => {
+    const results = await new OrganicResultsExtractor(page, selectors, extractorOptions).extract();
+    expectGolden('bing-serp/organic-results.json', toGoldenJson(results));
+  });
+
+  it('extracts featured snippets', async () => {
+    const snippets = await new FeaturedSnippetsExtractor(page, selectors, extractorOptions).extract();
+    expectGolden('bing-serp/featured-snippets.json', toGoldenJson(snippets));
+  });
+
+  it('extracts "People Also Ask" questions', async () => {
+    const questions = await new PeopleAlsoAskExtractor(page, selectors, extractorOptions).extract();
+    expectGolden('bing-serp/people-also-ask.json', toGoldenJson(questions));
+  });
+
+  it('extracts related searches', async () => {
+    const searches = await new RelatedSearchesExtractor(page, selectors, extractorOptions).extract();
+    expectGolden('bing-serp/related-searches.json', toGoldenJson(searches));
+  });
+
+  it('extracts video results', async () => {
+    const videos = await new VideoResultsExtractor(page, selectors, extractorOptions).extract();
+    expectGolden('bing-serp/videos.json', toGoldenJson(videos));
+  });
+
+  it('extracts image results', async () => {
+    const images = await new ImageResultsExtractor(page, selectors, extractorOptions).extract();
+    expectGolden('bing-serp/images.json', toGoldenJson(images));
+  });
+});
+
+describe('extractFromHtml', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('produces the full search results and detects the query', async () => {
+    const extractOptions: ExtractOptions = {
+      ...(DEFAULT_CONFIG.extractOptions as ExtractOptions),
+      images: true
+    };
+
+    const { timingData, ...results } = await extractFromHtml(fixture, extractOptions, {
+      engine: SearchEngineType.BING
+    });
+
+    expect(timingData?.steps.htmlLoad).toBeGreaterThan(0);
+    expectGolden('bing-serp/search-results.json', toGoldenJson({ ...results, timestamp: FIXED_TIMESTAMP }));
+  }, BROWSER_TIMEOUT);
+});
@@ -0,0 +1,53 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Directory holding the checked-in golden outputs
+ */
+export const GOLDEN_DIR = path.join(__dirname, '..', 'golden');
+
+/**
+ * Fixed timestamp used so golden outputs stay stable between runs
+ */
+export const FIXED_TIMESTAMP = '2024-01-01T00:00:00.000Z';
+
+/**
+ * Compare output against a golden file.
+ * Run with UPDATE_GOLDEN=1 to (re)write the golden files instead.
+ * 
+ * @param name Path of the golden file relative to the golden directory
+ * @param actual Actual output
+ */
+export function expectGolden(name: string, actual: string): void {
+  const goldenPath = path.join(GOLDEN_DIR, name);
+  
+  if (process.env.UPDATE_GOLDEN) {
+    fs.mkdirSync(path.dirname(goldenPath), { recursive: true });
+    fs.writeFileSync(goldenPath, actual);
+    return;
+  }
+  
+  if (!fs.existsSync(goldenPath)) {
+    throw new Error(`Golden file ${name} is missing, run the tests with UPDATE_GOLDEN=1 to create it`);
+  }
+  
+  expect(actual).toBe(fs.readFileSync(goldenPath, 'utf-8'));
+}
+
+/**
+ * Serialize a value the way golden JSON files are stored
+ * 
+ * @param value Value to serialize
+ */
+export function toGoldenJson(value: unknown): string {
+  return JSON.stringify(value, null, 2) + '\n';
+}
+
+/**
+ * Read a test fixture
+ * 
+ * @param name File name inside the fixtures directory
+ */
+export function readFixture(name: string): string {
+  return fs.readFileSync(path.join(__dirname, '..', 'fixtures', name), 'utf-8');
+}
@@ -0,0 +1,56 @@
+import { parseJobs } from '../src/scheduler/job-file';
+import { OutputFormat, SearchEngineType } from '../src/config/types';
+
+describe('parseJobs', () => {
+  it('reads a list of jobs with their options', () => {
+    const jobs = parseJobs(JSON.stringify({
+      jobs: [
+        {
+          name: 'docs',
+          query: ' puppeteer tutorial ',
+          schedule: '0 * * * *',
+          engine: 'duckduckgo',
+          extractOptions: { images: false },
+          maxResults: 20,
+          outputFormats: ['json', 'csv'],
+          database: './searches.db'
+        },
+        { query: 'Node.js: what\'s new?', schedule: '@daily' }
+      ]
+    }));
+
+    expect(jobs).toEqual([
+      {
+        name: 'docs',
+        query: 'puppeteer tutorial',
+        schedule: '0 * * * *',
+        engine: SearchEngineType.DUCKDUCKGO,
+        extractOptions: { images: false },
+        maxResults: 20,
+        outputFormats: [OutputFormat.JSON, OutputFormat.CSV],
+        database: './searches.db'
+      },
+      { name: 'node-js-what-s-new', query: 'Node.js: what\'s new?', schedule: '@daily' }
+    ]);
+  });
+
+  it('accepts a plain array', () => {
+    expect(parseJobs('[{"query": "q", "schedule": "@hourly"}]')).toHaveLength(1);
+  });
+
+  it('rejects invalid jobs', () => {
+    expect(() => parseJobs('{')).toThrow('Invalid JSON');
+    expect(() => parseJobs('{}')).toThrow('array of jobs');
+    expect(() => parseJobs('[{"schedule": "@daily"}]')).toThrow('Job 1 has no "query"');
+    expect(() => parseJobs('[{"query": "q"}]')).toThrow('Job 1 has no "schedule"');
+    expect(() => parseJobs('[{"query": "q", "schedule": "every day"}]')).toThrow('Invalid cron expression');
+    expect(() => parseJobs('[{"name": "feb", "query": "q", "schedule": "0 0 30 2 *"}]'))
+      .toThrow('Job 1 "feb" has an invalid schedule: Cron expression "0 0 30 2 *" never runs');
+    expect(() => parseJobs('[{"query": "q", "schedule": "@daily", "engine": "altavista"}]')).toThrow('unknown engine');
+    expect(() => parseJobs('[{"query": "q", "schedule": "@daily", "name": "../up"}]')).toThrow('invalid name');
+    expect(() => parseJobs('[{"query": "q", "schedule": "@daily", "maxPages": 0}]')).toThrow('"maxPages"');
+    expect(() => parseJobs('[{"query": "q", "schedule": "@daily", "outputFormats": ["pdf"]}]')).toThrow('"outputFormats"');
+    expect(() => parseJobs('[{"query": "q", "schedule": "@daily"}, {"query": "Q", "schedule": "@hourly"}]'))
+      .toThrow('Duplicate job name "q"');
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * @jest-environment jsdom
+ */
+import { convertDocumentToMarkdown, formatMarkdownDocument } from '../src/content/markdown-converter';
+import { expectGolden, readFixture, FIXED_TIMESTAMP } from './helpers/golden';
+
+const PAGE_URL = 'https://blog.example.com/posts/event-loops';
+
+function parse(html: string): Document {
+  return new DOMParser().parseFromString(html, 'text/html');
+}
+
+function convertBody(body: string): string {
+  return convertDocumentToMarkdown(PAGE_URL, parse(`<html><body>${body}</body></html>`));
+}
+
+describe('convertDocumentToMarkdown', () => {
+  it('converts a blog post with front matter', () => {
+    const doc = parse(readFixture('article.html'));
+    const markdown = formatMarkdownDocument({
+      url: PAGE_URL,
+      title: doc.title,
+      fetchedAt: FIXED_TIMESTAMP,
+      statusCode: 200
+    }, convertDocumentToMarkdown(PAGE_URL, doc));
+
+    expectGolden('article/page.md', markdown);
+  });
+
+  it('resolves relative links and image sources against the page URL', () => {
+    expect(convertBody('<p><a href="../streams">Streams</a> <img src="/img/loop.png" alt="Loop diagram"></p>'))
+      .toBe('[Streams](https://blog.example.com/streams) ![Loop diagram](https://blog.example.com/img/loop.png)');
+  });
+
+  it('keeps the alt text of inline images', () => {
+    expect(convertBody('<p>Logo: <img src="data:image/png;base64,AAAA" alt="Example logo"></p>'))
+      .toBe('Logo: Example logo');
+  });
+
+  it('uses a longer fence for code containing backticks', () => {
+    expect(convertBody('<pre>const s = `a ```b``` c`;</pre>')).toBe('````\nconst s = `a ```b``` c`;\n````');
+  });
+
+  it('numbers ordered lists from their start attribute and indents nested lists', () => {
+    expect(convertBody('<ol start="3"><li>Three<ul><li>Nested</li></ul></li><li>Four</li></ol>'))
+      .toBe('3. Three\n   - Nested\n4. Four');
+  });
+
+  it('escapes pipes in table cells and pads short rows', () => {
+    expect(convertBody('<table><tr><th>A</th><th>B</th></tr><tr><td>x | y</td></tr></table>'))
+      .toBe('| A | B |\n| --- | --- |\n| x \\| y | |');
+  });
+
+  it('drops scripts, styles and form controls', () => {
+    expect(convertBody('<script>track()</script><style>p{}</style><p>Text</p><button>Click</button>')).toBe('Text');
+  });
+});
+
+describe('formatMarkdownDocument', () => {
+  it('quotes front matter values', () => {
+    const markdown = formatMarkdownDocument({
+      url: 'https://example.com/',
+      title: 'Say "hello": a guide',
+      fetchedAt: FIXED_TIMESTAMP,
+      statusCode: null
+    }, 'Body');
+
+    expect(markdown).toBe([
+      '---',
+      'url: "https://example.com/"',
+      'title: "Say \\"hello\\": a guide"',
+      `fetchedAt: "${FIXED_TIMESTAMP}"`,
+      'status: null',
+      '---',
+      '',
+      'Body',
+      ''
+    ].join('\n'));
+  });
+});
@@ -0,0 +1,121 @@
+import { PassThrough } from 'stream';
+import { McpServer } from '../src/mcp/mcp-server';
+import { MCP_TOOLS, validateArguments } from '../src/mcp/mcp-tools';
+import { ScraperConfig } from '../src/config/types';
+
+const config = { searchQuery: '', outputDir: './mcp-results' } as ScraperConfig;
+
+/**
+ * Build a JSON-RPC request
+ */
+function request(id: number | undefined, method: string, params?: object): string {
+  return JSON.stringify({ jsonrpc: '2.0', id, method, params });
+}
+
+describe('McpServer', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('negotiates the protocol version and lists the tools', async () => {
+    const server = new McpServer(config);
+
+    const initialized = await server.handleMessage(request(1, 'initialize', { protocolVersion: '2025-06-18' }));
+    expect(initialized).toMatchObject({
+      jsonrpc: '2.0',
+      id: 1,
+      result: { protocolVersion: '2025-06-18', capabilities: { tools: { listChanged: false } }, serverInfo: { name: 'websearchpup' } }
+    });
+    expect(await server.handleMessage(request(undefined, 'notifications/initialized'))).toBeNull();
+
+    const listed = await server.handleMessage(request(2, 'tools/list')) as { result: { tools: { name: string; outputSchema?: object }[] } };
+    expect(listed.result.tools.map(tool => tool.name)).toEqual(['web_search', 'fetch_page', 'expand_question', 'related_search']);
+    expect(listed.result.tools[0].outputSchema).toBeDefined();
+  });
+
+  it('leaves out output schemas for older protocol versions', async () => {
+    const server = new McpServer(config);
+
+    const initialized = await server.handleMessage(request(1, 'initialize', { protocolVersion: '2024-11-05' }));
+    const listed = await server.handleMessage(request(2, 'tools/list')) as { result: { tools: object[] } };
+
+    expect(initialized).toMatchObject({ result: { protocolVersion: '2024-11-05' } });
+    expect(listed.result.tools.every(tool => !('outputSchema' in tool))).toBe(true);
+
+    const unknownVersion = await server.handleMessage(request(3, 'initialize', { protocolVersion: '1999-01-01' }));
+    expect(unknownVersion).toMatchObject({ result: { protocolVersion: '2025-06-18' } });
+  });
+
+  it('answers protocol errors and reports tool errors to the model', async () => {
+    const server = new McpServer(config);
+
+    expect(await server.handleMessage('{"jsonrpc"')).toMatchObject({ id: null, error: { code: -32700 } });
+    expect(await server.handleMessage('[]')).toMatchObject({ error: { code: -32600 } });
+    expect(await server.handleMessage(request(1, 'resources/list'))).toMatchObject({ id: 1, error: { code: -32601 } });
+    expect(await server.handleMessage(request(2, 'tools/call', { name: 'shell' }))).toMatchObject({
+      id: 2,
+      error: { code: -32602, message: 'Unknown tool: shell' }
+    });
+
+    expect(await server.handleMessage(request(3, 'tools/call', { name: 'web_search', arguments: { query: '', depth: 2 } })))
+      .toMatchObject({
+        id: 3,
+        result: {
+          isError: true,
+          content: [{ type: 'text', text: 'Invalid arguments: arguments.query must not be empty; arguments.depth is not a known argument' }]
+        }
+      });
+    expect(await server.handleMessage(request(4, 'tools/call', { name: 'related_search', arguments: { index: 0 } })))
+      .toMatchObject({ result: { isError: true, content: [{ text: 'related_search failed: No search yet, call web_search first' }] } });
+  });
+
+  it('serves newline-delimited messages until the input ends', async () => {
+    const input = new PassThrough();
+    const output = new PassThrough();
+    const server = new McpServer(config, { input, output });
+
+    const served = server.serve();
+    input.end(`${request(1, 'ping')}\n\n${request(undefined, 'notifications/initialized')}\n${request(2, 'tools/list')}\n`);
+    await served;
+
+    const responses = output.read().toString().trim().split('\n').map((line: string) => JSON.parse(line));
+    expect(responses.map((response: { id: number }) => response.id).sort()).toEqual([1, 2]);
+    expect(responses.find((response: { id: number }) => response.id === 1)).toEqual({ jsonrpc: '2.0', id: 1, result: {} });
+  });
+});
+
+describe('validateArguments', () => {
+  const search = MCP_TOOLS[0].inputSchema;
+
+  it('accepts arguments matching the schema', () => {
+    expect(validateArguments(search, {
+      query: 'puppeteer',
+      engine: 'brave',
+      maxResults: 5,
+      extractOptions: { images: true, videos: false }
+    })).toEqual([]);
+  });
+
+  it('reports every mismatch with its path', () => {
+    expect(validateArguments(search, {
+      query: 3,
+      engine: 'altavista',
+      maxPages: 0,
+      maxResults: 2.5,
+      extractOptions: { images: 'yes', ads: true }
+    })).toEqual([
+      'arguments.query must be string',
+      'arguments.engine must be one of: bing, duckduckgo, brave, searxng',
+      'arguments.maxPages must be at least 1',
+      'arguments.maxResults must be integer',
+      'arguments.extractOptions.images must be boolean',
+      'arguments.extractOptions.ads is not a known argument'
+    ]);
+    expect(validateArguments(search, null)).toEqual(['arguments must be object']);
+    expect(validateArguments({ type: ['number', 'null'] }, 2)).toEqual([]);
+  });
+});
@@ -0,0 +1,40 @@
+import { parseCsvQueries, parseJsonlQueries, parseTextQueries } from '../src/batch/query-file';
+import { SearchEngineType } from '../src/config/types';
+
+describe('query files', () => {
+  it('reads one query per line from text, skipping blanks and comments', () => {
+    expect(parseTextQueries('puppeteer tutorial\r\n\n# later\n  rust async  \n')).toEqual([
+      { query: 'puppeteer tutorial' },
+      { query: 'rust async' }
+    ]);
+  });
+
+  it('reads the query and engine columns from CSV', () => {
+    const csv = 'id,Query,engine\n1,"puppeteer, tutorial",brave\n2,"say ""hi""",\n3,,bing\n';
+
+    expect(parseCsvQueries(csv)).toEqual([
+      { query: 'puppeteer, tutorial', engine: SearchEngineType.BRAVE },
+      { query: 'say "hi"', engine: undefined }
+    ]);
+  });
+
+  it('requires a query column in CSV', () => {
+    expect(() => parseCsvQueries('term\nfoo\n')).toThrow('"query" column');
+  });
+
+  it('reads strings and objects from JSON Lines', () => {
+    const jsonl = '"puppeteer tutorial"\n\n{"query":"rust async","engine":"duckduckgo"}\n';
+
+    expect(parseJsonlQueries(jsonl)).toEqual([
+      { query: 'puppeteer tutorial' },
+      { query: 'rust async', engine: SearchEngineType.DUCKDUCKGO }
+    ]);
+  });
+
+  it('reports invalid JSON Lines entries with their line number', () => {
+    expect(() => parseJsonlQueries('"ok"\n{"term":"x"}')).toThrow('Line 2');
+    expect(() => parseJsonlQueries('{"query":"x","engine":"altavista"}')).toThrow('Unknown search engine');
+    expect(() => parseJsonlQueries('{"query":"x","engine":3}')).toThrow('"engine" that is not a string');
+    expect(() => parseJsonlQueries('{"query":42}')).toThrow('has no "query"');
+  });
+});
@@ -0,0 +1,82 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { RankTracker } from '../src/ranking/rank-tracker';
+import { SqliteStore } from '../src/output/sqlite-store';
+import { SearchEngineType, SearchResults } from '../src/config/types';
+import { FIXED_TIMESTAMP, GOLDEN_DIR } from './helpers/golden';
+
+const results: SearchResults = JSON.parse(
+  fs.readFileSync(path.join(GOLDEN_DIR, 'bing-serp', 'search-results.json'), 'utf-8')
+);
+
+describe('RankTracker', () => {
+  it('finds the positions, deep links and featured snippets of each domain', () => {
+    const tracker = new RankTracker(['https://www.PPTR.dev/', 'github.com', 'example.com']);
+    const [pptr, github, example] = tracker.track(results, SearchEngineType.BING);
+
+    expect(tracker.getDomains()).toEqual(['pptr.dev', 'github.com', 'example.com']);
+    expect(pptr).toEqual({
+      timestamp: results.timestamp,
+      query: results.query,
+      engine: 'bing',
+      domain: 'pptr.dev',
+      bestPosition: 1,
+      bestUrl: 'https://pptr.dev/guides/getting-started',
+      positions: [1],
+      hasDeepLinks: true,
+      ownsFeaturedSnippet: true
+    });
+    expect(github).toMatchObject({ bestPosition: 4, positions: [4], ownsFeaturedSnippet: false });
+    expect(example).toMatchObject({ bestPosition: null, bestUrl: null, positions: [], hasDeepLinks: false });
+  });
+
+  it('counts subdomains and every position of a domain', () => {
+    const ranks = new RankTracker(['example.com']).track({
+      query: 'q',
+      timestamp: FIXED_TIMESTAMP,
+      organicResults: [
+        { position: 1, title: 'Other', url: 'https://notexample.com/', snippet: null },
+        { position: 2, title: 'Docs', url: 'https://docs.example.com/', snippet: null },
+        { position: 5, title: 'Home', url: 'https://example.com/', snippet: null }
+      ],
+      featuredSnippets: [{ content: 'Answer', source: 'example.com' }]
+    });
+
+    expect(ranks[0]).toMatchObject({ bestPosition: 2, positions: [2, 5], ownsFeaturedSnippet: true });
+  });
+
+  it('does not match featured snippets with a malformed source', () => {
+    const ranks = new RankTracker(['example.com']).track({
+      query: 'q',
+      timestamp: FIXED_TIMESTAMP,
+      organicResults: [{ position: 1, title: 'Home', url: 'https://example.com/', snippet: null }],
+      featuredSnippets: [{ content: 'Answer', source: 'https:// foo' }]
+    });
+
+    expect(ranks[0]).toMatchObject({ bestPosition: 1, ownsFeaturedSnippet: false });
+  });
+
+  it('rejects an empty domain list', () => {
+    expect(() => new RankTracker([' '])).toThrow('No domains to track');
+  });
+
+  it('appends ranks to the store and exports them as CSV', () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    const tracker = new RankTracker(['pptr.dev', 'example.com']);
+    const store = new SqliteStore(':memory:');
+
+    store.saveDomainRanks(tracker.track(results, SearchEngineType.BING));
+    store.saveDomainRanks(tracker.track({ ...results, timestamp: '2024-01-02T00:00:00.000Z', query: 'a, "b"' }));
+    const ranks = store.getDomainRanks({ domains: ['pptr.dev'] });
+    store.close();
+    jest.restoreAllMocks();
+
+    expect(ranks.map(rank => rank.timestamp)).toEqual([results.timestamp, '2024-01-02T00:00:00.000Z']);
+    expect(tracker.toCsv(ranks)).toBe([
+      'timestamp,query,engine,domain,best_position,best_url,positions,has_deep_links,owns_featured_snippet',
+      `${results.timestamp},puppeteer tutorial,bing,pptr.dev,1,https://pptr.dev/guides/getting-started,1,true,true`,
+      '2024-01-02T00:00:00.000Z,"a, ""b""",,pptr.dev,1,https://pptr.dev/guides/getting-started,1,true,true',
+      ''
+    ].join('\r\n'));
+  });
+});
@@ -0,0 +1,78 @@
+import { parseCrawlRequest, parseSearchRequest } from '../src/server/request-validation';
+import { OutputFormat, ScraperConfig, SearchEngineType } from '../src/config/types';
+import { DEFAULT_CONFIG } from '../src/config/default-config';
+
+const baseConfig = { ...DEFAULT_CONFIG, searchQuery: '', outputDir: './api-runs' } as ScraperConfig;
+
+describe('parseSearchRequest', () => {
+  it('applies the request to the server configuration', () => {
+    const config = parseSearchRequest({
+      searchQuery: ' puppeteer tutorial ',
+      engine: 'duckduckgo',
+      maxResults: 10,
+      outputFormats: ['json', 'markdown'],
+      extractOptions: { images: true },
+      followUp: { maxResults: 2, sameDomainOnly: false },
+      contextPack: { maxTokens: null }
+    }, baseConfig);
+
+    expect(config).toMatchObject({
+      searchQuery: 'puppeteer tutorial',
+      engine: SearchEngineType.DUCKDUCKGO,
+      maxResults: 10,
+      outputDir: './api-runs',
+      outputFormats: [OutputFormat.JSON, OutputFormat.MARKDOWN],
+      extractOptions: { ...DEFAULT_CONFIG.extractOptions, images: true },
+      followUp: { maxResults: 2, sameDomainOnly: false },
+      contextPack: { maxTokens: null }
+    });
+  });
+
+  it.each([
+    [[], 'Request body must be a JSON object'],
+    [{}, '"searchQuery" is required'],
+    [{ searchQuery: ' ' }, '"searchQuery" must be a non-empty string'],
+    [{ searchQuery: 'q', outputDir: '/etc' }, '"outputDir" is set by the server'],
+    [{ searchQuery: 'q', engine: 'altavista' }, '"engine" must be one of'],
+    [{ searchQuery: 'q', maxPages: -1 }, '"maxPages" must be a positive number'],
+    [{ searchQuery: 'q', outputFormats: ['pdf'] }, '"outputFormats" must be a list'],
+    [{ searchQuery: 'q', extractOptions: { images: 'yes' } }, '"extractOptions.images" must be a boolean'],
+    [{ searchQuery: 'q', followUp: { depth: -2 } }, '"followUp.depth" must be a non-negative number'],
+    [{ searchQuery: 'q', colour: 'blue' }, 'Unknown setting "colour"']
+  ])('rejects %j', (body, message) => {
+    expect(() => parseSearchRequest(body, baseConfig)).toThrow(message);
+    try {
+      parseSearchRequest(body, baseConfig);
+    } catch (error) {
+      expect(error).toMatchObject({ name: 'HttpError', status: 400 });
+    }
+  });
+});
+
+describe('parseCrawlRequest', () => {
+  it('accepts a single URL or a list', () => {
+    expect(parseCrawlRequest({ url: 'https://example.com/', markdown: true })).toEqual({
+      urls: ['https://example.com/'],
+      markdown: true
+    });
+    expect(parseCrawlRequest({ urls: ['https://example.com/a', 'http://example.com/b'], timeout: 5000 })).toEqual({
+      urls: ['https://example.com/a', 'http://example.com/b'],
+      timeout: 5000
+    });
+  });
+
+  it.each([
+    [{}, 'Expected either "url" or "urls"'],
+    [{ url: 'https://example.com/', urls: [] }, 'Expected either "url" or "urls"'],
+    [{ urls: [] }, '"urls" must be a non-empty list'],
+    [{ url: 'file:///etc/passwd' }, 'expected an http(s) URL'],
+    [{ url: 'https://example.com/', takeScreenshot: 1 }, '"takeScreenshot" must be a boolean'],
+    [{ url: 'https://example.com/', depth: 2 }, 'Unknown setting "depth"']
+  ])('rejects %j', (body, message) => {
+    expect(() => parseCrawlRequest(body)).toThrow(message);
+  });
+
+  it('limits the number of URLs', () => {
+    expect(() => parseCrawlRequest({ urls: ['https://a.example/', 'https://b.example/'] }, 1)).toThrow('At most 1 URLs');
+  });
+});
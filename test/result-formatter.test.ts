@@ -0,0 +1,125 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ResultFormatter } from '../src/output/result-formatter';
+import { OutputFormat, SearchResults } from '../src/config/types';
+import { expectGolden, GOLDEN_DIR } from './helpers/golden';
+
+// The extractor golden output doubles as formatter input
+const results: SearchResults = JSON.parse(
+  fs.readFileSync(path.join(GOLDEN_DIR, 'bing-serp', 'search-results.json'), 'utf-8')
+);
+
+describe('ResultFormatter', () => {
+  const formatter = new ResultFormatter();
+
+  it.each(Object.values(OutputFormat))('formats results as %s', format => {
+    expectGolden(`bing-serp/formatted.${format}`, formatter.format(results, format));
+  });
+
+  it('writes one JSON Lines record per result item', () => {
+    const records = formatter.format(results, OutputFormat.JSONL)
+      .trimEnd()
+      .split('\n')
+      .map(line => JSON.parse(line));
+    
+    const expectedCount = (results.organicResults?.length || 0)
+      + (results.featuredSnippets?.length || 0)
+      + (results.peopleAlsoAsk?.length || 0)
+      + (results.relatedSearches?.length || 0)
+      + (results.videos?.length || 0)
+      + (results.images?.length || 0);
+    
+    expect(records).toHaveLength(expectedCount);
+    for (const record of records) {
+      expect(record).toMatchObject({ query: results.query, timestamp: results.timestamp });
+      expect(typeof record.type).toBe('string');
+    }
+  });
+
+  it('writes CSV with a single header and quoted line breaks', () => {
+    const csv = formatter.format({
+      query: 'a, "b"',
+      timestamp: '2024-01-01T00:00:00.000Z',
+      organicResults: [{ position: 1, title: 'Title', url: 'https://example.com/', snippet: 'line one\nline two' }],
+      peopleAlsoAsk: ['Why?']
+    }, OutputFormat.CSV);
+
+    expect(csv).toBe([
+      'query,timestamp,type,position,title,url,snippet,source,duration,extra',
+      '"a, ""b""",2024-01-01T00:00:00.000Z,organic,1,Title,https://example.com/,"line one\nline two",,,',
+      '"a, ""b""",2024-01-01T00:00:00.000Z,peopleAlsoAsk,1,Why?,,,,,',
+      ''
+    ].join('\r\n'));
+  });
+
+  it('splits CSV output into one document per non-empty section', () => {
+    const sections = formatter.formatCsvSections(results);
+
+    expect(Object.keys(sections)).toEqual(
+      ['organic', 'featured-snippets', 'people-also-ask', 'related-searches', 'videos', 'images']
+    );
+    for (const csv of Object.values(sections)) {
+      expect(csv.startsWith('query,timestamp,type,position,title,url,snippet,source,duration,extra\r\n')).toBe(true);
+    }
+    expect(formatter.formatCsvSections({ query: 'q', timestamp: 't', organicResults: [] })).toEqual({});
+  });
+
+  it('embeds the screenshot, timing chart and follow-up excerpts in the HTML report', () => {
+    const html = formatter.format({
+      query: '<script>alert(1)</script>',
+      timestamp: '2024-01-01T00:00:00.000Z',
+      organicResults: [{
+        position: 1,
+        title: 'Title',
+        url: 'javascript:alert(1)',
+        snippet: 'Snippet',
+        followUpResults: {
+          url: 'https://example.com/',
+          finalUrl: 'https://example.com/',
+          canonicalUrl: null,
+          title: 'Title',
+          text: 'word '.repeat(300).trim(),
+          links: [],
+          statusCode: 200,
+          byline: 'Jane Doe',
+          publishedAt: null,
+          blocks: [],
+          depth: 1,
+          fetchedAt: '2024-01-01T00:00:00.000Z',
+          durationMs: 0
+        }
+      }]
+    }, OutputFormat.HTML, {
+      screenshot: 'iVBORw0KGgo=',
+      timingData: { steps: { searchExecution: 500, totalExtraction: 1000 }, extractionSteps: {} }
+    });
+
+    expect(html).toContain('src="data:image/png;base64,iVBORw0KGgo="');
+    expect(html).toContain('<span style="width: 50.0%"></span>');
+    expect(html).toContain('<span class="timing-value">1.00s</span>');
+    expect(html).toContain('<span class="meta">HTTP 200 • Jane Doe</span>');
+    expect(html).toMatch(/<p class="excerpt">(word ){100,}word…<\/p>/);
+    expect(html).not.toContain('<script>alert(1)</script>');
+    expect(html).not.toContain('href="javascript:');
+  });
+
+  it('shows only inlined image thumbnails in the HTML report', () => {
+    const html = formatter.format({
+      query: 'q',
+      timestamp: '2024-01-01T00:00:00.000Z',
+      organicResults: [],
+      images: [
+        { title: 'Inlined', alt: 'Inlined', src: 'data:image/jpeg;base64,/9j/4AAQ', url: 'https://example.com/a', dimensions: null },
+        { title: 'Remote', alt: 'Remote', src: 'https://tse1.mm.bing.net/th?id=OIP.logo', url: 'https://example.com/b', dimensions: null }
+      ]
+    }, OutputFormat.HTML);
+
+    expect(html).toContain('<img class="thumbnail" src="data:image/jpeg;base64,/9j/4AAQ" alt="Inlined">');
+    expect(html).not.toContain('tse1.mm.bing.net');
+    expect(html).toContain('<div class="image-placeholder">No preview</div>');
+  });
+
+  it('rejects unknown formats', () => {
+    expect(() => formatter.format(results, 'xml' as OutputFormat)).toThrow('Unsupported output format: xml');
+  });
+});
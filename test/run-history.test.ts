@@ -0,0 +1,68 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { RunHistory, createRunId, isRunId } from '../src/output/run-history';
+import { ScraperConfig, SearchEngineType } from '../src/config/types';
+
+const config = { searchQuery: 'query', outputDir: 'out' } as ScraperConfig;
+
+describe('RunHistory', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'run-history-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('creates sortable run IDs from the start time', () => {
+    const runId = createRunId(new Date('2024-01-02T03:04:05.678Z'));
+
+    expect(runId).toMatch(/^20240102-030405-[0-9a-f]{6}$/);
+    expect(isRunId(runId)).toBe(true);
+    expect(isRunId('../20240102-030405-abcdef')).toBe(false);
+  });
+
+  it('writes a manifest with checksums of the run artifacts', () => {
+    const history = new RunHistory(dir);
+    const run = history.startRun(new Date('2024-01-01T00:00:00.000Z'));
+    fs.writeFileSync(path.join(run.dir, 'search-results.json'), '{}');
+    fs.mkdirSync(path.join(run.dir, 'pages'));
+    fs.writeFileSync(path.join(run.dir, 'pages', 'a.md'), '# A');
+
+    const manifest = history.finishRun(run, { query: 'query', engine: SearchEngineType.BING, config });
+
+    expect(manifest).toMatchObject({
+      runId: run.runId,
+      query: 'query',
+      engine: 'bing',
+      startedAt: '2024-01-01T00:00:00.000Z',
+      config
+    });
+    expect(manifest.toolVersion).toMatch(/^\d+\.\d+\.\d+/);
+    expect(manifest.artifacts).toEqual([
+      { name: 'pages/a.md', size: 3, sha256: crypto.createHash('sha256').update('# A').digest('hex') },
+      { name: 'search-results.json', size: 2, sha256: crypto.createHash('sha256').update('{}').digest('hex') }
+    ]);
+    expect(history.readManifest(run.runId)).toEqual(manifest);
+  });
+
+  it('points latest at the newest finished run', () => {
+    const history = new RunHistory(dir);
+    const first = history.startRun(new Date('2024-01-01T00:00:00.000Z'));
+    history.finishRun(first, { query: 'query', engine: SearchEngineType.BING, config });
+    const second = history.startRun(new Date('2024-01-02T00:00:00.000Z'));
+    history.finishRun(second, { query: 'query', engine: SearchEngineType.BING, config });
+
+    // Started but never finished, so not listed
+    history.startRun(new Date('2024-01-03T00:00:00.000Z'));
+
+    expect(history.listRuns()).toEqual([first.runId, second.runId]);
+    expect(history.getLatestRunId()).toBe(second.runId);
+    expect(history.readManifest('latest')?.runId).toBe(second.runId);
+    expect(history.readManifest('20990101-000000-abcdef')).toBeNull();
+  });
+});
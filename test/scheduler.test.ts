@@ -0,0 +1,41 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Scheduler } from '../src/scheduler/scheduler';
+import { ScraperConfig } from '../src/config/types';
+
+const config = { searchQuery: '', outputDir: 'out' } as ScraperConfig;
+const jobs = [{ name: 'docs', query: 'puppeteer', schedule: '@daily' }];
+
+describe('Scheduler history', () => {
+  let dir: string;
+  let historyFile: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'scheduler-'));
+    historyFile = path.join(dir, 'scheduler-history.json');
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('keeps the history of earlier runs', () => {
+    const history = { updatedAt: '2024-01-01T00:00:00.000Z', jobs: { docs: { successCount: 3 } } };
+    fs.writeFileSync(historyFile, JSON.stringify(history));
+
+    expect(new Scheduler(jobs, config, historyFile).getHistory()).toEqual(history);
+  });
+
+  it.each(['{}', '[]', 'null', '{"jobs": []}', '{"jobs": "docs"}', 'not json'])(
+    'starts a new history when the file holds %s',
+    content => {
+      fs.writeFileSync(historyFile, content);
+
+      expect(new Scheduler(jobs, config, historyFile).getHistory().jobs).toEqual({});
+      expect(console.error).toHaveBeenCalledWith(expect.stringContaining('starting a new one'));
+    }
+  );
+});
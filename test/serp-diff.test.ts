@@ -0,0 +1,78 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { diffSearchResults } from '../src/diff/serp-diff';
+import { DiffFormatter } from '../src/diff/diff-formatter';
+import { DiffFormat, SearchResults } from '../src/config/types';
+import { expectGolden, GOLDEN_DIR } from './helpers/golden';
+
+const before: SearchResults = JSON.parse(
+  fs.readFileSync(path.join(GOLDEN_DIR, 'bing-serp', 'search-results.json'), 'utf-8')
+);
+
+/**
+ * A later capture of the same query: the first two results swapped places, the third
+ * got a new snippet, the last one dropped out for a new result, the featured snippet
+ * disappeared and one question was replaced
+ */
+function laterCapture(): SearchResults {
+  const [first, second, third] = before.organicResults!;
+
+  return {
+    ...before,
+    timestamp: '2024-01-08T00:00:00.000Z',
+    organicResults: [
+      { ...second, position: 1 },
+      { ...first, position: 2 },
+      { ...third, snippet: 'A new snippet.' },
+      { position: 4, title: 'New result', url: 'https://example.com/new', snippet: 'New.' }
+    ],
+    featuredSnippets: [],
+    peopleAlsoAsk: [...before.peopleAlsoAsk!.slice(1), 'Is Puppeteer free?']
+  };
+}
+
+describe('diffSearchResults', () => {
+  it('reports new, dropped and moved results and changed snippets', () => {
+    const diff = diffSearchResults(before, laterCapture());
+    const [first, second, third, fourth] = before.organicResults!;
+
+    expect(diff.hasChanges).toBe(true);
+    expect(diff.organic.added).toEqual([{ url: 'https://example.com/new', title: 'New result', position: 4 }]);
+    expect(diff.organic.removed).toEqual([{ url: fourth.url, title: fourth.title, position: 4 }]);
+    expect(diff.organic.moved).toEqual([
+      { url: second.url, title: second.title, before: 2, after: 1 },
+      { url: first.url, title: first.title, before: 1, after: 2 }
+    ]);
+    expect(diff.organic.snippetChanged).toEqual([
+      { url: third.url, title: third.title, before: third.snippet, after: 'A new snippet.' }
+    ]);
+    expect(diff.featuredSnippets).toEqual({ added: [], removed: before.featuredSnippets });
+    expect(diff.peopleAlsoAsk).toEqual({ added: ['Is Puppeteer free?'], removed: [before.peopleAlsoAsk![0]] });
+  });
+
+  it('ignores case and whitespace differences', () => {
+    const after = {
+      ...before,
+      organicResults: before.organicResults!.map(result => ({ ...result, snippet: ` ${result.snippet?.toUpperCase()} ` })),
+      peopleAlsoAsk: before.peopleAlsoAsk!.map(question => question.toLowerCase())
+    };
+
+    expect(diffSearchResults(before, after).hasChanges).toBe(false);
+  });
+});
+
+describe('DiffFormatter', () => {
+  const formatter = new DiffFormatter();
+  const diff = diffSearchResults(before, laterCapture(), {
+    before: '20240101-000000-aaaaaa',
+    after: '20240108-000000-bbbbbb'
+  });
+
+  it.each(Object.values(DiffFormat))('formats diffs as %s', format => {
+    expectGolden(`serp-diff/diff.${format}`, formatter.format(diff, format));
+  });
+
+  it('reports when nothing changed', () => {
+    expect(formatter.format(diffSearchResults(before, before), DiffFormat.TEXT)).toContain('No changes');
+  });
+});
@@ -0,0 +1,121 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import Database from 'better-sqlite3';
+import { SqliteStore, SCHEMA_VERSION } from '../src/output/sqlite-store';
+import { SearchEngineType, SearchResults } from '../src/config/types';
+import { FIXED_TIMESTAMP, GOLDEN_DIR } from './helpers/golden';
+
+const results: SearchResults = JSON.parse(
+  fs.readFileSync(path.join(GOLDEN_DIR, 'bing-serp', 'search-results.json'), 'utf-8')
+);
+
+describe('SqliteStore', () => {
+  let dir: string;
+  let dbPath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sqlite-store-'));
+    dbPath = path.join(dir, 'runs.db');
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function query<T>(sql: string, ...params: unknown[]): T[] {
+    const db = new Database(dbPath, { readonly: true });
+    try {
+      return db.prepare(sql).all(...params) as T[];
+    } finally {
+      db.close();
+    }
+  }
+
+  it('creates the schema once and records the applied migrations', () => {
+    new SqliteStore(dbPath).close();
+
+    const store = new SqliteStore(dbPath);
+    expect(store.migrate()).toEqual([]);
+    expect(store.getSchemaVersion()).toBe(SCHEMA_VERSION);
+    store.close();
+
+    expect(query<{ version: number }>('SELECT version FROM schema_migrations')).toHaveLength(SCHEMA_VERSION);
+  });
+
+  it('saves a run with its results, SERP features and timings', () => {
+    const store = new SqliteStore(dbPath);
+    const runId = store.saveRun(results, {
+      engine: SearchEngineType.BING,
+      outputDir: './out',
+      timingData: { steps: { searchExecution: 12.5 }, extractionSteps: { organicResults: 3 }, saveFormats: { json: 1 } }
+    });
+    store.close();
+
+    expect(query('SELECT r.id, q.text AS query, r.engine, r.timestamp, r.output_dir FROM runs r JOIN queries q ON q.id = r.query_id'))
+      .toEqual([{ id: runId, query: results.query, engine: 'bing', timestamp: results.timestamp, output_dir: './out' }]);
+
+    const organic = query<{ position: number; url: string }>('SELECT position, url FROM organic_results WHERE run_id = ? ORDER BY position', runId);
+    expect(organic.map(row => row.url)).toEqual(results.organicResults!.map(result => result.url));
+
+    const deepLinkCount = results.organicResults!.reduce((count, result) => count + (result.deepLinks?.length || 0), 0);
+    expect(query('SELECT * FROM deep_links')).toHaveLength(deepLinkCount);
+
+    const features = query<{ type: string; count: number }>('SELECT type, COUNT(*) AS count FROM serp_features GROUP BY type ORDER BY type');
+    expect(features).toEqual([
+      { type: 'featuredSnippet', count: results.featuredSnippets!.length },
+      { type: 'image', count: results.images!.length },
+      { type: 'peopleAlsoAsk', count: results.peopleAlsoAsk!.length },
+      { type: 'relatedSearch', count: results.relatedSearches!.length },
+      { type: 'video', count: results.videos!.length }
+    ].filter(feature => feature.count > 0));
+
+    expect(query('SELECT category, name, duration_ms FROM timings ORDER BY category')).toEqual([
+      { category: 'extraction', name: 'organicResults', duration_ms: 3 },
+      { category: 'save', name: 'json', duration_ms: 1 },
+      { category: 'step', name: 'searchExecution', duration_ms: 12.5 }
+    ]);
+  });
+
+  it('links follow-up pages to their result and parent page', () => {
+    const page = {
+      url: 'https://example.com/',
+      finalUrl: 'https://example.com/',
+      canonicalUrl: null,
+      title: 'Example',
+      text: 'Text',
+      links: [],
+      statusCode: 200,
+      byline: null,
+      publishedAt: null,
+      blocks: [],
+      depth: 1,
+      fetchedAt: FIXED_TIMESTAMP,
+      durationMs: 10
+    };
+
+    const store = new SqliteStore(dbPath);
+    store.saveRun({
+      query: 'example',
+      timestamp: FIXED_TIMESTAMP,
+      organicResults: [{
+        position: 1,
+        title: 'Example',
+        url: 'https://example.com/',
+        snippet: null,
+        followUpResults: { ...page, children: [{ ...page, url: 'https://example.com/about', depth: 2 }] }
+      }]
+    });
+    store.saveRun({ query: 'example', timestamp: FIXED_TIMESTAMP, organicResults: [] });
+    store.close();
+
+    expect(query('SELECT id, parent_id, depth, url FROM follow_up_pages ORDER BY id')).toEqual([
+      { id: 1, parent_id: null, depth: 1, url: 'https://example.com/' },
+      { id: 2, parent_id: 1, depth: 2, url: 'https://example.com/about' }
+    ]);
+    expect(query('SELECT * FROM queries')).toEqual([{ id: 1, text: 'example' }]);
+    expect(query('SELECT id FROM runs')).toHaveLength(2);
+  });
+});
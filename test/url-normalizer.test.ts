@@ -0,0 +1,37 @@
+import { normalizeUrl } from '../src/utils/url-normalizer';
+
+describe('normalizeUrl', () => {
+  it('decodes Bing click-tracking redirects', () => {
+    const target = 'https://example.com/guide?page=2';
+    const wrapped = `https://www.bing.com/ck/a?!&&p=abc&u=a1${Buffer.from(target).toString('base64url')}&ntb=1`;
+
+    expect(normalizeUrl(wrapped)).toBe(target);
+  });
+
+  it('decodes DuckDuckGo redirects', () => {
+    const wrapped = `https://duckduckgo.com/l/?uddg=${encodeURIComponent('https://example.com/a b')}&rut=123`;
+
+    expect(normalizeUrl(wrapped)).toBe('https://example.com/a%20b');
+  });
+
+  it('resolves relative links against the base URL', () => {
+    expect(normalizeUrl('/videos/search?q=test&mid=1', 'https://www.bing.com/'))
+      .toBe('https://www.bing.com/videos/search?q=test&mid=1');
+  });
+
+  it('strips tracking parameters and keeps the rest', () => {
+    expect(normalizeUrl('https://example.com/?utm_source=x&UTM_Medium=y&id=7&fbclid=z&gclid=q'))
+      .toBe('https://example.com/?id=7');
+  });
+
+  it('leaves unparseable and missing URLs alone', () => {
+    expect(normalizeUrl('/relative/without/base')).toBe('/relative/without/base');
+    expect(normalizeUrl(null)).toBeNull();
+  });
+
+  it('ignores redirect wrappers without a web destination', () => {
+    const wrapped = `https://www.bing.com/ck/a?u=a1${Buffer.from('javascript:alert(1)').toString('base64url')}`;
+
+    expect(normalizeUrl(wrapped)).toBe(wrapped);
+  });
+});